@@ -2,15 +2,27 @@ import os
 import subprocess
 import time
 import base64
-from typing import Tuple, Optional, List, Dict, Any
+import json
+import struct
+import shutil
+import threading
+import uuid
+from concurrent.futures import ThreadPoolExecutor
+from typing import Tuple, Optional, List, Dict, Any, Callable
 from PIL import Image
-from flask import Flask, request, jsonify
+from flask import Flask, Response, request, jsonify, stream_with_context, send_file
 from werkzeug.utils import secure_filename
 from flask_cors import CORS 
 from io import BytesIO
 
 # ----------------- Flask 설정 -----------------
+APP_VERSION = os.environ.get('APP_VERSION', '1.0.0')
+# 요청 1회의 최대 업로드 크기와 파일 수 (환경변수로 조정)
+MAX_UPLOAD_BYTES = int(os.environ.get('MAX_UPLOAD_MB', '100')) * 1024 * 1024
+MAX_FILES_PER_REQUEST = int(os.environ.get('MAX_FILES_PER_REQUEST', '20'))
+
 app = Flask(__name__)
+app.config['MAX_CONTENT_LENGTH'] = MAX_UPLOAD_BYTES
 CORS(app) 
 TEMP_DIR = 'temp_gifsicle_data'
 os.makedirs(TEMP_DIR, exist_ok=True) 
@@ -23,21 +35,137 @@ except (subprocess.CalledProcessError, FileNotFoundError):
     GIFSICLE_AVAILABLE = False
     print("WARNING: Gifsicle is not available. The API may not function.")
 
+# FFmpeg 존재 여부 확인 (영상 입력 변환에만 필요)
+try:
+    subprocess.run(['ffmpeg', '-version'], check=True, capture_output=True)
+    FFMPEG_AVAILABLE = True
+except (subprocess.CalledProcessError, FileNotFoundError):
+    FFMPEG_AVAILABLE = False
+    print("WARNING: FFmpeg is not available. Video uploads will fail.")
+
 # ----------------- 최적화 함수 (이전과 동일) -----------------
 # 내부 로직은 파일 처리 및 임시 파일 정리 로직이므로 변경 없이 유지합니다.
 
-def optimize_gif_with_pillow_and_gifsicle(input_bytes: bytes, lossy_value: int, colors_value: int) -> Tuple[Optional[bytes], Optional[str]]:
+# 프레임/크기 변환 기본값 (이전 버전과 같이 2프레임마다 1프레임 유지)
+DEFAULT_TRANSFORM: Dict[str, Any] = {
+    'frame_step': 2,
+    'width': None,
+    'height': None,
+    'crop': None,
+    'speed': 1.0,
+    'edits': [],
+}
+MIN_LOSSY = 0
+MAX_LOSSY = 300
+MIN_COLORS = 2
+MAX_COLORS = 256
+MAX_FRAME_STEP = 10
+MAX_DIMENSION = 4096
+MIN_SPEED = 0.25
+MAX_SPEED = 4.0
+# 브라우저는 20ms 미만 지연을 100ms로 재생하므로 출력 지연은 20ms 이상으로 맞춤
+MIN_FRAME_DURATION_MS = 20
+DEFAULT_FRAME_DURATION_MS = 100
+
+# 출력 형식별 확장자와 MIME 타입 (APNG는 일반 PNG 뷰어와의 호환을 위해 .png 확장자 사용)
+OUTPUT_FORMATS: Dict[str, Dict[str, str]] = {
+    'gif': {'extension': 'gif', 'mime_type': 'image/gif'},
+    'webp': {'extension': 'webp', 'mime_type': 'image/webp'},
+    'apng': {'extension': 'png', 'mime_type': 'image/apng'},
+}
+# 출력 형식 기본값. GIF는 lossy/colors, WebP는 품질/무손실, APNG는 팔레트 색상 수(None: 전체 색상)를 사용
+DEFAULT_OUTPUT: Dict[str, Any] = {
+    'format': 'gif',
+    'webp_quality': 80,
+    'webp_lossless': False,
+    'apng_colors': None,
+}
+
+# 영상 입력 (MIME 타입별 임시 파일 확장자)
+VIDEO_MIMETYPES: Dict[str, str] = {
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+}
+# ffmpeg palettegen 통계 방식 (full: 전체 프레임, diff: 움직이는 부분 위주, single: 프레임마다 새 팔레트)
+PALETTE_MODES = ('full', 'diff', 'single')
+# 영상 변환 기본값 (end가 None이면 끝까지, width가 None이면 원본 너비)
+DEFAULT_VIDEO: Dict[str, Any] = {
+    'fps': 12,
+    'start': 0.0,
+    'end': None,
+    'width': 480,
+    'palette_mode': 'diff',
+}
+MAX_VIDEO_FPS = 30
+
+def clamp_crop(crop: Tuple[int, int, int, int], image_width: int, image_height: int) -> Tuple[int, int, int, int]:
     """
-    Pillow로 프레임을 줄인 후, Gifsicle로 극한 압축을 수행합니다.
+    자르기 영역 (x, y, width, height)을 이미지 안쪽으로 제한해 Pillow crop 상자 (left, top, right, bottom)로 반환합니다.
+    겹치는 영역이 없으면 ValueError를 발생시킵니다.
     """
-    
-    if not GIFSICLE_AVAILABLE:
+    x, y, width, height = crop
+    left = max(0, min(image_width, x))
+    top = max(0, min(image_height, y))
+    right = min(x + width, image_width)
+    bottom = min(y + height, image_height)
+    if right - left < 1 or bottom - top < 1:
+        raise ValueError("Crop area is outside of the image.")
+    return left, top, right, bottom
+
+def compute_output_size(source_width: int, source_height: int, width: Optional[int], height: Optional[int]) -> Optional[Tuple[int, int]]:
+    """
+    요청한 출력 크기를 계산합니다. 한쪽만 지정하면 비율을 유지하고, 둘 다 없으면 None(리사이즈 안 함)입니다.
+    """
+    if width and height:
+        return width, height
+    if width:
+        return width, max(1, round(source_height * width / source_width))
+    if height:
+        return max(1, round(source_width * height / source_height)), height
+    return None
+
+def apply_edit_list(frame_count: int, edits: List[Dict[str, Any]]) -> Tuple[List[int], Optional[int]]:
+    """
+    편집 목록을 순서대로 적용해 (출력 프레임 순서(원본 인덱스), 재생 횟수)를 반환합니다.
+    재생 횟수는 0이 무한 반복이고, 편집 목록에 loop가 없으면 None(원본 유지)입니다.
+    """
+    sequence = list(range(frame_count))
+    play_count = None
+    for edit in edits:
+        op = edit['op']
+        if op == 'trim':
+            # 앞선 편집으로 길이가 바뀌었을 수 있으므로 현재 순서 기준으로 자름
+            last = len(sequence) - 1
+            start = min(edit['start'], last)
+            end = min(max(edit['end'], start), last)
+            sequence = sequence[start:end + 1]
+        elif op == 'reverse':
+            sequence = sequence[::-1]
+        elif op == 'pingpong':
+            # 양 끝 프레임이 두 번 연속 나오지 않도록 끝을 뺀 역순을 이어 붙임
+            if len(sequence) > 2:
+                sequence = sequence + sequence[-2:0:-1]
+        elif op == 'loop':
+            play_count = edit['count']
+    return sequence, play_count
+
+def optimize_gif_with_pillow_and_gifsicle(input_bytes: bytes, lossy_value: int, colors_value: int, transform: Optional[Dict[str, Any]] = None, output: Optional[Dict[str, Any]] = None) -> Tuple[Optional[bytes], Optional[str]]:
+    """
+    Pillow로 타임라인 편집/프레임 솎아내기/자르기/리사이즈/속도 조절을 적용한 후 요청한 형식으로 저장합니다.
+    GIF는 Gifsicle로 극한 압축을 수행하고, 애니메이션 WebP와 APNG는 Pillow 인코더로 바로 저장합니다.
+    """
+    output_options = {**DEFAULT_OUTPUT, **(output or {})}
+    output_format = output_options['format']
+
+    if output_format == 'gif' and not GIFSICLE_AVAILABLE:
         return None, "Gifsicle command is unavailable. Please check the server environment."
 
-    unique_id = str(time.time()).replace('.', '')
+    options = {**DEFAULT_TRANSFORM, **(transform or {})}
+    # 작업 스레드가 동시에 처리해도 임시 파일 이름이 겹치지 않도록 무작위 ID 사용
+    unique_id = uuid.uuid4().hex
     input_filename_full = os.path.join(TEMP_DIR, f'temp_in_full_{unique_id}.gif')
     temp_filename_reduced = os.path.join(TEMP_DIR, f'temp_reduced_{unique_id}.gif')
-    output_filename = os.path.join(TEMP_DIR, f'temp_out_{unique_id}.gif')
+    output_filename = os.path.join(TEMP_DIR, f'temp_out_{unique_id}.{OUTPUT_FORMATS[output_format]["extension"]}')
     
     optimized_bytes = None
     error_message = None
@@ -47,47 +175,117 @@ def optimize_gif_with_pillow_and_gifsicle(input_bytes: bytes, lossy_value: int,
         with open(input_filename_full, 'wb') as f:
             f.write(input_bytes)
             
-        # 2. Pillow를 사용하여 프레임 수를 반으로 줄임
+        # 2. 편집 목록으로 출력 순서(원본 프레임 인덱스)를 정하고, 그 순서에서 frame_step 프레임마다 1개만 남김
         img = Image.open(input_filename_full)
-        frames = []
-        original_duration = img.info.get('duration', 100) 
-        
+        original_loop = img.info.get('loop', 0)
+        sequence, play_count = apply_edit_list(img.n_frames, options['edits'])
+        needed = {sequence[position] for position in range(0, len(sequence), options['frame_step'])}
+
+        crop_box = clamp_crop(options['crop'], img.width, img.height) if options['crop'] else None
+        source_width, source_height = (crop_box[2] - crop_box[0], crop_box[3] - crop_box[1]) if crop_box else img.size
+        output_size = compute_output_size(source_width, source_height, options['width'], options['height'])
+
+        # 3. 원본을 한 번만 훑으며 프레임별 표시 시간을 읽고, 남길 프레임만 자르기 → 리사이즈 순으로 변환
+        source_durations = []
+        rendered = {}
         for i in range(img.n_frames):
-            if i % 2 == 0: 
-                img.seek(i)
-                frames.append(img.copy())
-        
-        new_duration = original_duration * 2
+            img.seek(i)
+            # 0~1cs 지연은 브라우저와 같이 100ms로 취급
+            frame_duration = img.info.get('duration', DEFAULT_FRAME_DURATION_MS)
+            source_durations.append(frame_duration if frame_duration >= MIN_FRAME_DURATION_MS else DEFAULT_FRAME_DURATION_MS)
+            if i not in needed:
+                continue
+
+            frame = img.convert('RGBA')
+            if crop_box:
+                frame = frame.crop(crop_box)
+            if output_size:
+                frame = frame.resize(output_size, Image.LANCZOS)
+            rendered[i] = frame
+
+        frames = []
+        durations = []
+        for position, index in enumerate(sequence):
+            if position % options['frame_step'] == 0:
+                frames.append(rendered[index])
+                durations.append(source_durations[index])
+            else:
+                # 버린 프레임의 표시 시간은 직전에 남긴 프레임에 합쳐 전체 길이를 유지
+                durations[-1] += source_durations[index]
         
         if not frames:
             raise ValueError("Could not extract valid frames from GIF.")
-        
-        frames[0].save(
-            temp_filename_reduced,
-            save_all=True,
-            append_images=frames[1:] if len(frames) > 1 else [],
-            duration=new_duration,
-            loop=0,
-            optimize=False 
-        )
 
-        # 3. Gifsicle 명령어 구성
-        command = [
-            'gifsicle',
-            '-O3',
-            f'--lossy={lossy_value}', 
-            '--colors', str(colors_value), 
-            temp_filename_reduced, 
-            '-o',
-            output_filename
-        ]
-
-        # 4. Gifsicle 실행
-        subprocess.run(command, check=True, capture_output=True, text=True, timeout=90)
-        
+        durations = [max(MIN_FRAME_DURATION_MS, round(d / options['speed'])) for d in durations]
+
+        # 전체 재생 횟수 (0: 무한). 원본 NETSCAPE 반복 값은 첫 재생 이후 반복 횟수이므로 1을 더함
+        if play_count is None:
+            play_count = 0 if original_loop == 0 else original_loop + 1
+        append_images = frames[1:] if len(frames) > 1 else []
+
+        if output_format == 'webp':
+            # 4. 애니메이션 WebP 저장 (loop는 전체 재생 횟수)
+            frames[0].save(
+                output_filename,
+                format='WEBP',
+                save_all=True,
+                append_images=append_images,
+                duration=durations,
+                loop=play_count,
+                quality=output_options['webp_quality'],
+                lossless=output_options['webp_lossless'],
+                method=4
+            )
+        elif output_format == 'apng':
+            # 4. APNG 저장 (팔레트 색상 수를 지정하면 프레임마다 양자화해 용량을 줄임)
+            if output_options['apng_colors']:
+                frames = [frame.quantize(colors=output_options['apng_colors'], method=Image.Quantize.FASTOCTREE) for frame in frames]
+                append_images = frames[1:]
+            frames[0].save(
+                output_filename,
+                format='PNG',
+                save_all=True,
+                append_images=append_images,
+                duration=durations,
+                loop=play_count,
+                # 프레임마다 전체 화면을 담고 있으므로 다음 프레임 전에 지움
+                disposal=1,
+                default_image=False,
+                optimize=True
+            )
+        else:
+            save_options: Dict[str, Any] = {}
+            if play_count != 1:
+                # NETSCAPE 반복 값은 첫 재생 이후 반복 횟수 (0: 무한). 1회 재생이면 확장 자체를 넣지 않음
+                save_options['loop'] = 0 if play_count == 0 else play_count - 1
+
+            frames[0].save(
+                temp_filename_reduced,
+                save_all=True,
+                append_images=append_images,
+                duration=durations,
+                # 프레임마다 전체 화면을 담고 있으므로 다음 프레임 전에 지움 (투명 영역 잔상 방지)
+                disposal=2,
+                optimize=False,
+                **save_options
+            )
+
+            # 4. Gifsicle 명령어 구성 및 실행
+            command = [
+                'gifsicle',
+                '-O3',
+                f'--lossy={lossy_value}', 
+                '--colors', str(colors_value), 
+                temp_filename_reduced, 
+                '-o',
+                output_filename
+            ]
+            subprocess.run(command, check=True, capture_output=True, text=True, timeout=90)
+
+        # 5. 결과 읽기
         if not os.path.exists(output_filename):
             # stdout/stderr를 자세히 보고 싶다면 result.stdout, result.stderr를 사용
-            raise FileNotFoundError("Gifsicle output file was not created.")
+            raise FileNotFoundError("Output file was not created.")
             
         with open(output_filename, 'rb') as f:
             optimized_bytes = f.read()
@@ -98,7 +296,7 @@ def optimize_gif_with_pillow_and_gifsicle(input_bytes: bytes, lossy_value: int,
     except Exception as e:
         error_message = f"Unexpected error during processing: {str(e)}"
     finally:
-        # 5. 임시 파일 정리
+        # 6. 임시 파일 정리
         for filename in [input_filename_full, temp_filename_reduced, output_filename]:
             if os.path.exists(filename):
                 try:
@@ -108,81 +306,660 @@ def optimize_gif_with_pillow_and_gifsicle(input_bytes: bytes, lossy_value: int,
                     
     return optimized_bytes, error_message
 
+def build_video_filter(video: Dict[str, Any]) -> str:
+    """
+    영상을 GIF로 바꾸는 ffmpeg 필터 그래프를 만듭니다.
+    프레임 속도와 너비를 맞춘 뒤 palettegen으로 만든 팔레트를 paletteuse로 적용합니다.
+    """
+    filters = [f"fps={video['fps']}"]
+    if video['width']:
+        filters.append(f"scale={video['width']}:-1:flags=lanczos")
+    # 프레임마다 팔레트를 만들면 paletteuse도 프레임마다 새 팔레트를 읽어야 함
+    palette_use = 'paletteuse=new=1' if video['palette_mode'] == 'single' else 'paletteuse'
+    return f"{','.join(filters)},split[a][b];[a]palettegen=stats_mode={video['palette_mode']}[p];[b][p]{palette_use}"
+
+def convert_video_to_gif(input_bytes: bytes, extension: str, video: Optional[Dict[str, Any]] = None) -> Tuple[Optional[bytes], Optional[str]]:
+    """
+    FFmpeg로 영상(MP4/WebM)의 지정 구간을 GIF로 변환합니다. 결과는 이후 기존 최적화 과정을 그대로 거칩니다.
+    """
+    if not FFMPEG_AVAILABLE:
+        return None, "FFmpeg command is unavailable. Please check the server environment."
+
+    options = {**DEFAULT_VIDEO, **(video or {})}
+    unique_id = uuid.uuid4().hex
+    input_filename = os.path.join(TEMP_DIR, f'temp_video_{unique_id}.{extension}')
+    output_filename = os.path.join(TEMP_DIR, f'temp_video_out_{unique_id}.gif')
+
+    gif_bytes = None
+    error_message = None
+
+    try:
+        # 1. 원본 영상을 임시 파일에 저장
+        with open(input_filename, 'wb') as f:
+            f.write(input_bytes)
+
+        # 2. 구간 지정: 입력 옵션 -ss로 빠르게 찾고 -t로 길이만큼 읽음
+        command = ['ffmpeg', '-v', 'error', '-y', '-ss', str(options['start'])]
+        if options['end'] is not None:
+            command += ['-t', str(options['end'] - options['start'])]
+        command += ['-i', input_filename, '-vf', build_video_filter(options), '-loop', '0', output_filename]
+
+        # 3. FFmpeg 실행
+        subprocess.run(command, check=True, capture_output=True, text=True, timeout=120)
+
+        if not os.path.exists(output_filename):
+            raise FileNotFoundError("FFmpeg output file was not created.")
+
+        with open(output_filename, 'rb') as f:
+            gif_bytes = f.read()
+
+    except subprocess.CalledProcessError as e:
+        std_error = e.stderr.strip()
+        error_message = f"FFmpeg execution error (Code {e.returncode}): {std_error or 'Unknown FFmpeg error'}"
+    except Exception as e:
+        error_message = f"Unexpected error during video conversion: {str(e)}"
+    finally:
+        # 4. 임시 파일 정리
+        for filename in [input_filename, output_filename]:
+            if os.path.exists(filename):
+                try:
+                    os.remove(filename)
+                except OSError:
+                    pass
+
+    return gif_bytes, error_message
+
+# ----------------- 설정값 파싱 -----------------
+
+def parse_optimization_settings(form, default_lossy: int = 200, default_colors: int = 64, suffix: str = '') -> Tuple[int, int]:
+    """
+    폼에서 lossy/colors 값을 읽어 허용 범위로 보정합니다.
+    suffix가 주어지면 파일별 필드(예: lossy_0)를 읽고, 없으면 기본값을 사용합니다.
+    값이 정수가 아니면 ValueError를 발생시킵니다.
+    """
+    lossy_val = int(form.get(f'lossy{suffix}', default_lossy))
+    colors_val = int(form.get(f'colors{suffix}', default_colors))
+
+    lossy_val = max(MIN_LOSSY, min(MAX_LOSSY, lossy_val))
+    colors_val = max(MIN_COLORS, min(MAX_COLORS, colors_val))
+    return lossy_val, colors_val
+
+def parse_dimension(value: Optional[str]) -> Optional[int]:
+    """
+    출력 크기 값을 읽습니다. 비어 있으면 None, 정수가 아니면 ValueError입니다.
+    """
+    if value is None or value == '':
+        return None
+    return max(1, min(MAX_DIMENSION, int(value)))
+
+def parse_crop(value: Optional[str]) -> Optional[Tuple[int, int, int, int]]:
+    """
+    "x,y,width,height" 형식의 자르기 영역을 읽습니다. 비어 있으면 None, 형식이 틀리면 ValueError입니다.
+    """
+    if value is None or value == '':
+        return None
+    parts = [int(part) for part in value.split(',')]
+    if len(parts) != 4:
+        raise ValueError("Crop must have four values.")
+    x, y, width, height = parts
+    if x < 0 or y < 0 or width < 1 or height < 1:
+        raise ValueError("Crop values are out of range.")
+    return x, y, width, height
+
+def parse_edit_list(value: Optional[str]) -> List[Dict[str, Any]]:
+    """
+    JSON 편집 목록(예: [{"op": "trim", "start": 3, "end": 40}, {"op": "reverse"}])을 읽어 검증합니다.
+    프레임 범위는 파일을 열어 봐야 알 수 있으므로 apply_edit_list에서 보정하고, 여기서는 형식만 확인합니다.
+    형식이 틀리면 ValueError를 발생시킵니다.
+    """
+    if value is None or value == '':
+        return []
+    try:
+        raw_edits = json.loads(value)
+    except json.JSONDecodeError:
+        raise ValueError("Edit list must be JSON.")
+    if not isinstance(raw_edits, list):
+        raise ValueError("Edit list must be an array.")
+
+    edits = []
+    for raw in raw_edits:
+        op = raw.get('op') if isinstance(raw, dict) else None
+        try:
+            if op == 'trim':
+                start, end = int(raw['start']), int(raw['end'])
+                if start < 0 or end < start:
+                    raise ValueError("Trim range is invalid.")
+                edits.append({'op': 'trim', 'start': start, 'end': end})
+            elif op in ('reverse', 'pingpong'):
+                edits.append({'op': op})
+            elif op == 'loop':
+                count = int(raw['count'])
+                if count < 0:
+                    raise ValueError("Loop count must not be negative.")
+                edits.append({'op': 'loop', 'count': count})
+            else:
+                raise ValueError(f"Unknown edit operation: {op}")
+        except (KeyError, TypeError):
+            raise ValueError(f"Edit operation is missing values: {op}")
+    return edits
+
+def parse_transform_settings(form, defaults: Optional[Dict[str, Any]] = None, suffix: str = '') -> Dict[str, Any]:
+    """
+    폼에서 프레임 솎아내기(frame_step), 출력 크기(width/height), 자르기(crop), 속도(speed),
+    타임라인 편집 목록(edits)을 읽어 보정합니다.
+    suffix가 주어지면 파일별 필드(예: crop_0)를 읽고, 없으면 defaults 값을 사용합니다.
+    값의 형식이 틀리면 ValueError를 발생시킵니다.
+    """
+    base = defaults or DEFAULT_TRANSFORM
+    frame_step = int(form.get(f'frame_step{suffix}', base['frame_step']))
+    speed = float(form.get(f'speed{suffix}', base['speed']))
+    if speed != speed or speed <= 0:  # NaN 또는 0 이하
+        raise ValueError("Speed must be a positive number.")
+
+    return {
+        'frame_step': max(1, min(MAX_FRAME_STEP, frame_step)),
+        'width': parse_dimension(form[f'width{suffix}']) if f'width{suffix}' in form else base['width'],
+        'height': parse_dimension(form[f'height{suffix}']) if f'height{suffix}' in form else base['height'],
+        'crop': parse_crop(form[f'crop{suffix}']) if f'crop{suffix}' in form else base['crop'],
+        'speed': max(MIN_SPEED, min(MAX_SPEED, speed)),
+        'edits': parse_edit_list(form[f'edits{suffix}']) if f'edits{suffix}' in form else base['edits'],
+    }
+
+def parse_output_settings(form, defaults: Optional[Dict[str, Any]] = None, suffix: str = '') -> Dict[str, Any]:
+    """
+    폼에서 출력 형식(format)과 형식별 화질 옵션(webp_quality, webp_lossless, apng_colors)을 읽어 보정합니다.
+    suffix가 주어지면 파일별 필드(예: format_0)를 읽고, 없으면 defaults 값을 사용합니다.
+    알 수 없는 형식이거나 값의 형식이 틀리면 ValueError를 발생시킵니다.
+    """
+    base = defaults or DEFAULT_OUTPUT
+    output_format = form.get(f'format{suffix}', base['format'])
+    if output_format not in OUTPUT_FORMATS:
+        raise ValueError(f"Unknown output format: {output_format}")
+    webp_quality = int(form.get(f'webp_quality{suffix}', base['webp_quality']))
+    webp_lossless = form[f'webp_lossless{suffix}'] in ('1', 'true') if f'webp_lossless{suffix}' in form else base['webp_lossless']
+
+    apng_colors = base['apng_colors']
+    if f'apng_colors{suffix}' in form:
+        value = form[f'apng_colors{suffix}']
+        apng_colors = max(MIN_COLORS, min(MAX_COLORS, int(value))) if value != '' else None
+
+    return {
+        'format': output_format,
+        'webp_quality': max(0, min(100, webp_quality)),
+        'webp_lossless': webp_lossless,
+        'apng_colors': apng_colors,
+    }
+
+def parse_video_settings(form, defaults: Optional[Dict[str, Any]] = None, suffix: str = '') -> Dict[str, Any]:
+    """
+    폼에서 영상 변환 설정(video_fps, video_start, video_end, video_width, palette_mode)을 읽어 보정합니다.
+    시간은 초 단위이며 video_end가 비어 있으면 끝까지 변환합니다.
+    suffix가 주어지면 파일별 필드(예: video_start_0)를 읽고, 없으면 defaults 값을 사용합니다.
+    값의 형식이 틀리거나 구간이 비어 있으면 ValueError를 발생시킵니다.
+    """
+    base = defaults or DEFAULT_VIDEO
+    fps = int(form.get(f'video_fps{suffix}', base['fps']))
+    start = float(form.get(f'video_start{suffix}', base['start']))
+    end = base['end']
+    if f'video_end{suffix}' in form:
+        end = float(form[f'video_end{suffix}']) if form[f'video_end{suffix}'] != '' else None
+    if start != start or start < 0:  # NaN 또는 음수
+        raise ValueError("Video start time is invalid.")
+    if end is not None and (end != end or end <= start):
+        raise ValueError("Video end time must be after the start time.")
+
+    palette_mode = form.get(f'palette_mode{suffix}', base['palette_mode'])
+    if palette_mode not in PALETTE_MODES:
+        raise ValueError(f"Unknown palette mode: {palette_mode}")
+
+    return {
+        'fps': max(1, min(MAX_VIDEO_FPS, fps)),
+        'start': start,
+        'end': end,
+        'width': parse_dimension(form[f'video_width{suffix}']) if f'video_width{suffix}' in form else base['width'],
+        'palette_mode': palette_mode,
+    }
+
+def error_code_for(error: Optional[str], output_format: str = 'gif', is_video: bool = False) -> Optional[str]:
+    """
+    최적화 오류 메시지에 대응하는 오류 코드를 반환합니다. (오류가 없으면 None)
+    """
+    if not error:
+        return None
+    if is_video and not FFMPEG_AVAILABLE:
+        return 'ffmpeg_unavailable'
+    if output_format == 'gif' and not GIFSICLE_AVAILABLE:
+        return 'gifsicle_unavailable'
+    return 'processing_failed'
+
+# ----------------- 결과 전송 형식 -----------------
+# Accept 헤더로 바이너리 스트림을 요청하면 Base64 없이 결과를 파일 단위로 흘려보냅니다.
+# 형식: 매직 바이트(GIFR + 버전) 뒤에 파일마다 [헤더 길이(4바이트, big-endian)][JSON 헤더][데이터 길이(4바이트)][GIF 바이트]
+BINARY_RESULTS_MIMETYPE = 'application/x-gif-results'
+BINARY_STREAM_MAGIC = b'GIFR\x01'
+
+def wants_binary_results() -> bool:
+    return request.accept_mimetypes.best == BINARY_RESULTS_MIMETYPE
+
+def encode_result_record(result: Dict[str, Any], data: Optional[bytes]) -> bytes:
+    header = json.dumps(result).encode('utf-8')
+    payload = data or b''
+    return struct.pack('>I', len(header)) + header + struct.pack('>I', len(payload)) + payload
+
+def read_upload(idx: int, file, form) -> Dict[str, Any]:
+    """
+    업로드된 파일을 요청 밖(백그라운드 작업)에서도 쓸 수 있도록 파일명, MIME 타입, 바이트로 읽습니다.
+    """
+    # 클라이언트가 보낸 원본 파일명 우선 사용(없으면 폼 필드 또는 인덱스명 사용)
+    filename = file.filename or form.get('original_filename') or form.get(f'filename_{idx}') or f'file_{idx}.gif'
+    return {'filename': filename, 'mimetype': file.mimetype, 'data': file.read()}
+
+def process_uploaded_file(idx: int, upload: Dict[str, Any], form, lossy_val: int, colors_val: int, transform: Dict[str, Any], output: Dict[str, Any], video: Dict[str, Any], on_stage: Optional[Callable[[str], None]] = None) -> Tuple[Dict[str, Any], Optional[bytes]]:
+    """
+    업로드된 파일 하나를 최적화하고 (결과 메타데이터, 최적화된 바이트)를 반환합니다.
+    영상(MP4/WebM)은 FFmpeg로 먼저 GIF로 변환한 뒤 같은 최적화를 거칩니다.
+    메타데이터에는 optimized_data가 없으며, 전송 형식에 맞춰 호출하는 쪽에서 붙입니다.
+    on_stage는 단계('converting', 'optimizing')가 바뀔 때 호출됩니다.
+    """
+    original_filename = upload['filename']
+    input_bytes = upload['data']
+    original_size = len(input_bytes)
+    mimetype = upload['mimetype']
+
+    # MIME Type 검증
+    video_extension = VIDEO_MIMETYPES.get(mimetype)
+    if mimetype != 'image/gif' and not video_extension:
+        return {
+            'filename': original_filename,
+            'original_filename': original_filename,
+            'original_size': original_size,
+            'error': f'File is not a GIF or supported video file ({mimetype}).',
+            'error_code': 'not_gif',
+        }, None
+
+    # 파일별 설정 파싱 (없으면 요청 기본값 사용)
+    try:
+        file_lossy, file_colors = parse_optimization_settings(form, lossy_val, colors_val, f'_{idx}')
+        file_transform = parse_transform_settings(form, transform, f'_{idx}')
+        file_output = parse_output_settings(form, output, f'_{idx}')
+        file_video = parse_video_settings(form, video, f'_{idx}')
+    except ValueError:
+        return {
+            'filename': original_filename,
+            'original_filename': original_filename,
+            'original_size': original_size,
+            'error': 'Invalid optimization settings value.',
+            'error_code': 'invalid_settings',
+        }, None
+
+    # 영상은 GIF로 변환 (프레임 속도와 구간은 변환 설정으로 정했으므로 솎아내기/타임라인 편집은 빼고,
+    # 자르기/출력 크기/속도 배율은 변환한 GIF 기준으로 이어서 적용)
+    source_bytes, error = input_bytes, None
+    if video_extension:
+        if on_stage:
+            on_stage('converting')
+        source_bytes, error = convert_video_to_gif(input_bytes, video_extension, file_video)
+        file_transform = {**file_transform, 'frame_step': 1, 'edits': []}
+
+    # Optimization 실행 (내부는 기존 함수 사용)
+    optimized_data = None
+    if not error:
+        if on_stage:
+            on_stage('optimizing')
+        optimized_data, error = optimize_gif_with_pillow_and_gifsicle(
+            source_bytes,
+            file_lossy,
+            file_colors,
+            file_transform,
+            file_output
+        )
+    if error:
+        optimized_data = None
+
+    # 결과 수집 (응답에는 원본 파일명 사용)
+    return {
+        'filename': original_filename,
+        'original_filename': original_filename,
+        'original_size': original_size,
+        'optimized_size': len(optimized_data) if optimized_data else None,
+        'lossy': file_lossy,
+        'colors': file_colors,
+        # 결과 Blob의 MIME 타입과 다운로드 확장자를 정할 수 있도록 출력 형식 제공
+        'format': file_output['format'],
+        'mime_type': OUTPUT_FORMATS[file_output['format']]['mime_type'],
+        'error': error,
+        # 클라이언트가 메시지 문자열 대신 오류 종류로 분기할 수 있도록 코드 제공
+        'error_code': error_code_for(error, file_output['format'], bool(video_extension)),
+    }, optimized_data
+
+# ----------------- 비동기 작업 (Job) -----------------
+# 큰 배치가 프록시 제한 시간에 걸리지 않도록 업로드를 받으면 작업 ID만 돌려주고 백그라운드에서 처리합니다.
+# 작업 상태는 프로세스 메모리에 두므로 gunicorn 워커는 1개로 실행해야 합니다. (Dockerfile 참고)
+JOB_DIR = os.path.join(TEMP_DIR, 'jobs')
+JOB_WORKERS = int(os.environ.get('JOB_WORKERS', '2'))
+# 끝난 작업의 결과를 보관하는 시간 (새로고침 후 결과를 다시 받을 수 있는 시간)
+JOB_TTL_SECONDS = int(os.environ.get('JOB_TTL_SECONDS', '3600'))
+JOB_POLL_INTERVAL_MS = 1000
+# 만료된 작업을 정리하는 주기 (새 작업이 없어도 결과 파일이 남지 않도록 백그라운드에서 실행)
+JOB_PRUNE_INTERVAL_SECONDS = 60
+
+JOBS: Dict[str, Dict[str, Any]] = {}
+# 클라이언트가 보낸 Idempotency-Key → 작업 ID (재시도한 요청이 작업을 또 만들지 않도록)
+JOB_IDS_BY_KEY: Dict[str, str] = {}
+JOBS_LOCK = threading.Lock()
+JOB_EXECUTOR = ThreadPoolExecutor(max_workers=JOB_WORKERS)
+
+def job_file_path(job_id: str, idx: int, kind: str) -> str:
+    return os.path.join(JOB_DIR, job_id, f'{idx}.{kind}')
+
+def is_job_finished(job: Dict[str, Any]) -> bool:
+    return all(entry['status'] not in ('queued', 'processing') for entry in job['files'])
+
+def job_snapshot(job: Dict[str, Any]) -> Dict[str, Any]:
+    """
+    작업 상태 응답을 만듭니다. 파일별 결과 메타데이터는 끝난 파일에만 있습니다. (JOBS_LOCK 안에서 호출)
+    """
+    files = [{
+        'index': entry['index'],
+        'filename': entry['filename'],
+        'original_size': entry['original_size'],
+        'status': entry['status'],
+        'stage': entry['stage'],
+        'duration_ms': entry['duration_ms'],
+        'result': entry['result'],
+    } for entry in job['files']]
+    return {
+        'job_id': job['id'],
+        'status': 'done' if is_job_finished(job) else 'running',
+        'created_at': job['created_at'],
+        'total': len(files),
+        'completed': sum(1 for entry in files if entry['status'] in ('done', 'error')),
+        'poll_interval_ms': JOB_POLL_INTERVAL_MS,
+        'files': files,
+    }
+
+def remove_job(job_id: str) -> None:
+    """작업을 목록에서 지우고 결과 파일을 삭제합니다. 진행 중인 파일은 끝난 뒤 결과를 버립니다."""
+    with JOBS_LOCK:
+        job = JOBS.pop(job_id, None)
+        if job and job['idempotency_key']:
+            JOB_IDS_BY_KEY.pop(job['idempotency_key'], None)
+    shutil.rmtree(os.path.join(JOB_DIR, job_id), ignore_errors=True)
+
+def prune_expired_jobs() -> None:
+    now = time.time()
+    with JOBS_LOCK:
+        expired = [job_id for job_id, job in JOBS.items() if is_job_finished(job) and now - job['updated_at'] > JOB_TTL_SECONDS]
+    for job_id in expired:
+        remove_job(job_id)
+
+def prune_jobs_periodically() -> None:
+    while True:
+        time.sleep(JOB_PRUNE_INTERVAL_SECONDS)
+        prune_expired_jobs()
+
+threading.Thread(target=prune_jobs_periodically, name='job-pruner', daemon=True).start()
+
+def find_job_by_key(idempotency_key: Optional[str]) -> Optional[Dict[str, Any]]:
+    """같은 Idempotency-Key로 이미 만든 작업을 찾습니다. (JOBS_LOCK 안에서 호출)"""
+    job_id = JOB_IDS_BY_KEY.get(idempotency_key) if idempotency_key else None
+    return JOBS.get(job_id) if job_id else None
+
+def run_job_file(job_id: str, idx: int) -> None:
+    """
+    작업의 파일 하나를 처리하고 결과를 디스크에 저장합니다. (JOB_EXECUTOR에서 실행)
+    """
+    with JOBS_LOCK:
+        job = JOBS.get(job_id)
+        if not job or job['files'][idx]['status'] != 'queued':
+            return
+        entry = job['files'][idx]
+        entry['status'] = 'processing'
+        started_at = time.time()
+
+    def on_stage(stage: str) -> None:
+        with JOBS_LOCK:
+            entry['stage'] = stage
+
+    optimized_data = None
+    try:
+        with open(job_file_path(job_id, idx, 'in'), 'rb') as f:
+            upload = {'filename': entry['filename'], 'mimetype': entry['mimetype'], 'data': f.read()}
+        result, optimized_data = process_uploaded_file(idx, upload, job['form'], *job['settings'], on_stage=on_stage)
+        if optimized_data:
+            with open(job_file_path(job_id, idx, 'out'), 'wb') as f:
+                f.write(optimized_data)
+    except Exception as e:
+        # 작업이 취소되어 파일이 지워졌거나 예상하지 못한 오류
+        result = {
+            'filename': entry['filename'],
+            'original_filename': entry['filename'],
+            'original_size': entry['original_size'],
+            'error': f'Job processing failed: {e}',
+            'error_code': 'processing_failed',
+        }
+    finally:
+        try:
+            os.remove(job_file_path(job_id, idx, 'in'))
+        except OSError:
+            pass
+
+    with JOBS_LOCK:
+        if job_id not in JOBS:
+            return
+        entry['status'] = 'error' if result.get('error') else 'done'
+        entry['stage'] = None
+        entry['duration_ms'] = int((time.time() - started_at) * 1000)
+        entry['result'] = result
+        job['updated_at'] = time.time()
+
 # ----------------- Flask Routes (멀티 파일 처리용으로 수정) -----------------
 
+def get_capabilities() -> Dict[str, Any]:
+    """
+    서버가 처리할 수 있는 입력/출력 형식과 설정값 범위를 반환합니다.
+    GIF 출력은 gifsicle, 영상 입력은 ffmpeg가 있어야 가능합니다.
+    """
+    output_formats = [name for name in OUTPUT_FORMATS if name != 'gif' or GIFSICLE_AVAILABLE]
+    input_types = ['image/gif'] + (list(VIDEO_MIMETYPES) if FFMPEG_AVAILABLE else [])
+    return {
+        'version': APP_VERSION,
+        'gifsicle': GIFSICLE_AVAILABLE,
+        'ffmpeg': FFMPEG_AVAILABLE,
+        'input_types': input_types,
+        'output_formats': output_formats,
+        'parameters': {
+            'lossy': {'min': MIN_LOSSY, 'max': MAX_LOSSY, 'default': 200},
+            'colors': {'min': MIN_COLORS, 'max': MAX_COLORS, 'default': 64},
+            'frame_step': {'min': 1, 'max': MAX_FRAME_STEP, 'default': DEFAULT_TRANSFORM['frame_step']},
+            'width': {'min': 1, 'max': MAX_DIMENSION, 'default': None},
+            'height': {'min': 1, 'max': MAX_DIMENSION, 'default': None},
+            'speed': {'min': MIN_SPEED, 'max': MAX_SPEED, 'default': DEFAULT_TRANSFORM['speed']},
+            'webp_quality': {'min': 0, 'max': 100, 'default': DEFAULT_OUTPUT['webp_quality']},
+            'apng_colors': {'min': MIN_COLORS, 'max': MAX_COLORS, 'default': DEFAULT_OUTPUT['apng_colors']},
+            'video_fps': {'min': 1, 'max': MAX_VIDEO_FPS, 'default': DEFAULT_VIDEO['fps']},
+            'video_width': {'min': 1, 'max': MAX_DIMENSION, 'default': DEFAULT_VIDEO['width']},
+        },
+        'max_upload_bytes': MAX_UPLOAD_BYTES,
+        'max_files': MAX_FILES_PER_REQUEST,
+        # /api/jobs 비동기 작업 API 지원 여부와 결과 보관 시간
+        'jobs': True,
+        'job_ttl_seconds': JOB_TTL_SECONDS,
+    }
+
+@app.route('/api/capabilities', methods=['GET'])
+def capabilities_endpoint():
+    """
+    클라이언트가 업로드 전에 서버 상태와 허용 범위를 확인할 수 있도록 기능 정보를 반환합니다.
+    """
+    return jsonify(get_capabilities()), 200
+
+@app.errorhandler(413)
+def request_too_large(_error):
+    return jsonify({'error': f'Upload exceeds the maximum size of {MAX_UPLOAD_BYTES} bytes.'}), 413
+
 @app.route('/api/optimize-gif', methods=['POST'])
 def optimize_gif_endpoint():
     """
-    멀티 파일과 최적화 설정을 받아, 각 파일의 결과를 담은 JSON 배열을 반환합니다.
+    멀티 파일과 최적화 설정을 받아 각 파일의 결과를 반환합니다.
+    기본은 JSON 배열(Base64)이고, Accept 헤더에 따라 바이너리 스트림으로 응답합니다.
     """
     # ⭐ 수정: 클라이언트가 'file' 키로 보낸 모든 파일을 리스트로 가져옵니다.
     uploaded_files = request.files.getlist('file') 
     if not uploaded_files:
         # 클라이언트가 'file' 키를 사용했음을 가정
         return jsonify({'error': 'No files found under the expected "file" key.'}), 400
+    if len(uploaded_files) > MAX_FILES_PER_REQUEST:
+        return jsonify({'error': f'Too many files. Send at most {MAX_FILES_PER_REQUEST} files per request.'}), 400
 
-    # 1. 설정값 파싱 및 검증
+    # 1. 설정값 파싱 및 검증 (요청 전체 기본값, 파일별 값은 lossy_{idx}/crop_{idx} 등으로 덮어씀)
     try:
-        lossy_val = int(request.form.get('lossy', 200)) 
-        colors_val = int(request.form.get('colors', 64)) 
-        
-        lossy_val = max(0, min(300, lossy_val))
-        colors_val = max(2, min(256, colors_val))
-
+        lossy_val, colors_val = parse_optimization_settings(request.form)
+        transform = parse_transform_settings(request.form)
+        output = parse_output_settings(request.form)
+        video = parse_video_settings(request.form)
     except ValueError:
         return jsonify({'error': 'Invalid optimization settings value.'}), 400
-    
-    results: List[Dict[str, Any]] = []
 
-    # 2. 각 파일에 대한 최적화 실행
-    for idx, file in enumerate(uploaded_files):
-        # 클라이언트가 보낸 원본 파일명 우선 사용(없으면 폼 필드 또는 인덱스명 사용)
-        original_filename = file.filename or request.form.get('original_filename') or request.form.get(f'filename_{idx}') or f'file_{idx}.gif'
-        safe_filename = secure_filename(original_filename)
-
-        # 파일 데이터 읽기
-        input_bytes = file.read()
-        original_size = len(input_bytes)
-
-        # MIME Type 검증
-        if file.mimetype != 'image/gif':
-            results.append({
-                'filename': original_filename,
-                'original_filename': original_filename,
-                'original_size': original_size,
-                'error': f'File is not a GIF file ({file.mimetype}).',
-                'optimized_data': None,
-            })
-            continue
-
-        # Optimization 실행 (내부는 기존 함수 사용)
-        optimized_data, error = optimize_gif_with_pillow_and_gifsicle(
-            input_bytes,
-            lossy_val,
-            colors_val
-        )
-
-        optimized_data_b64 = None
-        optimized_size = None
+    # 2-a. 바이너리 스트림: 파일 하나가 끝날 때마다 결과를 바로 내보냄
+    if wants_binary_results():
+        def generate():
+            yield BINARY_STREAM_MAGIC
+            for idx, file in enumerate(uploaded_files):
+                upload = read_upload(idx, file, request.form)
+                result, optimized_data = process_uploaded_file(idx, upload, request.form, lossy_val, colors_val, transform, output, video)
+                yield encode_result_record(result, optimized_data)
 
-        if optimized_data and not error:
-            # Base64 인코딩: 바이너리 데이터를 문자열로 변환하여 JSON에 포함
-            optimized_data_b64 = base64.b64encode(optimized_data).decode('utf-8')
-            optimized_size = len(optimized_data)
+        return Response(stream_with_context(generate()), mimetype=BINARY_RESULTS_MIMETYPE)
 
-        # 결과 수집 (응답에는 원본 파일명 사용)
-        results.append({
-            'filename': original_filename,
-            'original_filename': original_filename,
-            'original_size': original_size,
-            'optimized_data': optimized_data_b64,
-            'optimized_size': optimized_size,
-            'error': error,
-        })
+    # 2-b. JSON: 모든 파일을 처리한 뒤 Base64로 인코딩해 한 번에 반환
+    results: List[Dict[str, Any]] = []
+    for idx, file in enumerate(uploaded_files):
+        upload = read_upload(idx, file, request.form)
+        result, optimized_data = process_uploaded_file(idx, upload, request.form, lossy_val, colors_val, transform, output, video)
+        # Base64 인코딩: 바이너리 데이터를 문자열로 변환하여 JSON에 포함
+        result['optimized_data'] = base64.b64encode(optimized_data).decode('utf-8') if optimized_data else None
+        results.append(result)
     
     # 3. 모든 결과를 담은 JSON 배열 반환
     return jsonify({'results': results}), 200
 
+@app.route('/api/jobs', methods=['POST'])
+def create_job_endpoint():
+    """
+    /api/optimize-gif와 같은 폼을 받아 작업을 만들고 바로 202와 작업 상태를 반환합니다.
+    파일은 백그라운드에서 처리되며 /api/jobs/<작업 ID>로 진행 상황을 확인합니다.
+    Idempotency-Key 헤더가 이미 만든 작업의 키와 같으면 새로 만들지 않고 그 작업의 상태를 반환합니다.
+    """
+    idempotency_key = request.headers.get('Idempotency-Key') or None
+    with JOBS_LOCK:
+        existing = find_job_by_key(idempotency_key)
+        if existing:
+            return jsonify(job_snapshot(existing)), 202
+
+    uploaded_files = request.files.getlist('file')
+    if not uploaded_files:
+        return jsonify({'error': 'No files found under the expected "file" key.'}), 400
+    if len(uploaded_files) > MAX_FILES_PER_REQUEST:
+        return jsonify({'error': f'Too many files. Send at most {MAX_FILES_PER_REQUEST} files per request.'}), 400
+
+    try:
+        settings = (
+            *parse_optimization_settings(request.form),
+            parse_transform_settings(request.form),
+            parse_output_settings(request.form),
+            parse_video_settings(request.form),
+        )
+    except ValueError:
+        return jsonify({'error': 'Invalid optimization settings value.'}), 400
+
+    job_id = uuid.uuid4().hex
+    os.makedirs(os.path.join(JOB_DIR, job_id), exist_ok=True)
+
+    # 요청이 끝나면 업로드 파일을 읽을 수 없으므로 입력을 디스크에 저장해 둠
+    entries: List[Dict[str, Any]] = []
+    for idx, file in enumerate(uploaded_files):
+        upload = read_upload(idx, file, request.form)
+        with open(job_file_path(job_id, idx, 'in'), 'wb') as f:
+            f.write(upload['data'])
+        entries.append({
+            'index': idx,
+            'filename': upload['filename'],
+            'mimetype': upload['mimetype'],
+            'original_size': len(upload['data']),
+            'status': 'queued',
+            'stage': None,
+            'duration_ms': None,
+            'result': None,
+        })
+
+    now = time.time()
+    job = {
+        'id': job_id,
+        'created_at': now,
+        'updated_at': now,
+        'form': request.form.to_dict(),
+        'settings': settings,
+        'files': entries,
+        'idempotency_key': idempotency_key,
+    }
+    with JOBS_LOCK:
+        # 업로드를 받는 동안 같은 키의 재시도가 먼저 작업을 만들었으면 이번 입력은 버림
+        existing = find_job_by_key(idempotency_key)
+        if not existing:
+            JOBS[job_id] = job
+            if idempotency_key:
+                JOB_IDS_BY_KEY[idempotency_key] = job_id
+        snapshot = job_snapshot(existing or job)
+    if existing:
+        shutil.rmtree(os.path.join(JOB_DIR, job_id), ignore_errors=True)
+        return jsonify(snapshot), 202
+    for idx in range(len(entries)):
+        JOB_EXECUTOR.submit(run_job_file, job_id, idx)
+
+    return jsonify(snapshot), 202
+
+@app.route('/api/jobs/<job_id>', methods=['GET'])
+def job_status_endpoint(job_id: str):
+    """
+    작업 전체와 파일별 진행 상태(queued/processing/done/error)를 반환합니다.
+    """
+    with JOBS_LOCK:
+        job = JOBS.get(job_id)
+        if not job:
+            return jsonify({'error': 'Job not found or expired.'}), 404
+        return jsonify(job_snapshot(job)), 200
+
+@app.route('/api/jobs/<job_id>/files/<int:idx>', methods=['GET'])
+def job_result_endpoint(job_id: str, idx: int):
+    """
+    끝난 파일의 결과 바이트를 반환합니다. 아직 처리 중이면 409, 실패했으면 404입니다.
+    """
+    with JOBS_LOCK:
+        job = JOBS.get(job_id)
+        if not job or not 0 <= idx < len(job['files']):
+            return jsonify({'error': 'Job or file not found.'}), 404
+        entry = job['files'][idx]
+        if entry['status'] in ('queued', 'processing'):
+            return jsonify({'error': 'File is still being processed.'}), 409
+        result = entry['result'] or {}
+    path = job_file_path(job_id, idx, 'out')
+    if result.get('error') or not os.path.exists(path):
+        return jsonify({'error': result.get('error') or 'Result not available.'}), 404
+    # send_file은 상대 경로를 앱 폴더 기준으로 해석하므로 절대 경로로 전달
+    return send_file(os.path.abspath(path), mimetype=result.get('mime_type', 'image/gif'))
+
+@app.route('/api/jobs/<job_id>', methods=['DELETE'])
+def cancel_job_endpoint(job_id: str):
+    """
+    작업을 취소하고 결과를 삭제합니다. 아직 시작하지 않은 파일은 처리하지 않습니다.
+    """
+    with JOBS_LOCK:
+        if job_id not in JOBS:
+            return jsonify({'error': 'Job not found or expired.'}), 404
+    remove_job(job_id)
+    return '', 204
+
 # ----------------- Server Run -----------------
 if __name__ == "__main__":
     port = int(os.environ.get("PORT", 5000))
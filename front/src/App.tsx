@@ -1,7 +1,6 @@
 import React from 'react';
-// GifOptimizer 컴포넌트를 임포트합니다.
-// 이 파일은 같은 src 폴더 내에 있다고 가정합니다.
-import GifOptimizer from './GifOptimizer';
+// 임베드용 위젯을 그대로 사용해 단독 페이지와 다른 도구에 넣은 화면이 같게 동작합니다.
+import GifOptimizerWidget from './embed/GifOptimizerWidget';
 
 /**
  * 메인 애플리케이션 컴포넌트입니다.
@@ -9,12 +8,11 @@ import GifOptimizer from './GifOptimizer';
  */
 const App: React.FC = () => {
   return (
-    // Tailwind CSS나 다른 글로벌 스타일링이 없다면,
-    // 간단한 div 컨테이너를 사용합니다.
+    // 위젯 스타일은 Shadow DOM 안에만 적용되므로 페이지 배경/여백은 index.css에서 정합니다.
     <div className="App">
-      <GifOptimizer />
+      <GifOptimizerWidget className="gif-optimizer-host" pasteScope="document" />
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,235 @@
+import React, {
+    useState,
+    useEffect,
+    useRef,
+    useCallback
+} from 'react';
+import { findFrameAtTime } from './lib/gifDecoder';
+import type { DecodedGif } from './lib/gifDecoder';
+import { decodeGifInWorker } from './lib/workerClient';
+import { describeError, useI18n } from './lib/i18n';
+
+interface ComparisonViewerProps {
+    title: string;
+    originalUrl: string;
+    optimizedUrl: string;
+    // 결과에 적용한 재생 속도 배율 (결과 타임라인 = 원본 타임라인 / speed)
+    speed?: number;
+    onClose: () => void;
+}
+
+type ViewMode = 'split' | 'sideBySide';
+
+const ZOOM_LEVELS = [1, 2, 4, 8];
+
+const drawFrame = (canvas: HTMLCanvasElement | null, gif: DecodedGif | null, time: number) => {
+    if (!canvas || !gif) return;
+    const frame = gif.frames[findFrameAtTime(gif, time)];
+    if (canvas.width !== gif.width) canvas.width = gif.width;
+    if (canvas.height !== gif.height) canvas.height = gif.height;
+    canvas.getContext('2d')?.putImageData(new ImageData(frame.pixels, gif.width, gif.height), 0, 0);
+};
+
+/**
+ * 원본과 최적화 결과를 프레임 단위로 디코딩해 같은 시각의 프레임을 나란히(또는 겹쳐서) 보여주는 뷰어입니다.
+ * 타임라인은 원본 길이를 기준으로 하며, 결과 프레임은 인덱스가 아닌 시각으로 대응시킵니다.
+ */
+const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ title, originalUrl, optimizedUrl, speed = 1, onClose }) => {
+    const { t } = useI18n();
+    const [original, setOriginal] = useState<DecodedGif | null>(null);
+    const [optimized, setOptimized] = useState<DecodedGif | null>(null);
+    // 디코딩 실패 원인 (표시할 때 현재 언어로 변환)
+    const [error, setError] = useState<unknown>(null);
+    const [time, setTime] = useState<number>(0);
+    const [isPlaying, setIsPlaying] = useState<boolean>(false);
+    const [zoom, setZoom] = useState<number>(1);
+    const [viewMode, setViewMode] = useState<ViewMode>('split');
+    const [splitPercent, setSplitPercent] = useState<number>(50);
+    const originalCanvasRef = useRef<HTMLCanvasElement>(null);
+    const optimizedCanvasRef = useRef<HTMLCanvasElement>(null);
+
+    // 두 GIF를 워커에서 디코딩 (닫으면 진행 중인 디코딩 취소)
+    useEffect(() => {
+        const controller = new AbortController();
+        Promise.all([decodeGifInWorker(originalUrl, controller.signal), decodeGifInWorker(optimizedUrl, controller.signal)])
+            .then(([decodedOriginal, decodedOptimized]) => {
+                setOriginal(decodedOriginal);
+                setOptimized(decodedOptimized);
+            })
+            .catch(err => {
+                if (!controller.signal.aborted) setError(err);
+            });
+        return () => controller.abort();
+    }, [originalUrl, optimizedUrl]);
+
+    // 현재 시각의 프레임 그리기
+    useEffect(() => {
+        drawFrame(originalCanvasRef.current, original, time);
+        drawFrame(optimizedCanvasRef.current, optimized, time / speed);
+    }, [original, optimized, time, speed, viewMode]);
+
+    // 동기 재생: 하나의 시계로 두 GIF를 함께 진행
+    useEffect(() => {
+        if (!isPlaying || !original) return;
+        let last = performance.now();
+        let frameRequest = 0;
+        const tick = (now: number) => {
+            const elapsed = now - last;
+            last = now;
+            setTime(prev => (prev + elapsed) % original.duration);
+            frameRequest = requestAnimationFrame(tick);
+        };
+        frameRequest = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frameRequest);
+    }, [isPlaying, original]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    // 원본 프레임 경계 단위로 이동
+    const handleStep = useCallback((direction: 1 | -1) => {
+        if (!original) return;
+        setIsPlaying(false);
+        const count = original.frames.length;
+        const index = findFrameAtTime(original, time);
+        setTime(original.frames[(index + direction + count) % count].start);
+    }, [original, time]);
+
+    const originalIndex = original ? findFrameAtTime(original, time) : 0;
+    const optimizedIndex = optimized ? findFrameAtTime(optimized, time / speed) : 0;
+    const displayWidth = original ? original.width * zoom : 0;
+    const displayHeight = original ? original.height * zoom : 0;
+    const canvasStyle = { width: `${displayWidth}px`, height: `${displayHeight}px` };
+
+    return (
+        <div className="comparison-backdrop" onClick={onClose}>
+            <div
+                className="comparison-modal"
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('compare.label', { title })}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="comparison-header">
+                    <h3>🔍 {title}</h3>
+                    <button onClick={onClose} className="comparison-close-button" aria-label={t('common.close')}>✕</button>
+                </div>
+
+                {error !== null ? (
+                    <p className="error-text">⚠️ {t('compare.decodeError', { error: describeError(error, t) })}</p>
+                ) : !original || !optimized ? (
+                    <div className="comparison-loading">
+                        <div className="spinner"></div>
+                        <p>{t('compare.decoding')}</p>
+                    </div>
+                ) : (
+                    <>
+                        <div className="comparison-toolbar">
+                            <div className="comparison-toolbar-group">
+                                <button onClick={() => handleStep(-1)} title={t('compare.previous')}>⏮️</button>
+                                <button onClick={() => setIsPlaying(prev => !prev)} title={isPlaying ? t('compare.pause') : t('compare.play')}>
+                                    {isPlaying ? '⏸️' : '▶️'}
+                                </button>
+                                <button onClick={() => handleStep(1)} title={t('compare.next')}>⏭️</button>
+                            </div>
+                            <div className="comparison-toolbar-group">
+                                {ZOOM_LEVELS.map(level => (
+                                    <button
+                                        key={level}
+                                        className={zoom === level ? 'active' : ''}
+                                        onClick={() => setZoom(level)}
+                                    >
+                                        {level}x
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="comparison-toolbar-group">
+                                <button
+                                    className={viewMode === 'split' ? 'active' : ''}
+                                    onClick={() => setViewMode('split')}
+                                >
+                                    {t('compare.split')}
+                                </button>
+                                <button
+                                    className={viewMode === 'sideBySide' ? 'active' : ''}
+                                    onClick={() => setViewMode('sideBySide')}
+                                >
+                                    {t('compare.sideBySide')}
+                                </button>
+                            </div>
+                        </div>
+
+                        <input
+                            type="range"
+                            min="0"
+                            max={Math.max(0, original.duration - 1)}
+                            value={Math.floor(time)}
+                            onChange={e => {
+                                setIsPlaying(false);
+                                setTime(parseInt(e.target.value) || 0);
+                            }}
+                            className="range-input comparison-scrubber"
+                            aria-label={t('compare.timeline')}
+                        />
+                        <p className="comparison-info">
+                            {t('compare.position', {
+                                time: Math.floor(time),
+                                duration: original.duration,
+                                original: originalIndex + 1,
+                                originalCount: original.frames.length,
+                                optimized: optimizedIndex + 1,
+                                optimizedCount: optimized.frames.length,
+                            })}
+                        </p>
+
+                        <div className="comparison-stage">
+                            {viewMode === 'split' ? (
+                                <div className="comparison-split" style={canvasStyle}>
+                                    <canvas ref={originalCanvasRef} className="comparison-canvas" style={canvasStyle} />
+                                    <canvas
+                                        ref={optimizedCanvasRef}
+                                        className="comparison-canvas comparison-canvas-overlay"
+                                        style={{ ...canvasStyle, clipPath: `inset(0 0 0 ${splitPercent}%)` }}
+                                    />
+                                    <div className="comparison-split-line" style={{ left: `${splitPercent}%` }} />
+                                </div>
+                            ) : (
+                                <div className="comparison-side-by-side">
+                                    <figure>
+                                        <canvas ref={originalCanvasRef} className="comparison-canvas" style={canvasStyle} />
+                                        <figcaption>{t('common.original')}</figcaption>
+                                    </figure>
+                                    <figure>
+                                        <canvas ref={optimizedCanvasRef} className="comparison-canvas" style={canvasStyle} />
+                                        <figcaption>{t('common.result')}</figcaption>
+                                    </figure>
+                                </div>
+                            )}
+                        </div>
+
+                        {viewMode === 'split' && (
+                            <label className="comparison-split-control">
+                                {t('compare.splitPosition')}
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="100"
+                                    value={splitPercent}
+                                    onChange={e => setSplitPercent(parseInt(e.target.value) || 0)}
+                                    className="range-input"
+                                />
+                            </label>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ComparisonViewer;
@@ -0,0 +1,86 @@
+import React from 'react';
+import type { ServerStatus } from './lib/capabilities';
+import { OUTPUT_FORMATS } from './lib/outputFormats';
+import { describeError, useI18n } from './lib/i18n';
+import type { I18n, MessageKey } from './lib/i18n';
+
+interface ConnectionStatusProps {
+    status: ServerStatus;
+    onRetry: () => void;
+}
+
+type Indicator = 'checking' | 'online' | 'degraded' | 'offline';
+
+const INDICATOR_LABELS: Record<Indicator, MessageKey> = {
+    checking: 'connection.checking',
+    online: 'connection.online',
+    degraded: 'connection.degraded',
+    offline: 'connection.offline',
+};
+
+// gifsicle이나 ffmpeg가 없으면 일부 형식만 처리할 수 있으므로 '제한'으로 표시
+const getIndicator = (status: ServerStatus): Indicator => {
+    switch (status.state) {
+        case 'checking':
+            return 'checking';
+        case 'offline':
+            return 'offline';
+        case 'legacy':
+            return 'online';
+        case 'online':
+            return status.capabilities.gifsicle && status.capabilities.ffmpeg ? 'online' : 'degraded';
+    }
+};
+
+const describeStatus = (status: ServerStatus, { t, formatBytes }: I18n): string[] => {
+    switch (status.state) {
+        case 'checking':
+            return [];
+        case 'offline':
+            return [describeError(status.error, t)];
+        case 'legacy':
+            return [t('connection.legacy')];
+        case 'online': {
+            const { capabilities } = status;
+            return [
+                t('connection.version', { version: capabilities.version }),
+                t('connection.formats', {
+                    formats: capabilities.outputFormats.map(f => OUTPUT_FORMATS[f].label).join(', ') || t('common.none'),
+                }),
+                capabilities.gifsicle ? '' : t('connection.noGifsicle'),
+                capabilities.ffmpeg ? '' : t('connection.noFfmpeg'),
+                t('connection.limits', { size: formatBytes(capabilities.maxUploadBytes), count: capabilities.maxFiles }),
+            ].filter(Boolean);
+        }
+    }
+};
+
+/**
+ * 백엔드 연결 상태와 서버 버전, 지원 형식, 업로드 제한을 보여줍니다.
+ * 연결에 실패했거나 기능이 제한되면 다시 확인할 수 있습니다.
+ */
+const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ status, onRetry }) => {
+    const i18n = useI18n();
+    const indicator = getIndicator(status);
+    const details = describeStatus(status, i18n);
+
+    return (
+        <div className={`connection-status ${indicator}`} role="status" title={details.join('\n')}>
+            <span className="connection-dot" aria-hidden="true" />
+            <span>{i18n.t(INDICATOR_LABELS[indicator])}</span>
+            {status.state === 'online' && <span className="connection-version">v{status.capabilities.version}</span>}
+            {(indicator === 'offline' || indicator === 'degraded') && (
+                <button onClick={onRetry} className="reset-settings-button">
+                    {i18n.t('connection.retry')}
+                </button>
+            )}
+            {indicator !== 'online' && details.length > 0 && (
+                <ul className="connection-details">
+                    {details.map(line => <li key={line}>{line}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ConnectionStatus;
@@ -0,0 +1,112 @@
+import React, { useState, useRef, useCallback } from 'react';
+import type { PointerEvent } from 'react';
+import type { CropRect } from './types';
+
+interface CropSelectorProps {
+    src: string;
+    alt: string;
+    // 원본 GIF의 논리 화면 크기 (자르기 좌표의 기준)
+    imageWidth: number;
+    imageHeight: number;
+    crop: CropRect | null;
+    // false면 현재 영역만 표시
+    isEditing: boolean;
+    onChange: (crop: CropRect) => void;
+}
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+// 실수로 클릭한 것과 구분하기 위한 최소 영역 크기 (원본 픽셀)
+const MIN_CROP_SIZE = 4;
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+const rectFromPoints = (a: Point, b: Point): CropRect => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+});
+
+/**
+ * 미리보기 이미지 위에서 드래그해 자르기 영역을 고릅니다.
+ * 화면 좌표를 원본 픽셀 좌표로 바꿔 전달하므로 미리보기 크기와 관계없이 서버에 그대로 보낼 수 있습니다.
+ */
+const CropSelector: React.FC<CropSelectorProps> = ({ src, alt, imageWidth, imageHeight, crop, isEditing, onChange }) => {
+    // 드래그 중인 영역 (놓기 전까지는 onChange를 호출하지 않음)
+    const [draft, setDraft] = useState<CropRect | null>(null);
+    const startRef = useRef<Point | null>(null);
+    const imageRef = useRef<HTMLImageElement>(null);
+
+    // 포인터 위치를 원본 픽셀 좌표로 변환 (이미지 밖은 가장자리로 제한)
+    const toImagePoint = useCallback((event: PointerEvent<HTMLDivElement>): Point | null => {
+        const bounds = imageRef.current?.getBoundingClientRect();
+        if (!bounds || bounds.width === 0 || bounds.height === 0) return null;
+        return {
+            x: clamp(Math.round(((event.clientX - bounds.left) / bounds.width) * imageWidth), 0, imageWidth),
+            y: clamp(Math.round(((event.clientY - bounds.top) / bounds.height) * imageHeight), 0, imageHeight),
+        };
+    }, [imageWidth, imageHeight]);
+
+    const handlePointerDown = useCallback((event: PointerEvent<HTMLDivElement>) => {
+        if (!isEditing || event.button !== 0) return;
+        const point = toImagePoint(event);
+        if (!point) return;
+        event.preventDefault();
+        event.currentTarget.setPointerCapture(event.pointerId);
+        startRef.current = point;
+        setDraft(rectFromPoints(point, point));
+    }, [isEditing, toImagePoint]);
+
+    const handlePointerMove = useCallback((event: PointerEvent<HTMLDivElement>) => {
+        const start = startRef.current;
+        const point = toImagePoint(event);
+        if (!start || !point) return;
+        setDraft(rectFromPoints(start, point));
+    }, [toImagePoint]);
+
+    const handlePointerUp = useCallback((event: PointerEvent<HTMLDivElement>) => {
+        const start = startRef.current;
+        const point = toImagePoint(event);
+        startRef.current = null;
+        setDraft(null);
+        if (!start || !point) return;
+        const rect = rectFromPoints(start, point);
+        if (rect.width >= MIN_CROP_SIZE && rect.height >= MIN_CROP_SIZE) onChange(rect);
+    }, [toImagePoint, onChange]);
+
+    const handlePointerCancel = useCallback(() => {
+        startRef.current = null;
+        setDraft(null);
+    }, []);
+
+    const visible = draft ?? crop;
+
+    return (
+        <div
+            className={`crop-selector ${isEditing ? 'editing' : ''}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerCancel}
+        >
+            <img ref={imageRef} src={src} alt={alt} className="gif-image" draggable={false} />
+            {visible && (
+                <div
+                    className="crop-rect"
+                    style={{
+                        left: `${(visible.x / imageWidth) * 100}%`,
+                        top: `${(visible.y / imageHeight) * 100}%`,
+                        width: `${(visible.width / imageWidth) * 100}%`,
+                        height: `${(visible.height / imageHeight) * 100}%`,
+                    }}
+                />
+            )}
+        </div>
+    );
+};
+
+export default CropSelector;
@@ -0,0 +1,147 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { GifFileState } from './types';
+
+interface FileListGridProps {
+    files: GifFileState[];
+    renderCard: (fileState: GifFileState) => React.ReactNode;
+}
+
+// 카드 최소 너비와 간격 (FileListGrid.css의 .file-list-row와 같은 값)
+const MIN_CARD_WIDTH = 450;
+const CARD_GAP = 25;
+// 측정 전 행 높이 추정값, 화면 위아래로 미리 그려 둘 여유, 스크롤 위치를 반영하는 단위
+const ESTIMATED_ROW_HEIGHT = 720;
+const OVERSCAN_PX = 900;
+const SCROLL_STEP_PX = 200;
+
+const getRowKey = (row: GifFileState[]): string => row.map(f => f.id).join('-');
+
+/**
+ * 파일 카드를 행 단위로 가상화해 화면 근처의 행만 그립니다.
+ * 행 높이는 그린 뒤 측정해 기억하고, 아직 측정하지 않은 행은 측정한 행의 평균으로 추정합니다.
+ * 창 화면 기준으로 보이는 범위를 계산하고, 다른 페이지에 넣었을 때 호스트의 스크롤 영역이 움직여도 갱신합니다.
+ */
+const FileListGrid: React.FC<FileListGridProps> = ({ files, renderCard }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const rowObserverRef = useRef<ResizeObserver | null>(null);
+    const [containerWidth, setContainerWidth] = useState<number>(0);
+    // 그리드 위쪽 기준의 화면 범위 (스크롤마다 다시 그리지 않도록 SCROLL_STEP_PX 단위로 맞춤)
+    const [viewport, setViewport] = useState<{ top: number; bottom: number }>({ top: 0, bottom: window.innerHeight });
+    const [rowHeights, setRowHeights] = useState<Map<string, number>>(() => new Map());
+
+    const updateViewport = useCallback(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const top = Math.floor(-container.getBoundingClientRect().top / SCROLL_STEP_PX) * SCROLL_STEP_PX;
+        const bottom = top + Math.ceil(window.innerHeight / SCROLL_STEP_PX + 1) * SCROLL_STEP_PX;
+        setViewport(prev => (prev.top === top && prev.bottom === bottom ? prev : { top, bottom }));
+        setContainerWidth(container.clientWidth);
+    }, []);
+
+    useLayoutEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        updateViewport();
+        let frame = 0;
+        const schedule = () => {
+            if (frame) return;
+            frame = requestAnimationFrame(() => {
+                frame = 0;
+                updateViewport();
+            });
+        };
+        // scroll은 버블링되지 않으므로 캡처 단계에서 조상 요소의 스크롤까지 받음
+        window.addEventListener('scroll', schedule, { passive: true, capture: true });
+        window.addEventListener('resize', schedule);
+        const observer = new ResizeObserver(schedule);
+        observer.observe(container);
+        return () => {
+            cancelAnimationFrame(frame);
+            window.removeEventListener('scroll', schedule, { capture: true });
+            window.removeEventListener('resize', schedule);
+            observer.disconnect();
+        };
+    }, [updateViewport]);
+
+    useEffect(() => () => {
+        rowObserverRef.current?.disconnect();
+        rowObserverRef.current = null;
+    }, []);
+
+    const handleRowResize = useCallback((entries: ResizeObserverEntry[]) => {
+        setRowHeights(prev => {
+            let next = prev;
+            entries.forEach(entry => {
+                const key = (entry.target as HTMLElement).dataset.rowKey;
+                const height = entry.borderBoxSize[0]?.blockSize ?? entry.target.getBoundingClientRect().height;
+                if (!key || Math.abs((prev.get(key) ?? -1) - height) < 1) return;
+                if (next === prev) next = new Map(prev);
+                next.set(key, height);
+            });
+            return next;
+        });
+    }, []);
+
+    // 행이 처음 그려질 때 관찰을 시작하고 사라지면 해제 (관찰자는 첫 행에서 만듦)
+    const observeRow = useCallback((element: HTMLDivElement | null) => {
+        if (!element) return;
+        rowObserverRef.current ??= new ResizeObserver(handleRowResize);
+        const observer = rowObserverRef.current;
+        observer.observe(element);
+        return () => observer.unobserve(element);
+    }, [handleRowResize]);
+
+    // 좁은 화면에서는 카드 최소 너비를 채울 수 없으므로 자연스럽게 1열
+    const columns = Math.max(1, Math.floor((containerWidth + CARD_GAP) / (MIN_CARD_WIDTH + CARD_GAP)));
+
+    const rows = useMemo(() => {
+        const result: GifFileState[][] = [];
+        for (let i = 0; i < files.length; i += columns) result.push(files.slice(i, i + columns));
+        return result;
+    }, [files, columns]);
+
+    const layout = useMemo(() => {
+        const measured = Array.from(rowHeights.values());
+        const estimate = measured.length > 0
+            ? measured.reduce((acc, height) => acc + height, 0) / measured.length
+            : ESTIMATED_ROW_HEIGHT;
+        const tops: number[] = [];
+        let offset = 0;
+        rows.forEach(row => {
+            tops.push(offset);
+            offset += rowHeights.get(getRowKey(row)) ?? estimate;
+        });
+        return { tops, totalHeight: offset };
+    }, [rows, rowHeights]);
+
+    const { tops, totalHeight } = layout;
+    const rangeTop = viewport.top - OVERSCAN_PX;
+    const rangeBottom = viewport.bottom + OVERSCAN_PX;
+    let start = 0;
+    while (start < rows.length - 1 && (tops[start + 1] ?? totalHeight) <= rangeTop) start++;
+    let end = start;
+    while (end < rows.length && tops[end] < rangeBottom) end++;
+    const paddingTop = tops[start] ?? 0;
+    const paddingBottom = end < rows.length ? totalHeight - tops[end] : 0;
+
+    return (
+        <div className="file-list-grid" ref={containerRef} style={{ paddingTop, paddingBottom }}>
+            {rows.slice(start, end).map(row => {
+                const key = getRowKey(row);
+                return (
+                    <div
+                        key={key}
+                        ref={observeRow}
+                        data-row-key={key}
+                        className="file-list-row"
+                        style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+                    >
+                        {row.map(renderCard)}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default FileListGrid;
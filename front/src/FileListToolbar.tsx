@@ -0,0 +1,138 @@
+import React from 'react';
+import { FILE_SORT_KEYS, FILE_STATUS_FILTERS, isSortKey, isStatusFilter } from './lib/fileList';
+import type { FileSortKey, FileStatusFilter, SortDirection } from './lib/fileList';
+import { useI18n } from './lib/i18n';
+import type { MessageKey } from './lib/i18n';
+
+interface FileListToolbarProps {
+    sortKey: FileSortKey;
+    sortDirection: SortDirection;
+    statusFilter: FileStatusFilter;
+    statusCounts: Record<FileStatusFilter, number>;
+    // 현재 필터로 보이는 파일 (모두 선택 대상)
+    visibleIds: number[];
+    selectedIds: Set<number>;
+    onSortKeyChange: (sortKey: FileSortKey) => void;
+    onSortDirectionChange: (direction: SortDirection) => void;
+    onStatusFilterChange: (filter: FileStatusFilter) => void;
+    onSelectionChange: (selectedIds: Set<number>) => void;
+    onOptimizeSelected: () => void;
+    onRemoveSelected: () => void;
+    disabled?: boolean;
+}
+
+const SORT_LABEL_KEYS: Record<FileSortKey, MessageKey> = {
+    added: 'list.sortAdded',
+    name: 'list.sortName',
+    size: 'list.sortSize',
+    reduction: 'list.sortReduction',
+};
+
+const FILTER_LABEL_KEYS: Record<FileStatusFilter, MessageKey> = {
+    all: 'list.filterAll',
+    pending: 'list.statusPending',
+    optimized: 'list.statusOptimized',
+    error: 'list.statusError',
+};
+
+/**
+ * 파일 목록 위에서 정렬 기준, 상태 필터, 여러 파일 선택과 선택한 파일의 일괄 작업을 제공합니다.
+ */
+const FileListToolbar: React.FC<FileListToolbarProps> = ({
+    sortKey,
+    sortDirection,
+    statusFilter,
+    statusCounts,
+    visibleIds,
+    selectedIds,
+    onSortKeyChange,
+    onSortDirectionChange,
+    onStatusFilterChange,
+    onSelectionChange,
+    onOptimizeSelected,
+    onRemoveSelected,
+    disabled = false,
+}) => {
+    const { t } = useI18n();
+    const selectedVisibleCount = visibleIds.filter(id => selectedIds.has(id)).length;
+    const allVisibleSelected = visibleIds.length > 0 && selectedVisibleCount === visibleIds.length;
+
+    // 보이는 파일만 선택/해제하고 필터로 가려진 파일의 선택은 유지
+    const handleToggleVisible = () => {
+        const next = new Set(selectedIds);
+        visibleIds.forEach(id => (allVisibleSelected ? next.delete(id) : next.add(id)));
+        onSelectionChange(next);
+    };
+
+    return (
+        <div className="file-list-toolbar">
+            <div className="file-list-toolbar-group">
+                <label>
+                    {t('list.sort')}
+                    <select
+                        value={sortKey}
+                        onChange={e => isSortKey(e.target.value) && onSortKeyChange(e.target.value)}
+                        className="file-format-select"
+                    >
+                        {FILE_SORT_KEYS.map(key => (
+                            <option key={key} value={key}>{t(SORT_LABEL_KEYS[key])}</option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    onClick={() => onSortDirectionChange(sortDirection === 'asc' ? 'desc' : 'asc')}
+                    className="reset-settings-button"
+                    title={t(sortDirection === 'asc' ? 'list.sortAscending' : 'list.sortDescending')}
+                    aria-label={t(sortDirection === 'asc' ? 'list.sortAscending' : 'list.sortDescending')}
+                >
+                    {sortDirection === 'asc' ? '↑' : '↓'}
+                </button>
+                <label>
+                    {t('list.filter')}
+                    <select
+                        value={statusFilter}
+                        onChange={e => isStatusFilter(e.target.value) && onStatusFilterChange(e.target.value)}
+                        className="file-format-select"
+                    >
+                        {FILE_STATUS_FILTERS.map(filter => (
+                            <option key={filter} value={filter}>
+                                {t(FILTER_LABEL_KEYS[filter], { count: statusCounts[filter] })}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            <div className="file-list-toolbar-group">
+                <label className="manifest-toggle">
+                    <input
+                        type="checkbox"
+                        checked={allVisibleSelected}
+                        ref={input => {
+                            if (input) input.indeterminate = selectedVisibleCount > 0 && !allVisibleSelected;
+                        }}
+                        onChange={handleToggleVisible}
+                        disabled={visibleIds.length === 0}
+                    />
+                    {t('list.selectVisible')}
+                </label>
+                {selectedIds.size > 0 && (
+                    <>
+                        <span className="file-list-selected-count">{t('list.selected', { count: selectedIds.size })}</span>
+                        <button onClick={onOptimizeSelected} disabled={disabled} className="reset-settings-button">
+                            {t('list.optimizeSelected')}
+                        </button>
+                        <button onClick={onRemoveSelected} className="reset-settings-button">
+                            {t('list.removeSelected')}
+                        </button>
+                        <button onClick={() => onSelectionChange(new Set())} className="reset-settings-button">
+                            {t('list.clearSelection')}
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default FileListToolbar;
@@ -0,0 +1,134 @@
+import React from 'react';
+import type { OptimizationSettings, OutputFormat } from './types';
+import { OUTPUT_FORMATS, OUTPUT_FORMAT_IDS } from './lib/outputFormats';
+import { DEFAULT_PARAMETER_RANGES } from './lib/capabilities';
+import type { ParameterName, ParameterRange } from './lib/capabilities';
+import { useI18n } from './lib/i18n';
+import type { MessageKey } from './lib/i18n';
+
+interface FormatControlsProps {
+    settings: OptimizationSettings;
+    onChange: (patch: Partial<OptimizationSettings>) => void;
+    // false면 형식만 고름 (목표 용량 모드는 화질 옵션을 자동 탐색)
+    showQualityOptions?: boolean;
+    // 서버가 지원하는 형식과 설정값 범위 (생략 시 전부 허용, 기본 범위)
+    availableFormats?: OutputFormat[];
+    ranges?: Record<ParameterName, ParameterRange>;
+    disabled?: boolean;
+}
+
+const FORMAT_HINTS: Record<OptimizationSettings['format'], MessageKey> = {
+    gif: 'format.hint.gif',
+    webp: 'format.hint.webp',
+    apng: 'format.hint.apng',
+};
+
+const clampInt = (value: string, min: number, max: number): number => (
+    Math.max(min, Math.min(max, parseInt(value) || min))
+);
+
+/**
+ * 출력 형식(GIF, 애니메이션 WebP, APNG)과 WebP/APNG 전용 화질 옵션입니다.
+ * GIF의 lossy/colors는 기존 설정 영역에서 조절합니다.
+ */
+const FormatControls: React.FC<FormatControlsProps> = ({
+    settings,
+    onChange,
+    showQualityOptions = true,
+    availableFormats = OUTPUT_FORMAT_IDS,
+    ranges = DEFAULT_PARAMETER_RANGES,
+    disabled = false,
+}) => {
+    const { t } = useI18n();
+    const { webpQuality, apngColors } = ranges;
+    return (
+        <div className="format-controls">
+            <div className="format-toggle" role="radiogroup" aria-label={t('format.label')}>
+                {OUTPUT_FORMAT_IDS.map(format => (
+                    <button
+                        key={format}
+                        role="radio"
+                        aria-checked={settings.format === format}
+                        className={`format-toggle-button ${settings.format === format ? 'active' : ''}`}
+                        onClick={() => onChange({ format })}
+                        disabled={disabled || !availableFormats.includes(format)}
+                        title={availableFormats.includes(format) ? undefined : t('format.unavailable')}
+                    >
+                        {OUTPUT_FORMATS[format].label}
+                    </button>
+                ))}
+            </div>
+            <p className="control-hint">
+                {availableFormats.includes(settings.format)
+                    ? t(FORMAT_HINTS[settings.format])
+                    : t('format.unavailableHint', { format: OUTPUT_FORMATS[settings.format].label })}
+            </p>
+
+            {showQualityOptions && settings.format === 'webp' && (
+                <div className="format-options">
+                    <label htmlFor="webp-quality">
+                        {t(settings.webpLossless ? 'format.webpEffort' : 'format.webpQuality', {
+                            min: webpQuality.min,
+                            max: webpQuality.max,
+                            value: settings.webpQuality,
+                        })}
+                    </label>
+                    <input
+                        id="webp-quality"
+                        type="range"
+                        min={webpQuality.min}
+                        max={webpQuality.max}
+                        step="5"
+                        value={settings.webpQuality}
+                        onChange={e => onChange({ webpQuality: clampInt(e.target.value, webpQuality.min, webpQuality.max) })}
+                        disabled={disabled}
+                        className="range-input"
+                    />
+                    <label className="format-checkbox">
+                        <input
+                            type="checkbox"
+                            checked={settings.webpLossless}
+                            onChange={e => onChange({ webpLossless: e.target.checked })}
+                            disabled={disabled}
+                        />
+                        {t('format.lossless')}
+                    </label>
+                </div>
+            )}
+
+            {showQualityOptions && settings.format === 'apng' && (
+                <div className="format-options">
+                    <label className="format-checkbox">
+                        <input
+                            type="checkbox"
+                            checked={settings.apngColors !== null}
+                            onChange={e => onChange({ apngColors: e.target.checked ? apngColors.max : null })}
+                            disabled={disabled}
+                        />
+                        {t('format.limitPalette')}
+                    </label>
+                    {settings.apngColors !== null && (
+                        <>
+                            <label htmlFor="apng-colors">
+                                {t('settings.colors', { min: apngColors.min, max: apngColors.max, value: settings.apngColors })}
+                            </label>
+                            <input
+                                id="apng-colors"
+                                type="range"
+                                min={apngColors.min}
+                                max={apngColors.max}
+                                step="2"
+                                value={settings.apngColors}
+                                onChange={e => onChange({ apngColors: clampInt(e.target.value, apngColors.min, apngColors.max) })}
+                                disabled={disabled}
+                                className="range-input"
+                            />
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FormatControls;
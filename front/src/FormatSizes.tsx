@@ -0,0 +1,64 @@
+import React from 'react';
+import type { ResultVariant } from './types';
+import { OUTPUT_FORMATS, OUTPUT_FORMAT_IDS } from './lib/outputFormats';
+import { useI18n } from './lib/i18n';
+
+interface FormatSizesProps {
+    variants: ResultVariant[];
+    // 다운로드에 사용할 변형 id
+    chosenVariantId: number | null;
+    // 변형을 카드에 표시하고 다운로드용으로 고정
+    onSelect: (variantId: number) => void;
+    // 현재 설정으로 세 형식을 모두 변환
+    onConvertAll: () => void;
+    isConverting: boolean;
+    disabled?: boolean;
+}
+
+/**
+ * 출력 형식별로 가장 최근 변형의 크기를 나란히 보여주고, 고른 형식의 변형을 다운로드용으로 고정합니다.
+ */
+const FormatSizes: React.FC<FormatSizesProps> = ({
+    variants,
+    chosenVariantId,
+    onSelect,
+    onConvertAll,
+    isConverting,
+    disabled = false,
+}) => {
+    const { t, formatBytes } = useI18n();
+    const latestByFormat = OUTPUT_FORMAT_IDS.map(format => ({
+        format,
+        variant: variants.filter(v => v.format === format).at(-1) ?? null,
+    }));
+    const sizes = latestByFormat.flatMap(({ variant }) => (variant ? [variant.size] : []));
+    const smallestSize = sizes.length > 1 ? Math.min(...sizes) : null;
+
+    return (
+        <div className="format-sizes">
+            <span className="format-sizes-title">{t('formatSizes.title')}</span>
+            {latestByFormat.map(({ format, variant }) => (
+                <button
+                    key={format}
+                    onClick={() => variant && onSelect(variant.id)}
+                    disabled={disabled || !variant}
+                    className={`format-size ${variant && variant.id === chosenVariantId ? 'chosen' : ''}`}
+                    title={variant ? t('formatSizes.choose', { format: OUTPUT_FORMATS[format].label }) : t('formatSizes.notConverted')}
+                >
+                    <strong>{OUTPUT_FORMATS[format].label}</strong>{' '}
+                    {variant ? formatBytes(variant.size) : '-'}
+                    {variant && variant.size === smallestSize && ' 🏆'}
+                </button>
+            ))}
+            <button
+                onClick={onConvertAll}
+                disabled={disabled || isConverting}
+                className="reset-settings-button"
+            >
+                {isConverting ? t('formatSizes.converting') : t('formatSizes.convertAll')}
+            </button>
+        </div>
+    );
+};
+
+export default FormatSizes;
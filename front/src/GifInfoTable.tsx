@@ -0,0 +1,95 @@
+import React from 'react';
+import type { GifInfo } from './lib/gifParser';
+import { getFrameRate } from './lib/settings';
+import { useI18n } from './lib/i18n';
+import type { I18n, MessageKey, Translate } from './lib/i18n';
+
+interface GifInfoTableProps {
+    original: GifInfo | null;
+    // 카드에 표시 중인 결과 (없으면 원본만 표시)
+    optimized: GifInfo | null;
+}
+
+const DISPOSAL_LABELS: MessageKey[] = ['info.disposal.none', 'info.disposal.keep', 'info.disposal.background', 'info.disposal.previous'];
+
+const formatLoop = (loopCount: number | null, t: Translate): string => {
+    if (loopCount === null) return t('info.playOnce');
+    return loopCount === 0 ? t('info.loopForever') : t('info.loopCount', { count: loopCount });
+};
+
+const formatDelays = (info: GifInfo): string => {
+    const delays = info.frames.map(f => f.delay);
+    const min = Math.min(...delays);
+    const max = Math.max(...delays);
+    return min === max ? `${min}ms` : `${min}~${max}ms`;
+};
+
+const formatLocalPalettes = (info: GifInfo, t: Translate): string => {
+    const withLocal = info.frames.filter(f => f.localPaletteSize !== null);
+    if (withLocal.length === 0) return t('common.none');
+    const maxSize = Math.max(...withLocal.map(f => f.localPaletteSize!));
+    return t('info.localPaletteFrames', { count: withLocal.length, colors: maxSize });
+};
+
+// disposal 방식별 프레임 수 (예: "유지×10, 배경×2")
+const formatDisposals = (info: GifInfo, t: Translate): string => {
+    const counts = new Map<number, number>();
+    info.frames.forEach(f => counts.set(f.disposal, (counts.get(f.disposal) ?? 0) + 1));
+    return [...counts.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([disposal, count]) => `${disposal < DISPOSAL_LABELS.length ? t(DISPOSAL_LABELS[disposal]) : disposal}×${count}`)
+        .join(', ');
+};
+
+const ROWS: { label: MessageKey; format: (info: GifInfo, i18n: I18n) => string }[] = [
+    { label: 'info.screenSize', format: info => `${info.width}×${info.height}` },
+    { label: 'info.frameCount', format: (info, { formatNumber }) => formatNumber(info.frames.length) },
+    { label: 'info.duration', format: (info, { formatSeconds }) => formatSeconds(info.duration) },
+    { label: 'info.frameRate', format: (info, { formatFrameRate }) => formatFrameRate(getFrameRate(info.frames.length, info.duration)) },
+    { label: 'info.frameDelay', format: formatDelays },
+    { label: 'info.loop', format: (info, { t }) => formatLoop(info.loopCount, t) },
+    {
+        label: 'info.globalPalette',
+        format: (info, { t }) => (info.globalPaletteSize !== null ? t('info.paletteColors', { count: info.globalPaletteSize }) : t('common.none')),
+    },
+    { label: 'info.localPalette', format: (info, { t }) => formatLocalPalettes(info, t) },
+    { label: 'info.disposal', format: (info, { t }) => formatDisposals(info, t) },
+];
+
+/**
+ * 원본과 결과 GIF의 컨테이너 정보를 나란히 보여줍니다. 값이 달라진 행은 강조합니다.
+ */
+const GifInfoTable: React.FC<GifInfoTableProps> = ({ original, optimized }) => {
+    const i18n = useI18n();
+    if (!original && !optimized) return null;
+
+    return (
+        <details className="gif-info">
+            <summary>{i18n.t('info.title')}</summary>
+            <table>
+                <thead>
+                    <tr>
+                        <th></th>
+                        <th>{i18n.t('common.original')}</th>
+                        {optimized && <th>{i18n.t('common.result')}</th>}
+                    </tr>
+                </thead>
+                <tbody>
+                    {ROWS.map(({ label, format }) => {
+                        const originalValue = original ? format(original, i18n) : '-';
+                        const optimizedValue = optimized ? format(optimized, i18n) : null;
+                        return (
+                            <tr key={label} className={optimizedValue !== null && optimizedValue !== originalValue ? 'changed' : ''}>
+                                <th scope="row">{i18n.t(label)}</th>
+                                <td>{originalValue}</td>
+                                {optimizedValue !== null && <td>{optimizedValue}</td>}
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </details>
+    );
+};
+
+export default GifInfoTable;
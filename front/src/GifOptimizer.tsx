@@ -2,176 +2,618 @@ import React, {
     useState, 
     useCallback, 
     useMemo,
-    useEffect
+    useEffect,
+    useImperativeHandle,
+    useRef
 } from 'react';
 import type { 
     ChangeEvent, 
-    MouseEvent,
+    ClipboardEvent as ReactClipboardEvent,
     DragEvent,
 } from 'react';
-import './GifOptimizer.css';
+import ComparisonViewer from './ComparisonViewer';
+import SweepPanel from './SweepPanel';
+import VariantPicker from './VariantPicker';
+import PresetManager from './PresetManager';
+import GifInfoTable from './GifInfoTable';
+import TransformControls from './TransformControls';
+import CropSelector from './CropSelector';
+import TimelineEditor from './TimelineEditor';
+import FormatControls from './FormatControls';
+import FormatSizes from './FormatSizes';
+import VideoControls from './VideoControls';
+import VideoClipRange from './VideoClipRange';
+import ConnectionStatus from './ConnectionStatus';
+import FileListGrid from './FileListGrid';
+import FileListToolbar from './FileListToolbar';
+import SizeDistributionChart from './SizeDistributionChart';
+import type { SweepPoint } from './SweepPanel';
+import type {
+    OptimizationSettings,
+    OptimizationMode,
+    OutputFormat,
+    GifFileState,
+    ResultVariant,
+    VideoConversionSettings,
+    ActiveJob,
+    JobFileStatus,
+    FileProgress,
+    ManifestEntry,
+    FileEdits,
+} from './types';
+import { triggerDownload, downloadBlob } from './lib/download';
+import { searchTargetSize } from './lib/targetSize';
+import { BUILT_IN_PRESETS, loadUserPresets, settingsFromQuery } from './lib/presets';
+import { DEFAULT_SETTINGS, NO_FILE_EDITS, applyFileEdits, getFrameRate, getOutputSize, getOutputTiming, sanitizeSettings, withoutFileEdits } from './lib/settings';
+import { OUTPUT_FORMATS, OUTPUT_FORMAT_IDS, buildOutputName, buildOutputPath, describeQuality } from './lib/outputFormats';
+import { createAbortError, isAbortError } from './lib/http';
+import { createApiClient } from './lib/apiClient';
+import { GifsicleUnavailableError, HttpError } from './lib/apiErrors';
+import { getAvailableFormats, getParameterRanges, getUploadBlockReason, probeServer } from './lib/capabilities';
+import type { ServerStatus } from './lib/capabilities';
+import { chunkByLimits, runJobQueue } from './lib/jobQueue';
+import { createZip, makeUniqueName } from './lib/zip';
+import type { ZipEntry } from './lib/zip';
+import { MAX_PSNR } from './lib/qualityMetrics';
+import { readGifInfo } from './lib/gifParser';
+import { VIDEO_ACCEPT, getVideoMimeType, isVideoFile, readVideoInfo } from './lib/video';
+import { measureQualityInWorker } from './lib/workerClient';
+import { collectDroppedFiles, getPastedFiles, hashFileContent, toSourceFiles } from './lib/fileSources';
+import type { SourceFile } from './lib/fileSources';
+import { arrangeFiles, countByStatus } from './lib/fileList';
+import { buildReport, reportToCsv, reportToJson, summarizeRows, toReportRow } from './lib/report';
+import type { FileSortKey, FileStatusFilter, SortDirection } from './lib/fileList';
+import {
+    createVariant,
+    appendVariant,
+    updateVariant,
+    removeVariant,
+    getChosenVariant,
+    getViewedVariant,
+    revokeFileUrls,
+} from './lib/variants';
+import type { QualityMetrics } from './lib/qualityMetrics';
+import {
+    loadSession,
+    saveStoredFiles,
+    deleteStoredFiles,
+    clearStoredFiles,
+    clearSession,
+    savePreferences,
+    saveActiveJobs,
+    getStorageUsage,
+    toStoredFile,
+    fromStoredFile,
+    getPersistKey,
+} from './lib/sessionStore';
+import type { StorageUsage } from './lib/sessionStore';
+import { I18nContext, LOCALES, LOCALE_IDS, createI18n, describeError, detectLocale, isLocale, saveLocale } from './lib/i18n';
+import type { I18n, Locale, MessageKey } from './lib/i18n';
+import type { GifOptimizerProps, OptimizedFileDetail, OptimizerErrorDetail } from './embed/types';
 
-// ------------------- 타입 정의 -------------------
-interface OptimizationSettings {
-    lossy: number;
-    colors: number;
-}
+// ------------------- 유틸 함수 -------------------
+const formatProgress = (progress: FileProgress | null, { t, formatPercent }: I18n): string => {
+    if (!progress) return t('progress.default');
+    const retry = progress.attempt > 1 ? t('progress.attempt', { attempt: progress.attempt }) : '';
+    switch (progress.phase) {
+        case 'queued':
+            return t('progress.queued');
+        case 'uploading':
+            return t('progress.uploading', { percent: formatPercent(progress.uploaded * 100, 0), retry });
+        case 'converting':
+            return t('progress.converting');
+        case 'processing':
+            return t('progress.processing', { retry });
+        case 'retrying':
+            return t('progress.retrying', { retry });
+    }
+};
 
-interface GifFileState {
-    id: number;
-    file: File;
-    originalUrl: string;
-    originalSize: number;
+// 이름 목록을 최대 3개까지 보여주고 나머지는 개수로 표시
+const summarizeNames = (names: string[], t: I18n['t']): string => (
+    names.slice(0, 3).join(', ') + (names.length > 3 ? t('common.andMore', { count: names.length - 3 }) : '')
+);
 
-    optimizedUrl: string;
-    optimizedSize: number;
-    reductionRate: number;
+// 메시지에서 `로 감싼 부분을 코드 서식으로 표시
+const renderCodeMarkup = (text: string): React.ReactNode[] => (
+    text.split('`').map((part, index) => (index % 2 === 1 ? <code key={index}>{part}</code> : part))
+);
 
-    isProcessing: boolean;
-    error: string;
-}
+const GUIDANCE_KEYS: MessageKey[] = ['guidance.lossy', 'guidance.colors', 'guidance.transform', 'guidance.experiment', 'guidance.webp'];
 
-interface OptimizationResult {
-    filename: string;
-    original_size: number;
-    optimized_data: string | null;
-    optimized_size: number | null;
-    error: string | null;
-}
+const formatPsnr = (psnr: number): string => (psnr >= MAX_PSNR ? '∞' : psnr.toFixed(1));
 
-interface ServerResponse {
-    results: OptimizationResult[];
-}
+const isBelowQuality = (quality: QualityMetrics, threshold: number): boolean => quality.worstSsim < threshold;
 
-// ------------------- 유틸 함수 -------------------
-const formatBytes = (bytes: number, decimals: number = 2): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const dm = decimals < 0 ? 0 : decimals;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
+// 파일별 개별 설정이 있으면 우선, 없으면 일괄 기본 설정을 사용하고 파일별 편집을 덮어씀
+const getEffectiveSettings = (fileState: GifFileState, defaults: OptimizationSettings): OptimizationSettings => (
+    applyFileEdits(fileState.settingsOverride ?? defaults, fileState.edits)
+);
+
+// 화질 개별 설정을 바꿀 때의 기준 (파일별 편집은 edits에 따로 있으므로 뺌)
+const getQualitySettings = (fileState: GifFileState, defaults: OptimizationSettings): OptimizationSettings => (
+    withoutFileEdits(fileState.settingsOverride ?? defaults)
+);
+
+// 환경변수로 백엔드 URL 관리 (Vite: VITE_API_URL, 임베드에서는 apiBaseUrl로 지정)
+const DEFAULT_API_BASE: string = import.meta.env.VITE_API_URL || 'http://127.0.0.1:5000';
+
+const MB = 1024 * 1024;
+const DEFAULT_QUALITY_THRESHOLD = 0.9;
+
+// 세션 자동 저장 여부 (기본값: 켜짐)
+const PERSIST_SESSION_KEY = 'gif-optimizer-persist-session';
+const isSessionPersistenceEnabled = (): boolean => localStorage.getItem(PERSIST_SESSION_KEY) !== 'off';
+
+// 저장된 테마가 없으면 시스템 설정을 따름
+const getInitialDarkMode = (): boolean => {
+    const savedTheme = localStorage.getItem('theme');
+    const prefersDark = window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches;
+    return savedTheme === 'dark' || (savedTheme === null && prefersDark);
 };
 
-const b64toBlob = (b64Data: string, contentType: string = 'image/gif'): Blob => {
-    const byteCharacters = atob(b64Data);
-    const byteNumbers = new Array(byteCharacters.length);
-    for (let i = 0; i < byteCharacters.length; i++) {
-        byteNumbers[i] = byteCharacters.charCodeAt(i);
-    }
-    const byteArray = new Uint8Array(byteNumbers);
-    return new Blob([byteArray], { type: contentType });
+// 호스트가 준 기본 설정이 있으면 우선, 없으면 페이지 URL의 프리셋/설정 (둘 다 없으면 null)
+const getExplicitSettings = (defaultSettings: Partial<OptimizationSettings> | undefined): OptimizationSettings | null => (
+    defaultSettings
+        ? sanitizeSettings({ ...DEFAULT_SETTINGS, ...defaultSettings })
+        : settingsFromQuery(window.location.search, [...loadUserPresets(), ...BUILT_IN_PRESETS])
+);
+
+interface AnnouncedState {
+    fileIds: Set<number>;
+    variantIds: Set<number>;
+    // 파일별 마지막으로 본 오류 (같은 오류가 이어지면 한 번만 알림)
+    errors: Map<number, string>;
+}
+
+const markAnnounced = (announced: AnnouncedState, fileState: GifFileState) => {
+    announced.fileIds.add(fileState.id);
+    fileState.variants.forEach(variant => announced.variantIds.add(variant.id));
+    announced.errors.set(fileState.id, fileState.error);
 };
 
-// 환경변수로 백엔드 URL 관리 (Vite: VITE_API_URL)
-const API_BASE = (import.meta as any).env?.VITE_API_URL || 'http://127.0.0.1:5000';
+const toOptimizedDetail = (fileState: GifFileState, variant: ResultVariant): OptimizedFileDetail => ({
+    fileId: fileState.id,
+    relativePath: fileState.relativePath,
+    blob: variant.blob,
+    format: variant.format,
+    originalSize: fileState.originalSize,
+    optimizedSize: variant.size,
+    reductionRate: variant.reductionRate,
+    settings: variant.settings,
+    durationMs: variant.durationMs,
+});
+
+// 붙여넣기 대상이 입력란이면 텍스트 붙여넣기로 두고 파일을 꺼내지 않음
+const isTextInputTarget = (target: EventTarget | null): boolean => (
+    target instanceof Element && target.closest('input, textarea, [contenteditable="true"]') !== null
+);
+
+// ------------------- API 호출 -------------------
+// 큐에서 동시에 처리할 파일 수 (재시도/시간 제한은 API 클라이언트가 담당)
+const DEFAULT_CONCURRENCY = 3;
+
+// 작업 요청 1회의 크기는 서버 제한보다 조금 작게 잡음 (폼 필드와 multipart 경계 여유)
+const JOB_UPLOAD_BUDGET_RATIO = 0.9;
+
+// 파일별 AbortController를 일괄 취소 신호에 연결해 미리 만들어 둠 (대기 중인 파일도 개별 취소 가능)
+const linkFileControllers = (batchSignal: AbortSignal, ids: number[], controllers: Map<number, AbortController>) => {
+    ids.forEach(id => {
+        const controller = new AbortController();
+        batchSignal.addEventListener('abort', () => controller.abort(), { once: true });
+        controllers.set(id, controller);
+    });
+};
 
 // ------------------- 메인 컴포넌트 -------------------
-const GifOptimizer: React.FC = () => {
+const GifOptimizer: React.FC<GifOptimizerProps> = ({
+    apiBaseUrl = DEFAULT_API_BASE,
+    defaultSettings,
+    limits,
+    theme,
+    locale: hostLocale,
+    persistSession: allowSessionPersistence = true,
+    pasteScope = 'self',
+    onFileAdded,
+    onOptimized,
+    onError,
+    onBatchComplete,
+    ref,
+}) => {
+    const { maxFiles: maxFileCount, maxFileBytes, formats: allowedFormats, allowVideo = true } = limits ?? {};
+    const apiClient = useMemo(() => createApiClient({ baseUrl: apiBaseUrl }), [apiBaseUrl]);
     const [files, setFiles] = useState<GifFileState[]>([]);
-    const [settings, setSettings] = useState<OptimizationSettings>({
-        lossy: 200,
-        colors: 64,
-    });
+    // 호스트가 준 설정이나 페이지 URL의 프리셋/설정이 있으면 그 값으로 시작
+    const [explicitSettings] = useState<OptimizationSettings | null>(() => getExplicitSettings(defaultSettings));
+    const [settings, setSettings] = useState<OptimizationSettings>(explicitSettings ?? DEFAULT_SETTINGS);
     const [isOptimizing, setIsOptimizing] = useState<boolean>(false);
     const [globalError, setGlobalError] = useState<string>('');
-    const [isDarkMode, setIsDarkMode] = useState<boolean>(false);
+    // 테마와 언어는 호스트가 지정하지 않았을 때만 화면에서 바꾸고 브라우저에 기억
+    const [isDarkModeSelected, setIsDarkModeSelected] = useState<boolean>(getInitialDarkMode);
+    const isDarkMode = theme ? theme === 'dark' : isDarkModeSelected;
+    // 저장된 선택이 없으면 브라우저 언어로 시작
+    const [selectedLocale, setSelectedLocale] = useState<Locale>(detectLocale);
+    const locale = hostLocale ?? selectedLocale;
+    const i18n = useMemo(() => createI18n(locale), [locale]);
+    const { t, formatBytes, formatPercent, formatFrameRate, formatSeconds } = i18n;
     const [isDragActive, setIsDragActive] = useState<boolean>(false);
     const [toastMessage, setToastMessage] = useState<string>('');
+    const [mode, setMode] = useState<OptimizationMode>('manual');
+    const [targetBytes, setTargetBytes] = useState<number>(2 * MB);
+    // 프레임 비교 뷰어로 열려 있는 파일 (null이면 닫힘)
+    const [comparisonFileId, setComparisonFileId] = useState<number | null>(null);
+    // 화질 경고 기준: 최저 프레임 SSIM이 이 값보다 낮으면 경고
+    const [qualityThreshold, setQualityThreshold] = useState<number>(DEFAULT_QUALITY_THRESHOLD);
+    const measuredVariantIdsRef = useRef<Set<number>>(new Set());
+    const measureQueueRef = useRef<Promise<void>>(Promise.resolve());
+    const analyzedGifKeysRef = useRef<Set<string>>(new Set());
+    // 언마운트 시 워커에서 진행 중인 화질 측정을 취소
+    const measureControllerRef = useRef<AbortController>(new AbortController());
+    // 원본 미리보기에서 자르기 영역을 고르는 중인 파일 (null이면 없음)
+    const [croppingFileId, setCroppingFileId] = useState<number | null>(null);
+    // 타임라인 편집기가 열려 있는 파일 (null이면 닫힘)
+    const [timelineFileId, setTimelineFileId] = useState<number | null>(null);
+    // 세 출력 형식으로 모두 변환하는 중인 파일
+    const [convertingFormatIds, setConvertingFormatIds] = useState<Set<number>>(() => new Set());
+    // 설정 스윕 패널로 열려 있는 파일 (null이면 닫힘)
+    const [sweepFileId, setSweepFileId] = useState<number | null>(null);
+    // ZIP 생성 진행률 (null이면 생성 중 아님)
+    const [zipProgress, setZipProgress] = useState<number | null>(null);
+    const [includeManifest, setIncludeManifest] = useState<boolean>(true);
+    const [showDistribution, setShowDistribution] = useState<boolean>(false);
+    const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
+    // 파일 목록 정렬/상태 필터와 일괄 작업용 선택
+    const [sortKey, setSortKey] = useState<FileSortKey>('added');
+    const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+    const [statusFilter, setStatusFilter] = useState<FileStatusFilter>('all');
+    const [selectedIds, setSelectedIds] = useState<Set<number>>(() => new Set());
+    // 작업 세션을 IndexedDB에 저장해 새로고침 후 복원 (호스트가 끄면 복원도 저장도 하지 않음)
+    const [persistSession, setPersistSession] = useState<boolean>(() => allowSessionPersistence && isSessionPersistenceEnabled());
+    const persistSessionOnMountRef = useRef<boolean>(persistSession);
+    const [isSessionRestored, setIsSessionRestored] = useState<boolean>(false);
+    const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+    // 백엔드 기능 정보 (슬라이더 범위, 지원 형식, 업로드 제한)
+    const [serverStatus, setServerStatus] = useState<ServerStatus>({ state: 'checking' });
+    const [probeCount, setProbeCount] = useState<number>(0);
+    // 서버에서 처리 중인 비동기 작업 (세션에 저장해 새로고침 후 다시 연결)
+    const [activeJobs, setActiveJobs] = useState<ActiveJob[]>([]);
+    const [restoredJobs, setRestoredJobs] = useState<ActiveJob[]>([]);
+    const resumedJobIdsRef = useRef<Set<string>>(new Set());
+    // 파일별로 마지막으로 저장한 내용의 키 (바뀐 파일만 다시 저장)
+    const persistedKeysRef = useRef<Map<number, string>>(new Map());
+    // 진행 중인 일괄 작업과 파일별 요청 취소용 컨트롤러
+    const batchControllerRef = useRef<AbortController | null>(null);
+    const fileControllersRef = useRef<Map<number, AbortController>>(new Map());
+    // 언마운트 시 object URL 정리를 위해 최신 files를 보관
+    const filesRef = useRef<GifFileState[]>(files);
+    // 한 번만 실행하는 세션 복원에서도 현재 언어로 안내하도록 최신 i18n을 보관
+    const i18nRef = useRef<I18n>(i18n);
+    // 호스트 콜백은 최신 값을 보관하고, 이미 알린 파일/결과/오류는 다시 알리지 않음
+    const callbacksRef = useRef({ onFileAdded, onOptimized, onError, onBatchComplete });
+    const announcedRef = useRef<AnnouncedState>({ fileIds: new Set(), variantIds: new Set(), errors: new Map() });
+    // 업로드에서 제외된 파일 (목록 갱신 후 onError로 알림, 같은 업로드는 한 번만 기록되도록 sources를 키로 사용)
+    const rejectedUploadsRef = useRef<Map<SourceFile[], OptimizerErrorDetail[]>>(new Map());
+    const wasOptimizingRef = useRef<boolean>(false);
+    // 명령형 start()로 요청한 최적화 (최신 목록이 반영된 뒤 시작하고 끝나면 resolve)
+    const [startRequest, setStartRequest] = useState<number>(0);
+    const startResolversRef = useRef<(() => void)[]>([]);
     // globalError를 토스트로 변환하여 표시하고 자동으로 사라지게 함
     useEffect(() => {
         if (!globalError) return;
         setToastMessage(globalError);
-        const t = setTimeout(() => {
+        const timer = setTimeout(() => {
             setToastMessage('');
             setGlobalError('');
         }, 3500);
-        return () => clearTimeout(t);
+        return () => clearTimeout(timer);
     }, [globalError]);
 
-    // 테마 및 클린업
+    // 클린업: files가 바뀔 때마다 URL을 해제하면 사용 중인 결과까지 무효화되므로 언마운트 시에만 해제
+    useEffect(() => {
+        filesRef.current = files;
+    }, [files]);
+
+    useEffect(() => {
+        i18nRef.current = i18n;
+    }, [i18n]);
+
+    useEffect(() => {
+        callbacksRef.current = { onFileAdded, onOptimized, onError, onBatchComplete };
+    }, [onFileAdded, onOptimized, onError, onBatchComplete]);
+
+    // 새 파일, 새 결과, 새 오류를 호스트에 알림 (복원한 파일은 복원 시 이미 알린 것으로 표시)
     useEffect(() => {
-        const savedTheme = localStorage.getItem('theme');
-        const prefersDark = window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches;
-        const initialDarkMode = savedTheme === 'dark' || (savedTheme === null && prefersDark);
-        if (initialDarkMode) {
-            document.body.classList.add('dark-mode');
-        } else {
-            document.body.classList.remove('dark-mode');
+        const { onFileAdded: notifyAdded, onOptimized: notifyOptimized, onError: notifyError } = callbacksRef.current;
+        const announced = announcedRef.current;
+        files.forEach(fileState => {
+            if (!announced.fileIds.has(fileState.id)) {
+                announced.fileIds.add(fileState.id);
+                notifyAdded?.({ fileId: fileState.id, file: fileState.file, relativePath: fileState.relativePath });
+            }
+            fileState.variants.forEach(variant => {
+                if (announced.variantIds.has(variant.id)) return;
+                announced.variantIds.add(variant.id);
+                notifyOptimized?.(toOptimizedDetail(fileState, variant));
+            });
+            if (fileState.error && announced.errors.get(fileState.id) !== fileState.error) {
+                notifyError?.({ fileId: fileState.id, relativePath: fileState.relativePath, message: fileState.error });
+            }
+            announced.errors.set(fileState.id, fileState.error);
+        });
+        rejectedUploadsRef.current.forEach(details => details.forEach(detail => notifyError?.(detail)));
+        rejectedUploadsRef.current.clear();
+    }, [files]);
+
+    // 일괄 최적화가 끝나면 전체 목록의 보고서와 함께 알림
+    useEffect(() => {
+        if (wasOptimizingRef.current && !isOptimizing) {
+            callbacksRef.current.onBatchComplete?.(buildReport(filesRef.current));
         }
-        setIsDarkMode(initialDarkMode);
+        wasOptimizingRef.current = isOptimizing;
+    }, [isOptimizing]);
 
+    useEffect(() => {
         return () => {
-            files.forEach(fileState => {
-                URL.revokeObjectURL(fileState.originalUrl);
-                if (fileState.optimizedUrl) URL.revokeObjectURL(fileState.optimizedUrl);
+            filesRef.current.forEach(revokeFileUrls);
+            measureControllerRef.current.abort();
+            measureControllerRef.current = new AbortController();
+        };
+    }, []);
+
+    const refreshStorageUsage = useCallback(() => {
+        getStorageUsage()
+            .then(setStorageUsage)
+            .catch(() => setStorageUsage(null));
+    }, []);
+
+    const handleSessionError = useCallback((err: unknown) => {
+        setGlobalError(t('session.saveFailed', { error: describeError(err, t) }));
+    }, [t]);
+
+    // 저장된 세션 복원: 원본/결과 Blob으로 object URL을 새로 만들고, URL에 설정이 없으면 저장된 설정도 적용
+    useEffect(() => {
+        if (!persistSessionOnMountRef.current) {
+            setIsSessionRestored(true);
+            refreshStorageUsage();
+            return;
+        }
+
+        let cancelled = false;
+        loadSession()
+            .then(({ files: storedFiles, preferences, jobs }) => {
+                if (cancelled) return;
+                const restored = storedFiles.map(fromStoredFile);
+                restored.forEach(f => {
+                    persistedKeysRef.current.set(f.id, getPersistKey(f));
+                    markAnnounced(announcedRef.current, f);
+                });
+                setFiles(prev => [...restored, ...prev]);
+                if (preferences) {
+                    if (!explicitSettings) setSettings(preferences.settings);
+                    setMode(preferences.mode);
+                    setTargetBytes(preferences.targetBytes);
+                    setQualityThreshold(preferences.qualityThreshold);
+                    setConcurrency(preferences.concurrency);
+                    setIncludeManifest(preferences.includeManifest);
+                }
+                if (restored.length > 0) setGlobalError(i18nRef.current.t('session.restored', { count: restored.length }));
+                if (jobs.length > 0) setRestoredJobs(jobs);
+            })
+            .catch(err => {
+                if (cancelled) return;
+                const { t: translate } = i18nRef.current;
+                setGlobalError(translate('session.loadFailed', { error: describeError(err, translate) }));
+            })
+            .finally(() => {
+                if (cancelled) return;
+                setIsSessionRestored(true);
+                refreshStorageUsage();
             });
+        return () => {
+            cancelled = true;
         };
-    }, [files]);
+    }, [refreshStorageUsage, explicitSettings]);
+
+    // 복원이 끝난 뒤부터 내용이 바뀐 파일만 저장 (진행률 갱신만으로는 다시 쓰지 않음)
+    useEffect(() => {
+        if (!isSessionRestored || !persistSession) return;
+        const keys = persistedKeysRef.current;
+        const changed = files.filter(f => keys.get(f.id) !== getPersistKey(f));
+        if (changed.length === 0) return;
+
+        changed.forEach(f => keys.set(f.id, getPersistKey(f)));
+        saveStoredFiles(changed.map(toStoredFile))
+            .then(refreshStorageUsage)
+            .catch(err => {
+                // 다음 변경 때 다시 시도
+                changed.forEach(f => keys.delete(f.id));
+                handleSessionError(err);
+            });
+    }, [files, isSessionRestored, persistSession, refreshStorageUsage, handleSessionError]);
+
+    useEffect(() => {
+        if (!isSessionRestored || !persistSession) return;
+        savePreferences({ settings, mode, targetBytes, qualityThreshold, concurrency, includeManifest })
+            .catch(handleSessionError);
+    }, [isSessionRestored, persistSession, settings, mode, targetBytes, qualityThreshold, concurrency, includeManifest, handleSessionError]);
+
+    useEffect(() => {
+        if (!isSessionRestored || !persistSession) return;
+        saveActiveJobs(activeJobs).catch(handleSessionError);
+    }, [isSessionRestored, persistSession, activeJobs, handleSessionError]);
+
+    const handlePersistSessionChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+        const enabled = event.target.checked;
+        localStorage.setItem(PERSIST_SESSION_KEY, enabled ? 'on' : 'off');
+        // 다시 켜면 현재 목록 전체를 새로 저장
+        if (enabled) persistedKeysRef.current.clear();
+        setPersistSession(enabled);
+    }, []);
 
+    // 저장된 세션을 지우고 자동 저장을 끔 (화면의 파일은 그대로 유지)
+    const handleClearSavedSession = useCallback(async () => {
+        localStorage.setItem(PERSIST_SESSION_KEY, 'off');
+        setPersistSession(false);
+        persistedKeysRef.current.clear();
+        try {
+            await clearSession();
+            setGlobalError(t('session.cleared'));
+        } catch (err) {
+            handleSessionError(err);
+        } finally {
+            refreshStorageUsage();
+        }
+    }, [handleSessionError, refreshStorageUsage, t]);
+
+    // 테마는 위젯 루트의 클래스로만 적용해 호스트 페이지에 영향을 주지 않음
     const handleThemeToggle = useCallback(() => {
-        setIsDarkMode(prev => {
-            const newMode = !prev;
-            if (newMode) {
-                document.body.classList.add('dark-mode');
-                localStorage.setItem('theme', 'dark');
-            } else {
-                document.body.classList.remove('dark-mode');
-                localStorage.setItem('theme', 'light');
-            }
-            return newMode;
-        });
+        const next = !isDarkModeSelected;
+        localStorage.setItem('theme', next ? 'dark' : 'light');
+        setIsDarkModeSelected(next);
+    }, [isDarkModeSelected]);
+
+    // 테마와 같이 고른 언어를 localStorage에 기억
+    const handleLocaleChange = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+        const next = event.target.value;
+        if (!isLocale(next)) return;
+        saveLocale(next);
+        setSelectedLocale(next);
     }, []);
 
-    const processFiles = useCallback((fileList: FileList | File[]) => {
-        const selectedFiles = Array.from(fileList || []);
+    // 처음 불러올 때와 '다시 확인'을 누를 때 서버 기능 정보를 확인
+    useEffect(() => {
+        const controller = new AbortController();
+        probeServer(apiBaseUrl, controller.signal)
+            .then(setServerStatus)
+            .catch(() => { /* 언마운트로 취소됨 */ });
+        return () => controller.abort();
+    }, [probeCount, apiBaseUrl]);
+
+    const handleRetryProbe = useCallback(() => {
+        setServerStatus({ state: 'checking' });
+        setProbeCount(prev => prev + 1);
+    }, []);
+
+    const parameterRanges = useMemo(() => getParameterRanges(serverStatus), [serverStatus]);
+    const availableFormats = useMemo(() => {
+        const formats = getAvailableFormats(serverStatus);
+        return allowedFormats ? formats.filter(format => allowedFormats.includes(format)) : formats;
+    }, [serverStatus, allowedFormats]);
+    const uploadBlockKey = getUploadBlockReason(serverStatus);
+    const uploadBlockReason = uploadBlockKey ? t(uploadBlockKey) : '';
+
+    const processFiles = useCallback(async (sources: SourceFile[]) => {
+        if (uploadBlockReason) {
+            setGlobalError(`🚨 ${uploadBlockReason}`);
+            return;
+        }
+        const capabilities = serverStatus.state === 'online' ? serverStatus.capabilities : null;
+        // 호스트가 정한 크기 제한이 서버 제한보다 작으면 그 값을 적용
+        const maxBytes = Math.min(capabilities?.maxUploadBytes ?? Infinity, maxFileBytes ?? Infinity);
+
+        // MIME 타입 대신 파일 내용(시그니처와 블록 구조)으로 GIF 여부와 손상 여부를 확인
+        // 영상(MP4/WebM)은 브라우저가 메타데이터를 읽을 수 있는지로 확인
+        // 중복 여부는 이름과 크기 대신 내용 해시로 판단
+        const parsed = await Promise.all(sources.map(async ({ file, relativePath }) => {
+            try {
+                // 서버가 받을 수 없는 파일은 분석 전에 제외
+                if (file.size > maxBytes) {
+                    throw new Error(t('upload.tooLarge', { size: formatBytes(maxBytes) }));
+                }
+                if (!allowVideo && isVideoFile(file)) {
+                    throw new Error(t('upload.videoNotAllowed'));
+                }
+                if (capabilities && isVideoFile(file) && !capabilities.inputTypes.includes(getVideoMimeType(file) ?? '')) {
+                    throw new Error(t('upload.videoUnsupported'));
+                }
+                const [info, videoInfo, hash] = await Promise.all([
+                    isVideoFile(file) ? null : readGifInfo(file),
+                    isVideoFile(file) ? readVideoInfo(file) : null,
+                    hashFileContent(file),
+                ]);
+                return { file, relativePath, info, videoInfo, hash, reason: '' };
+            } catch (err) {
+                return { file, relativePath, info: null, videoInfo: null, hash: '', reason: describeError(err, t) };
+            }
+        }));
+        const rejected = parsed.filter(p => !p.info && !p.videoInfo);
 
         setFiles(prev => {
-            const existingKeys = new Set(prev.map(p => `${p.file.name}_${p.file.size}`));
-            const batchKeys = new Set<string>();
+            const existingHashes = new Set(prev.map(p => p.contentHash));
+            const batchHashes = new Set<string>();
             const newFileStates: GifFileState[] = [];
-            let errorCount = 0;
 
             const duplicateNames: string[] = [];
-            selectedFiles.forEach((file, index) => {
-                const key = `${file.name}_${file.size}`;
-                if (file.type === 'image/gif' && !existingKeys.has(key) && !batchKeys.has(key)) {
-                    batchKeys.add(key);
-                    const url = URL.createObjectURL(file);
-                    newFileStates.push({
-                        id: Date.now() + Math.floor(Math.random() * 100000) + index,
-                        file,
-                        originalUrl: url,
-                        originalSize: file.size,
-                        optimizedUrl: '',
-                        optimizedSize: 0,
-                        reductionRate: 0,
-                        isProcessing: false,
-                        error: '',
-                    });
-                } else {
-                    // either not a GIF or duplicate
-                    if (file.type === 'image/gif') duplicateNames.push(file.name);
-                    errorCount++;
+            const overflowNames: string[] = [];
+            parsed.forEach(({ file: selected, relativePath, info, videoInfo, hash }, index) => {
+                if (!info && !videoInfo) return;
+                if (existingHashes.has(hash) || batchHashes.has(hash)) {
+                    duplicateNames.push(relativePath);
+                    return;
+                }
+                if (maxFileCount !== undefined && prev.length + newFileStates.length >= maxFileCount) {
+                    overflowNames.push(relativePath);
+                    return;
                 }
+                batchHashes.add(hash);
+                // 확장자/MIME이 달라도 내용이 GIF면 GIF로, 영상은 확장자로 판별한 타입으로 업로드
+                const type = videoInfo ? getVideoMimeType(selected) : 'image/gif';
+                const file = selected.type === type
+                    ? selected
+                    : new File([selected], selected.name, { type: type ?? '', lastModified: selected.lastModified });
+                const url = URL.createObjectURL(file);
+                newFileStates.push({
+                    id: Date.now() + Math.floor(Math.random() * 100000) + index,
+                    file,
+                    relativePath,
+                    contentHash: hash,
+                    originalUrl: url,
+                    originalSize: file.size,
+                    originalInfo: info,
+                    videoInfo,
+                    variants: [],
+                    chosenVariantId: null,
+                    viewedVariantId: null,
+                    isProcessing: false,
+                    progress: null,
+                    error: '',
+                    settingsOverride: null,
+                    edits: NO_FILE_EDITS,
+                    targetBytes: null,
+                    targetSearch: null,
+                });
             });
 
+            const errorCount = rejected.length + duplicateNames.length;
             if (errorCount > 0) {
-                setGlobalError(`🚨 ${errorCount}개의 파일이 제외되었습니다. (GIF 형식이 아니거나 중복 파일)`);
+                setGlobalError(rejected.length > 0
+                    ? t('upload.excludedInvalid', { count: errorCount, files: summarizeNames(rejected.map(r => `${r.relativePath} (${r.reason})`), t) })
+                    : t('upload.excludedDuplicate', { count: errorCount }));
                 if (duplicateNames.length > 0) {
-                    setToastMessage(`이미 등록된 파일: ${duplicateNames.slice(0,3).join(', ')}${duplicateNames.length>3?` 외 ${duplicateNames.length-3}개` : ''}`);
+                    setToastMessage(t('upload.duplicates', { files: summarizeNames(duplicateNames, t) }));
                     setTimeout(() => setToastMessage(''), 3500);
                 }
             } else {
                 setGlobalError('');
             }
+            if (overflowNames.length > 0) {
+                setGlobalError(t('upload.tooManyFiles', { count: overflowNames.length, max: maxFileCount ?? 0 }));
+            }
+            rejectedUploadsRef.current.set(sources, [
+                ...rejected.map(r => ({ fileId: null, relativePath: r.relativePath, message: r.reason })),
+                ...overflowNames.map(name => ({
+                    fileId: null,
+                    relativePath: name,
+                    message: t('upload.fileLimit', { max: maxFileCount ?? 0 }),
+                })),
+            ]);
 
             return [...prev, ...newFileStates];
         });
-    }, []);
+    }, [uploadBlockReason, serverStatus, maxFileBytes, maxFileCount, allowVideo, t, formatBytes]);
 
     const handleFileChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
-        processFiles(event.target.files || []);
+        processFiles(toSourceFiles(event.target.files || []));
         event.target.value = '';
     }, [processFiles]);
 
@@ -195,17 +637,41 @@ const GifOptimizer: React.FC = () => {
         setIsDragActive(false);
     }, []);
 
+    // 폴더를 놓으면 하위 폴더까지 모아 상대 경로와 함께 추가
     const handleDrop = useCallback((e: DragEvent<HTMLElement>) => {
         e.preventDefault();
         e.stopPropagation();
         setIsDragActive(false);
-        if (e.dataTransfer && e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-            processFiles(e.dataTransfer.files);
-            e.dataTransfer.clearData();
-        }
+        if (!e.dataTransfer || e.dataTransfer.items.length === 0) return;
+        collectDroppedFiles(e.dataTransfer)
+            .then(sources => {
+                if (sources.length > 0) processFiles(sources);
+            })
+            .catch(err => setGlobalError(t('upload.folderFailed', { error: describeError(err, t) })));
+    }, [processFiles, t]);
+
+    // 복사한 파일을 붙여넣으면 추가 (입력란에 붙여넣는 텍스트는 그대로 둠)
+    const pasteFiles = useCallback((event: ClipboardEvent | ReactClipboardEvent<HTMLElement>, target: EventTarget | null) => {
+        if (isTextInputTarget(target)) return;
+        const sources = getPastedFiles(event.clipboardData);
+        if (sources.length === 0) return;
+        event.preventDefault();
+        processFiles(sources);
     }, [processFiles]);
 
-    const handleSettingChange = useCallback((name: keyof OptimizationSettings, min: number, max: number) => (
+    // pasteScope가 document면 페이지 어디서든 받음 (Shadow DOM 안의 입력란도 구분하도록 실제 대상을 사용)
+    useEffect(() => {
+        if (pasteScope !== 'document') return;
+        const handlePaste = (event: ClipboardEvent) => pasteFiles(event, event.composedPath()[0] ?? event.target);
+        document.addEventListener('paste', handlePaste);
+        return () => document.removeEventListener('paste', handlePaste);
+    }, [pasteScope, pasteFiles]);
+
+    const handleRootPaste = useCallback((event: ReactClipboardEvent<HTMLElement>) => {
+        if (pasteScope === 'self') pasteFiles(event, event.target);
+    }, [pasteScope, pasteFiles]);
+
+    const handleSettingChange = useCallback((name: 'lossy' | 'colors', min: number, max: number) => (
         (event: ChangeEvent<HTMLInputElement>) => {
             let value = parseInt(event.target.value) || min;
             value = Math.max(min, Math.min(max, value));
@@ -213,164 +679,664 @@ const GifOptimizer: React.FC = () => {
         }
     ), []);
 
-    const handleOptimizeAll = useCallback(async () => {
-        if (files.length === 0) {
-            setGlobalError('먼저 GIF 파일을 업로드해주세요.');
-            return;
+    const handleTransformChange = useCallback((patch: Partial<OptimizationSettings>) => {
+        setSettings(prev => ({ ...prev, ...patch }));
+    }, []);
+
+    const handleVideoSettingChange = useCallback((patch: Partial<VideoConversionSettings>) => {
+        setSettings(prev => ({ ...prev, video: { ...prev.video, ...patch } }));
+    }, []);
+
+    const handleFileSettingChange = useCallback((id: number, name: 'lossy' | 'colors' | 'webpQuality', min: number, max: number) => (
+        (event: ChangeEvent<HTMLInputElement>) => {
+            let value = parseInt(event.target.value) || min;
+            value = Math.max(min, Math.min(max, value));
+            setFiles(prev => prev.map(f => (
+                f.id === id
+                    ? { ...f, settingsOverride: { ...getQualitySettings(f, settings), [name]: value } }
+                    : f
+            )));
         }
+    ), [settings]);
 
-        // 최적화 시작 전 상태 초기화
-        setFiles(prev => prev.map(f => ({
-            ...f,
-            isProcessing: true,
-            error: '',
-            optimizedUrl: f.optimizedUrl ? (URL.revokeObjectURL(f.optimizedUrl), '') : '',
-            optimizedSize: 0,
-        })));
-        setIsOptimizing(true);
-        setGlobalError('');
+    const handleFileFormatChange = useCallback((id: number, format: OutputFormat) => {
+        setFiles(prev => prev.map(f => (
+            f.id === id
+                ? { ...f, settingsOverride: { ...getQualitySettings(f, settings), format } }
+                : f
+        )));
+    }, [settings]);
+
+    // 자르기 영역, 타임라인 편집, 영상 구간은 파일마다 다르므로 화질 개별 설정과 따로 저장
+    const handleFileEditChange = useCallback((id: number, patch: Partial<FileEdits>) => {
+        setFiles(prev => prev.map(f => (f.id === id ? { ...f, edits: { ...f.edits, ...patch } } : f)));
+    }, []);
+
+    // 이 파일의 설정을 일괄 기본값으로 삼고 모든 파일의 화질 개별 설정을 해제 (파일별 편집은 그대로 유지)
+    const handleApplySettingsToAll = useCallback((id: number) => {
+        const source = files.find(f => f.id === id);
+        if (!source) return;
+        setSettings(withoutFileEdits(getEffectiveSettings(source, settings)));
+        setFiles(prev => prev.map(f => ({ ...f, settingsOverride: null })));
+    }, [files, settings]);
+
+    const handleResetFileSettings = useCallback((id: number) => {
+        setFiles(prev => prev.map(f => (f.id === id ? { ...f, settingsOverride: null } : f)));
+    }, []);
+
+    const handleResetAllFileSettings = useCallback(() => {
+        setFiles(prev => prev.map(f => ({ ...f, settingsOverride: null })));
+    }, []);
+
+    const handleTargetSizeChange = useCallback((event: ChangeEvent<HTMLInputElement>) => {
+        const megabytes = parseFloat(event.target.value);
+        if (!Number.isFinite(megabytes) || megabytes <= 0) return;
+        setTargetBytes(Math.round(megabytes * MB));
+    }, []);
+
+    const handleFileTargetChange = useCallback((id: number) => (event: ChangeEvent<HTMLInputElement>) => {
+        const megabytes = parseFloat(event.target.value);
+        const value = Number.isFinite(megabytes) && megabytes > 0 ? Math.round(megabytes * MB) : null;
+        setFiles(prev => prev.map(f => (f.id === id ? { ...f, targetBytes: value } : f)));
+    }, []);
 
-        const formData = new FormData();
+    const updateFile = useCallback((id: number, patch: (f: GifFileState) => Partial<GifFileState>) => {
+        setFiles(prev => prev.map(f => (f.id === id ? { ...f, ...patch(f) } : f)));
+    }, []);
+
+    // 새 변형이 생기면 화질 지표를 한 변형씩 순서대로 측정 (변형마다 한 번만)
+    useEffect(() => {
         files.forEach(fileState => {
-            const uniqueFilename = `${fileState.id}_${fileState.file.name}`;  // ✅ 고유 이름 생성
-            formData.append('file', fileState.file, uniqueFilename);
+            fileState.variants.forEach(variant => {
+                if (variant.quality || measuredVariantIdsRef.current.has(variant.id)) return;
+                measuredVariantIdsRef.current.add(variant.id);
+                // 워커의 디코더는 GIF만 읽으므로 WebP/APNG 결과와 영상 원본은 지표 없이 둠
+                if (variant.format !== 'gif' || isVideoFile(fileState.file)) return;
+
+                const { id, originalUrl } = fileState;
+                measureQueueRef.current = measureQueueRef.current.then(async () => {
+                    updateFile(id, f => updateVariant(f, variant.id, { isMeasuringQuality: true }));
+                    try {
+                        // 디코딩과 지표 계산은 워커에서 수행 (원본 디코딩 결과는 워커가 URL별로 캐시)
+                        const quality = await measureQualityInWorker(
+                            originalUrl,
+                            variant.blob,
+                            measureControllerRef.current.signal,
+                            variant.settings ?? undefined,
+                        );
+                        updateFile(id, f => updateVariant(f, variant.id, { quality, isMeasuringQuality: false }));
+                    } catch {
+                        // 측정 실패(삭제된 변형 포함)는 결과 사용에 지장이 없으므로 지표만 생략
+                        updateFile(id, f => updateVariant(f, variant.id, { isMeasuringQuality: false }));
+                    }
+                });
+            });
         });
-        formData.append('lossy', settings.lossy.toString());
-        formData.append('colors', settings.colors.toString());
+    }, [files, updateFile]);
 
-        try {
-            const response = await fetch(`${API_BASE}/api/optimize-gif`, {
-                method: 'POST',
-                body: formData,
+    // 메타데이터가 없는 원본(세션 복원)과 결과 변형은 컨테이너만 읽어 채움 (각각 한 번만, 이전 세션의 파일은 내용 해시도 계산)
+    useEffect(() => {
+        const analyzed = analyzedGifKeysRef.current;
+        files.forEach(fileState => {
+            const { id } = fileState;
+            if (isVideoFile(fileState.file)) {
+                if (!fileState.videoInfo && !analyzed.has(`file-${id}`)) {
+                    analyzed.add(`file-${id}`);
+                    readVideoInfo(fileState.file)
+                        .then(videoInfo => updateFile(id, () => ({ videoInfo })))
+                        .catch(() => undefined);
+                }
+            } else if (!fileState.originalInfo && !analyzed.has(`file-${id}`)) {
+                analyzed.add(`file-${id}`);
+                readGifInfo(fileState.file)
+                    .then(info => updateFile(id, () => ({ originalInfo: info })))
+                    .catch(() => undefined);
+            }
+            if (!fileState.contentHash && !analyzed.has(`hash-${id}`)) {
+                analyzed.add(`hash-${id}`);
+                hashFileContent(fileState.file)
+                    .then(contentHash => updateFile(id, () => ({ contentHash })))
+                    .catch(() => undefined);
+            }
+            fileState.variants.forEach(variant => {
+                if (variant.info || analyzed.has(`variant-${variant.id}`)) return;
+                analyzed.add(`variant-${variant.id}`);
+                if (variant.format !== 'gif') return;
+                readGifInfo(variant.blob)
+                    .then(info => updateFile(id, f => updateVariant(f, variant.id, { info })))
+                    .catch(() => undefined);
             });
+        });
+    }, [files, updateFile]);
 
-            let responseData: ServerResponse | { error: string };
+    // 진행률을 카드에 표시하며 파일 1개를 한 번 최적화 요청 (재시도 포함)
+    const sendWithRetry = useCallback(async (fileState: GifFileState, attemptSettings: OptimizationSettings, signal: AbortSignal) => {
+        const result = await apiClient.optimizeGif({
+            file: fileState.file,
+            fileName: `${fileState.id}_${fileState.file.name}`,
+            settings: attemptSettings,
+        }, {
+            signal,
+            onAttempt: attempt => updateFile(fileState.id, () => ({ progress: { phase: 'uploading', uploaded: 0, attempt } })),
+            onUploadProgress: (ratio, attempt) => updateFile(fileState.id, () => ({
+                progress: { phase: ratio < 1 ? 'uploading' : 'processing', uploaded: ratio, attempt },
+            })),
+            onRetry: nextAttempt => updateFile(fileState.id, () => ({
+                progress: { phase: 'retrying', uploaded: 0, attempt: nextAttempt },
+            })),
+        });
+        return result.blob;
+    }, [apiClient, updateFile]);
 
-            if (!response.ok) {
-                const errorText = await response.text();
-                try {
-                    responseData = JSON.parse(errorText);
-                    setGlobalError(`🚨 서버 오류: ${('error' in responseData) ? responseData.error : `상태 코드 ${response.status}`}`);
-                } catch {
-                    setGlobalError(`🚨 서버 오류: 상태 코드 ${response.status}.`);
-                }
-                throw new Error("Optimization failed on server.");
+    // 스윕 요청은 카드 진행률을 건드리지 않음
+    const runSweepOptimization = useCallback((fileState: GifFileState) => (
+        async (attemptSettings: OptimizationSettings, signal: AbortSignal) => {
+            const result = await apiClient.optimizeGif({
+                file: fileState.file,
+                fileName: `${fileState.id}_${fileState.file.name}`,
+                settings: attemptSettings,
+            }, { signal });
+            return result.blob;
+        }
+    ), [apiClient]);
+
+    // 스윕에서 고른 변형을 파일의 결과 이력에 추가하고, 그 설정을 파일별 설정으로 고정
+    const handleKeepSweepPoint = useCallback((fileState: GifFileState) => (point: SweepPoint) => {
+        const variant = createVariant(point.blob, fileState.originalSize, point.settings, point.quality);
+        updateFile(fileState.id, f => ({
+            ...appendVariant(f, variant),
+            settingsOverride: withoutFileEdits(point.settings),
+            error: '',
+        }));
+    }, [updateFile]);
+
+    const handleViewVariant = useCallback((id: number, variantId: number) => {
+        updateFile(id, () => ({ viewedVariantId: variantId }));
+    }, [updateFile]);
+
+    // 다운로드에 쓸 변형 고정 (이미 고정된 변형을 다시 누르면 해제해 최신 변형을 따름)
+    const handleChooseVariant = useCallback((id: number, variantId: number) => {
+        updateFile(id, f => ({ chosenVariantId: f.chosenVariantId === variantId ? null : variantId }));
+    }, [updateFile]);
+
+    const handleDeleteVariant = useCallback((id: number, variantId: number) => {
+        updateFile(id, f => removeVariant(f, variantId));
+    }, [updateFile]);
+
+    // 형식별 크기에서 고른 변형을 표시하고 다운로드용으로 고정
+    const handleSelectFormatVariant = useCallback((id: number, variantId: number) => {
+        updateFile(id, () => ({ viewedVariantId: variantId, chosenVariantId: variantId }));
+    }, [updateFile]);
+
+    // 현재 파일 설정으로 서버가 지원하는 형식을 차례로 변환해 크기를 비교 (카드 진행률은 건드리지 않음)
+    const handleConvertAllFormats = useCallback(async (fileState: GifFileState) => {
+        const { id } = fileState;
+        const baseSettings = getEffectiveSettings(fileState, settings);
+        // 변환 중에 파일을 삭제하면 남은 요청을 취소
+        const controller = new AbortController();
+        fileControllersRef.current.set(id, controller);
+        setConvertingFormatIds(prev => new Set(prev).add(id));
+        try {
+            for (const format of availableFormats) {
+                const startedAt = performance.now();
+                const result = await apiClient.optimizeGif({
+                    file: fileState.file,
+                    fileName: `${id}_${fileState.file.name}`,
+                    settings: { ...baseSettings, format },
+                }, { signal: controller.signal });
+                const variant = createVariant(result.blob, fileState.originalSize, result.settings, null, performance.now() - startedAt);
+                updateFile(id, f => appendVariant(f, variant));
             }
+        } catch (err) {
+            if (!isAbortError(err)) {
+                setGlobalError(t('optimize.formatConvertFailed', { name: fileState.file.name, error: describeError(err, t) }));
+            }
+        } finally {
+            if (fileControllersRef.current.get(id) === controller) fileControllersRef.current.delete(id);
+            setConvertingFormatIds(prev => {
+                const next = new Set(prev);
+                next.delete(id);
+                return next;
+            });
+        }
+    }, [apiClient, settings, availableFormats, updateFile, t]);
 
-            responseData = await response.json() as ServerResponse;
+    // 파일 1개 처리: 직접 설정 모드는 1회 요청, 목표 용량 모드는 설정을 바꿔가며 반복 요청
+    const optimizeFile = useCallback(async (fileState: GifFileState, signal: AbortSignal) => {
+        if (signal.aborted) {
+            updateFile(fileState.id, () => ({ isProcessing: false, progress: null, error: t('optimize.cancelled') }));
+            return;
+        }
 
-            setFiles(prevFiles => {
-                const newFiles = prevFiles.map(f => {
-                    const matchName = `${f.id}_${f.file.name}`;
-                    const result = responseData.results.find(r => r.filename === matchName);
+        // 걸린 시간은 업로드부터 결과 수신까지 (목표 용량 모드는 탐색 전체)
+        const startedAt = performance.now();
+        try {
+            if (mode === 'targetSize') {
+                const budget = fileState.targetBytes ?? targetBytes;
+                const result = await searchTargetSize(
+                    budget,
+                    getEffectiveSettings(fileState, settings),
+                    attemptSettings => sendWithRetry(fileState, attemptSettings, signal),
+                    t,
+                    attempt => updateFile(fileState.id, f => ({
+                        targetSearch: {
+                            status: 'searching',
+                            targetBytes: budget,
+                            settings: null,
+                            attempts: [...(f.targetSearch?.attempts ?? []), attempt],
+                        },
+                    })),
+                );
 
-                    if (!result) {
-                        return {
-                            ...f,
-                            isProcessing: false,
-                            error: '서버 응답에서 결과를 찾을 수 없습니다.',
-                        };
+                const { blob, error, ...summary } = result;
+                if (signal.aborted) throw createAbortError();
+                const variant = blob ? createVariant(blob, fileState.originalSize, summary.settings, null, performance.now() - startedAt) : null;
+                updateFile(fileState.id, f => (variant
+                    ? {
+                        ...appendVariant(f, variant),
+                        isProcessing: false,
+                        progress: null,
+                        targetSearch: summary,
+                        error: '',
+                    }
+                    : {
+                        isProcessing: false,
+                        progress: null,
+                        targetSearch: summary,
+                        error: summary.status === 'unreachable'
+                            ? t('optimize.targetUnreachable', { size: formatBytes(budget) })
+                            : error || t('optimize.failed'),
                     }
-                    if (result.error) {
-                        return {
-                            ...f,
-                            isProcessing: false,
-                            error: result.error,
-                        };
+                ));
+                return;
+            }
+
+            const fileSettings = getEffectiveSettings(fileState, settings);
+            const optimizedBlob = await sendWithRetry(fileState, fileSettings, signal);
+            const variant = createVariant(optimizedBlob, fileState.originalSize, fileSettings, null, performance.now() - startedAt);
+            updateFile(fileState.id, f => ({
+                ...appendVariant(f, variant),
+                isProcessing: false,
+                progress: null,
+                error: '',
+            }));
+        } catch (err) {
+            // 서버에서 gifsicle을 쓸 수 없으면 남은 파일도 모두 실패하므로 일괄 작업을 멈춤
+            if (err instanceof GifsicleUnavailableError) {
+                setGlobalError(`🚨 ${describeError(err, t)}`);
+                batchControllerRef.current?.abort();
+            }
+            updateFile(fileState.id, () => ({
+                isProcessing: false,
+                progress: null,
+                error: isAbortError(err) ? t('optimize.cancelled') : describeError(err, t),
+            }));
+        }
+    }, [mode, targetBytes, settings, sendWithRetry, updateFile, t, formatBytes]);
+
+    // 서버에서 끝난 파일의 결과를 받아 변형으로 추가 (그 사이 목록에서 지운 파일은 건너뜀)
+    const applyJobResult = useCallback(async (
+        jobId: string,
+        fileStatus: JobFileStatus,
+        entry: ActiveJob['files'][number],
+        signal: AbortSignal,
+    ) => {
+        if (!filesRef.current.some(f => f.id === entry.fileId)) return;
+        try {
+            const optimized = await apiClient.fetchJobResult(jobId, fileStatus, entry.settings, signal);
+            const variant = createVariant(optimized.blob, optimized.originalSize, optimized.settings, null, fileStatus.durationMs);
+            updateFile(entry.fileId, f => ({
+                ...appendVariant(f, variant),
+                isProcessing: false,
+                progress: null,
+                error: '',
+            }));
+        } catch (err) {
+            // 남은 파일도 모두 실패하므로 일괄 작업을 멈춰 서버 작업까지 취소
+            if (err instanceof GifsicleUnavailableError) {
+                setGlobalError(`🚨 ${describeError(err, t)}`);
+                batchControllerRef.current?.abort();
+            }
+            updateFile(entry.fileId, () => ({
+                isProcessing: false,
+                progress: null,
+                error: isAbortError(err) ? t('optimize.cancelled') : describeError(err, t),
+            }));
+        }
+    }, [apiClient, updateFile, t]);
+
+    /**
+     * 작업 상태를 주기적으로 조회해 파일별 진행 상태를 표시하고, 끝난 파일부터 결과를 받습니다.
+     * 일괄 취소하면 서버 작업도 취소하고, 모든 결과를 받으면 서버에 남은 결과를 지웁니다.
+     */
+    const trackJob = useCallback(async (job: ActiveJob, signal: AbortSignal) => {
+        const controllers = fileControllersRef.current;
+        const handled = new Set<number>();
+        const pending: Promise<void>[] = [];
+        try {
+            await apiClient.watchJob(job.jobId, {
+                signal,
+                onStatus: status => status.files.forEach(fileStatus => {
+                    const entry = job.files[fileStatus.index];
+                    if (!entry || handled.has(fileStatus.index)) return;
+                    // 개별 취소한 파일은 결과를 받지 않음 (서버 작업은 다른 파일을 위해 계속 진행)
+                    if (controllers.get(entry.fileId)?.signal.aborted) {
+                        handled.add(fileStatus.index);
+                        updateFile(entry.fileId, () => ({ isProcessing: false, progress: null, error: t('optimize.cancelled') }));
+                        return;
                     }
-                    if (result.optimized_data && result.optimized_size !== null) {
-                        try {
-                            const optimizedBlob = b64toBlob(result.optimized_data);
-                            const optimizedUrl = URL.createObjectURL(optimizedBlob);
-                            const reductionRate = ((f.originalSize - optimizedBlob.size) / f.originalSize) * 100;
-                            if (f.optimizedUrl) URL.revokeObjectURL(f.optimizedUrl);
-
-                            return {
-                                ...f,
-                                isProcessing: false,
-                                optimizedUrl,
-                                optimizedSize: optimizedBlob.size,
-                                reductionRate,
-                                error: '',
-                            };
-                        } catch (e) {
-                            return {
-                                ...f,
-                                isProcessing: false,
-                                error: '디코딩 오류',
-                                optimizedUrl: '',
-                                optimizedSize: 0,
-                            };
-                        }
+                    if (fileStatus.status === 'queued' || fileStatus.status === 'processing') {
+                        const phase = fileStatus.status === 'queued' ? 'queued' : (fileStatus.stage === 'converting' ? 'converting' : 'processing');
+                        updateFile(entry.fileId, () => ({ progress: { phase, uploaded: 1, attempt: 1 } }));
+                        return;
                     }
-                    return {
-                        ...f,
-                        isProcessing: false,
-                        error: '최적화 실패',
-                        optimizedUrl: '',
-                        optimizedSize: 0,
-                    };
-                });
-                return newFiles;
+                    handled.add(fileStatus.index);
+                    pending.push(applyJobResult(job.jobId, fileStatus, entry, controllers.get(entry.fileId)?.signal ?? signal));
+                }),
             });
+            await Promise.all(pending);
+            apiClient.cancelJob(job.jobId).catch(() => { /* 만료되면 서버가 정리 */ });
+        } catch (err) {
+            await Promise.all(pending);
+            if (isAbortError(err)) apiClient.cancelJob(job.jobId).catch(() => { /* 만료되면 서버가 정리 */ });
+            const message = isAbortError(err)
+                ? t('optimize.cancelled')
+                : err instanceof HttpError && err.status === 404
+                    ? t('job.notFound')
+                    : describeError(err, t);
+            job.files.forEach((entry, index) => {
+                if (!handled.has(index)) updateFile(entry.fileId, () => ({ isProcessing: false, progress: null, error: message }));
+            });
+        } finally {
+            job.files.forEach(entry => controllers.delete(entry.fileId));
+            setActiveJobs(prev => prev.filter(j => j.jobId !== job.jobId));
+        }
+    }, [apiClient, applyJobResult, updateFile, t]);
 
-        } catch (err: any) {
-            if (err.message !== "Optimization failed on server.") {
-                setGlobalError(`🚨 통신 실패: ${err.message}`);
+    // 파일을 서버 제한에 맞게 나눠 작업으로 올리고, 올라간 작업부터 상태를 추적
+    // 동시 처리 수만큼의 작업만 서버에 올려 두고, 한 작업이 끝나면 다음 묶음을 제출
+    const runJobs = useCallback(async (targets: GifFileState[], maxFiles: number, maxUploadBytes: number, signal: AbortSignal) => {
+        const chunks = chunkByLimits(targets, f => f.file.size, maxFiles, maxUploadBytes * JOB_UPLOAD_BUDGET_RATIO);
+        await runJobQueue(chunks, async chunk => {
+            const entries = chunk.map(f => ({ fileId: f.id, settings: getEffectiveSettings(f, settings) }));
+            const totalBytes = chunk.reduce((sum, f) => sum + f.file.size, 0);
+            // 묶음 전체의 업로드 비율을 파일마다 자기 구간의 비율로 환산
+            const setChunkProgress = (phase: FileProgress['phase'], ratio: number, attempt: number) => {
+                let offset = 0;
+                const byId = new Map(chunk.map(f => {
+                    const start = offset;
+                    offset += f.file.size;
+                    const uploaded = f.file.size > 0 ? Math.min(1, Math.max(0, (ratio * totalBytes - start) / f.file.size)) : ratio;
+                    return [f.id, uploaded] as const;
+                }));
+                setFiles(prev => prev.map(f => {
+                    const uploaded = byId.get(f.id);
+                    return uploaded === undefined ? f : { ...f, progress: { phase, uploaded, attempt } };
+                }));
+            };
+            let job: ActiveJob;
+            try {
+                const status = await apiClient.submitJob(chunk.map((f, index) => ({
+                    file: f.file,
+                    fileName: `${f.id}_${f.file.name}`,
+                    settings: entries[index].settings,
+                })), {
+                    signal,
+                    onAttempt: attempt => setChunkProgress('uploading', 0, attempt),
+                    onUploadProgress: (ratio, attempt) => setChunkProgress('uploading', ratio, attempt),
+                    onRetry: nextAttempt => setChunkProgress('retrying', 0, nextAttempt),
+                });
+                job = { jobId: status.jobId, createdAt: Date.now(), files: entries };
+            } catch (err) {
+                if (err instanceof GifsicleUnavailableError) {
+                    setGlobalError(`🚨 ${describeError(err, t)}`);
+                    batchControllerRef.current?.abort();
+                }
+                const message = isAbortError(err) ? t('optimize.cancelled') : describeError(err, t);
+                chunk.forEach(f => updateFile(f.id, () => ({ isProcessing: false, progress: null, error: message })));
+                return;
             }
-            setFiles(prev => prev.map(f => ({ ...f, isProcessing: false })));
+            setActiveJobs(prev => [...prev, job]);
+            await trackJob(job, signal);
+        }, concurrency, signal);
+    }, [apiClient, settings, concurrency, trackJob, updateFile, t]);
+
+    // 새로고침 전에 진행 중이던 작업에 다시 연결 (파일이 남아 있지 않은 작업은 서버에서 정리)
+    const resumeJobs = useCallback(async (jobs: ActiveJob[]) => {
+        const existingIds = new Set(filesRef.current.map(f => f.id));
+        const resumable = jobs.filter(job => job.files.some(entry => existingIds.has(entry.fileId)));
+        jobs.filter(job => !resumable.includes(job)).forEach(job => {
+            apiClient.cancelJob(job.jobId).catch(() => { /* 만료되면 서버가 정리 */ });
+        });
+        if (resumable.length === 0) return;
+
+        const batchController = new AbortController();
+        batchControllerRef.current = batchController;
+        const resumedIds = resumable.flatMap(job => job.files.map(entry => entry.fileId)).filter(id => existingIds.has(id));
+        linkFileControllers(batchController.signal, resumedIds, fileControllersRef.current);
+        setFiles(prev => prev.map(f => (
+            resumedIds.includes(f.id)
+                ? { ...f, isProcessing: true, progress: { phase: 'queued', uploaded: 1, attempt: 1 }, error: '' }
+                : f
+        )));
+        setActiveJobs(prev => [...prev, ...resumable]);
+        setIsOptimizing(true);
+        setGlobalError(t('job.resumed', { count: resumable.length }));
+        try {
+            await Promise.all(resumable.map(job => trackJob(job, batchController.signal)));
         } finally {
+            if (batchControllerRef.current === batchController) batchControllerRef.current = null;
             setIsOptimizing(false);
         }
-    }, [files, settings]);
+    }, [apiClient, trackJob, t]);
+
+    useEffect(() => {
+        const pendingJobs = restoredJobs.filter(job => !resumedJobIdsRef.current.has(job.jobId));
+        if (pendingJobs.length === 0) return;
+        pendingJobs.forEach(job => resumedJobIdsRef.current.add(job.jobId));
+        resumeJobs(pendingJobs);
+    }, [restoredJobs, resumeJobs]);
+
+    // 전체 또는 선택한 파일을 일괄 최적화
+    const optimizeFiles = useCallback(async (targets: GifFileState[]) => {
+        if (targets.length === 0) {
+            setGlobalError(t('optimize.noFiles'));
+            return;
+        }
+        if (uploadBlockReason) {
+            setGlobalError(`🚨 ${uploadBlockReason}`);
+            return;
+        }
+
+        const batchController = new AbortController();
+        batchControllerRef.current = batchController;
+        const controllers = fileControllersRef.current;
+        const targetIds = new Set(targets.map(f => f.id));
+        linkFileControllers(batchController.signal, [...targetIds], controllers);
+
+        // 최적화 시작 전 상태 초기화 (기존 결과는 변형 이력으로 남김)
+        setFiles(prev => prev.map(f => (targetIds.has(f.id)
+            ? {
+                ...f,
+                isProcessing: true,
+                progress: { phase: 'queued', uploaded: 0, attempt: 1 },
+                error: '',
+                targetSearch: null,
+            }
+            : f
+        )));
+        setIsOptimizing(true);
+        setGlobalError('');
+
+        try {
+            // 직접 설정 모드는 서버의 비동기 작업 API로 한꺼번에 처리 (목표 용량 탐색은 파일마다 여러 번 요청하므로 기존 방식)
+            if (mode === 'manual' && serverStatus.state === 'online' && serverStatus.capabilities.jobs) {
+                const { maxFiles, maxUploadBytes } = serverStatus.capabilities;
+                await runJobs(targets, maxFiles, maxUploadBytes, batchController.signal);
+            } else {
+                await runJobQueue(
+                    targets,
+                    async fileState => {
+                        const controller = controllers.get(fileState.id);
+                        if (!controller) return;
+                        await optimizeFile(fileState, controller.signal);
+                        controllers.delete(fileState.id);
+                    },
+                    concurrency,
+                    batchController.signal,
+                );
+            }
+        } finally {
+            // 일괄 취소로 시작하지 못한 파일 정리 (다시 연결한 작업처럼 이번 실행과 무관한 파일은 그대로 둠)
+            targets.forEach(fileState => controllers.delete(fileState.id));
+            if (batchControllerRef.current === batchController) batchControllerRef.current = null;
+            setFiles(prev => prev.map(f => (
+                targetIds.has(f.id) && f.isProcessing ? { ...f, isProcessing: false, progress: null, error: t('optimize.cancelled') } : f
+            )));
+            setIsOptimizing(false);
+        }
+    }, [mode, serverStatus, concurrency, optimizeFile, runJobs, uploadBlockReason, t]);
+
+    const handleOptimizeAll = useCallback(() => optimizeFiles(files), [optimizeFiles, files]);
+
+    const handleCancelAll = useCallback(() => {
+        batchControllerRef.current?.abort();
+    }, []);
 
-    const handleDownload = useCallback((url: string, fileName: string) => (_event: MouseEvent<HTMLButtonElement>) => {
-        if (url && fileName) {
-            const link = document.createElement('a');
-            link.href = url;
-            link.setAttribute('download', `optimized_${fileName}`);
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+    // start()가 요청되면 그 사이 추가된 파일까지 포함해 전체 최적화 (목록이 바뀌어 다시 실행될 때는 대기 중인 요청이 없음)
+    useEffect(() => {
+        const resolvers = startResolversRef.current.splice(0);
+        if (resolvers.length === 0) return;
+        handleOptimizeAll().finally(() => resolvers.forEach(resolve => resolve()));
+    }, [startRequest, handleOptimizeAll]);
+
+    useImperativeHandle(ref, () => ({
+        addFiles: selected => processFiles(toSourceFiles(selected)),
+        start: () => new Promise<void>(resolve => {
+            startResolversRef.current.push(resolve);
+            setStartRequest(prev => prev + 1);
+        }),
+        cancel: handleCancelAll,
+    }), [processFiles, handleCancelAll]);
+
+    const handleCancelFile = useCallback((id: number) => {
+        fileControllersRef.current.get(id)?.abort();
+    }, []);
+
+    const handleDownload = useCallback((variant: ResultVariant | null, fileName: string) => () => {
+        if (variant && fileName) {
+            triggerDownload(variant.url, buildOutputName(fileName, variant.format));
         }
     }, []);
 
-    const handleDownloadAll = useCallback(() => {
-        files.forEach((fileState, index) => {
-            if (fileState.optimizedUrl) {
-                const link = document.createElement('a');
-                link.href = fileState.optimizedUrl;
-                link.setAttribute('download', `optimized_${fileState.file.name}`);
-                setTimeout(() => {
-                    link.click();
-                }, 100 * index);
+    // 최적화된 결과를 하나의 ZIP으로 묶어 내려받음 (선택 시 manifest.json 포함)
+    const handleDownloadAll = useCallback(async () => {
+        const optimizedFiles = files.filter(f => f.variants.length > 0);
+        if (optimizedFiles.length === 0) return;
+
+        setZipProgress(0);
+        try {
+            const usedNames = new Set<string>();
+            const entries: ZipEntry[] = [];
+            const manifest: ManifestEntry[] = [];
+            for (const fileState of optimizedFiles) {
+                const variant = getChosenVariant(fileState);
+                if (!variant) continue;
+                const name = makeUniqueName(buildOutputPath(fileState.relativePath, variant.format), usedNames);
+                entries.push({ name, data: variant.blob });
+                manifest.push({
+                    name,
+                    originalName: fileState.relativePath,
+                    originalSize: fileState.originalSize,
+                    optimizedSize: variant.size,
+                    reductionRate: Number(variant.reductionRate.toFixed(2)),
+                    format: variant.format,
+                    settings: variant.settings,
+                });
             }
-        });
+            if (includeManifest) {
+                const manifestJson = JSON.stringify({ createdAt: new Date().toISOString(), files: manifest }, null, 2);
+                entries.push({ name: makeUniqueName('manifest.json', usedNames), data: new Blob([manifestJson], { type: 'application/json' }) });
+            }
+
+            const zipBlob = await createZip(entries, (processed, total) => (
+                setZipProgress(total > 0 ? processed / total : 1)
+            ));
+            downloadBlob(zipBlob, 'optimized_gifs.zip');
+        } catch (err) {
+            setGlobalError(t('results.zipFailed', { error: describeError(err, t) }));
+        } finally {
+            setZipProgress(null);
+        }
+    }, [files, includeManifest, t]);
+
+    // 파일별 결과와 요약 통계를 보고서로 내려받음
+    const handleExportReport = useCallback((format: 'csv' | 'json') => {
+        const report = buildReport(files);
+        const blob = format === 'csv'
+            ? new Blob([reportToCsv(report)], { type: 'text/csv;charset=utf-8' })
+            : new Blob([reportToJson(report)], { type: 'application/json' });
+        downloadBlob(blob, `optimization_report.${format}`);
     }, [files]);
 
-    const handleRemoveFile = useCallback((id: number) => {
+    const handleRemoveFiles = useCallback((ids: number[]) => {
+        const removing = new Set(ids);
+        ids.forEach(id => {
+            fileControllersRef.current.get(id)?.abort();
+            persistedKeysRef.current.delete(id);
+        });
         setFiles(prev => {
-            const toRemove = prev.find(p => p.id === id);
-            if (toRemove) {
-                URL.revokeObjectURL(toRemove.originalUrl);
-                if (toRemove.optimizedUrl) URL.revokeObjectURL(toRemove.optimizedUrl);
-            }
-            return prev.filter(p => p.id !== id);
+            prev.filter(p => removing.has(p.id)).forEach(revokeFileUrls);
+            return prev.filter(p => !removing.has(p.id));
+        });
+        setSelectedIds(prev => new Set([...prev].filter(id => !removing.has(id))));
+        deleteStoredFiles(ids).then(refreshStorageUsage).catch(handleSessionError);
+    }, [refreshStorageUsage, handleSessionError]);
+
+    const handleRemoveFile = useCallback((id: number) => handleRemoveFiles([id]), [handleRemoveFiles]);
+
+    // 선택한 파일 중 목록에 남아 있는 파일만 대상으로 함
+    const selectedFiles = useMemo(() => files.filter(f => selectedIds.has(f.id)), [files, selectedIds]);
+
+    const handleOptimizeSelected = useCallback(() => optimizeFiles(selectedFiles), [optimizeFiles, selectedFiles]);
+
+    const handleRemoveSelected = useCallback(() => {
+        handleRemoveFiles(selectedFiles.map(f => f.id));
+    }, [handleRemoveFiles, selectedFiles]);
+
+    const handleToggleSelected = useCallback((id: number) => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            if (!next.delete(id)) next.add(id);
+            return next;
         });
     }, []);
 
     const handleClearAll = useCallback(() => {
+        batchControllerRef.current?.abort();
         setFiles(prev => {
-            prev.forEach(p => {
-                URL.revokeObjectURL(p.originalUrl);
-                if (p.optimizedUrl) URL.revokeObjectURL(p.optimizedUrl);
-            });
+            prev.forEach(revokeFileUrls);
             return [];
         });
-    }, []);
+        setSelectedIds(new Set());
+        persistedKeysRef.current.clear();
+        clearStoredFiles().then(refreshStorageUsage).catch(handleSessionError);
+    }, [refreshStorageUsage, handleSessionError]);
 
+    const sweepFile = files.find(f => f.id === sweepFileId);
+    const comparisonFile = files.find(f => f.id === comparisonFileId);
+    const comparisonVariant = comparisonFile ? getViewedVariant(comparisonFile) : null;
+    const completedCount = useMemo(() => files.filter(f => !f.isProcessing).length, [files]);
+    const statusCounts = useMemo(() => countByStatus(files), [files]);
+    const reportSummary = useMemo(() => summarizeRows(files.map(toReportRow)), [files]);
+    const visibleFiles = useMemo(() => (
+        arrangeFiles(files, statusFilter, sortKey, sortDirection)
+    ), [files, statusFilter, sortKey, sortDirection]);
+    const visibleIds = useMemo(() => visibleFiles.map(f => f.id), [visibleFiles]);
+    const overriddenCount = useMemo(() => files.filter(f => f.settingsOverride).length, [files]);
+    const hasVideoFiles = useMemo(() => files.some(f => isVideoFile(f.file)), [files]);
     const totalOriginalSize = useMemo(() => files.reduce((acc, f) => acc + f.originalSize, 0), [files]);
-    const totalOptimizedSize = useMemo(() => files.reduce((acc, f) => acc + f.optimizedSize, 0), [files]);
+    const totalOptimizedSize = useMemo(() => files.reduce((acc, f) => acc + (getChosenVariant(f)?.size ?? 0), 0), [files]);
     const totalReductionRate = useMemo(() => {
         if (totalOriginalSize > 0 && totalOptimizedSize > 0) {
             return ((totalOriginalSize - totalOptimizedSize) / totalOriginalSize) * 100;
@@ -379,23 +1345,47 @@ const GifOptimizer: React.FC = () => {
     }, [totalOriginalSize, totalOptimizedSize]);
 
     return (
+        <I18nContext.Provider value={i18n}>
+        {/* 테마 변수와 스타일은 이 루트 아래에만 적용 (tabIndex는 클릭한 위젯이 붙여넣기를 받도록 포커스를 주기 위함) */}
+        <div
+            className={`gif-optimizer ${isDarkMode ? 'dark-mode' : ''}`}
+            part="root"
+            lang={locale}
+            tabIndex={-1}
+            onPaste={handleRootPaste}
+        >
         <div className="container">
             {toastMessage && (
                 <div className="toast" role="status">
                     {toastMessage}
                 </div>
             )}
-            <button className="theme-toggle-button" onClick={handleThemeToggle}>
-                {isDarkMode ? '☀️' : '🌙'}
-            </button>
+            {!hostLocale && (
+                <select
+                    className="locale-select"
+                    value={locale}
+                    onChange={handleLocaleChange}
+                    aria-label={t('locale.label')}
+                >
+                    {LOCALE_IDS.map(id => (
+                        <option key={id} value={id}>{LOCALES[id].label}</option>
+                    ))}
+                </select>
+            )}
+            {!theme && (
+                <button className="theme-toggle-button" onClick={handleThemeToggle} aria-label={t('theme.toggle')}>
+                    {isDarkMode ? '☀️' : '🌙'}
+                </button>
+            )}
 
-            <h1>GIF 익스트림 압축기 (멀티 파일 지원)</h1>
+            <h1>{t('app.title')}</h1>
+            <ConnectionStatus status={serverStatus} onRetry={handleRetryProbe} />
 
             <div className="section">
-                <h2>1. GIF 파일 업로드</h2>
+                <h2>{t('upload.title')}</h2>
                 <label
                     htmlFor="hidden-file-input"
-                    className={`custom-file-input-label ${isDragActive ? 'drag-active' : ''}`}
+                    className={`custom-file-input-label ${isDragActive ? 'drag-active' : ''} ${uploadBlockReason ? 'disabled' : ''}`}
                     onDragEnter={handleDragEnter}
                     onDragOver={handleDragOver}
                     onDragLeave={handleDragLeave}
@@ -405,8 +1395,8 @@ const GifOptimizer: React.FC = () => {
                         <p>
                             <strong>
                                 {files.length > 0
-                                    ? `${files.length}개의 파일 선택됨 (${formatBytes(totalOriginalSize)})`
-                                    : '여기에 파일을 끌어다 놓거나'}
+                                    ? t('upload.selected', { count: files.length, size: formatBytes(totalOriginalSize) })
+                                    : t('upload.dropHere')}
                             </strong>
                         </p>
                     </div>
@@ -414,78 +1404,220 @@ const GifOptimizer: React.FC = () => {
                 <input
                     id="hidden-file-input"
                     type="file"
-                    accept=".gif"
+                    accept={allowVideo ? `.gif,image/gif,${VIDEO_ACCEPT}` : '.gif,image/gif'}
                     onChange={handleFileChange}
                     className="hidden-input"
+                    disabled={!!uploadBlockReason}
                     multiple
                 />
+                {uploadBlockReason && <p className="error-text">🚨 {uploadBlockReason}</p>}
+                <p className="control-hint">{t('upload.hint')}</p>
+                {allowSessionPersistence && (
+                    <div className="session-bar">
+                        <label className="manifest-toggle">
+                            <input
+                                type="checkbox"
+                                checked={persistSession}
+                                onChange={handlePersistSessionChange}
+                            />
+                            {t('session.persist')}
+                        </label>
+                        {storageUsage && (
+                            <span className="session-usage">
+                                {t('session.usage', { usage: formatBytes(storageUsage.usage) })}
+                                {storageUsage.quota > 0 && ` / ${formatBytes(storageUsage.quota)}`}
+                            </span>
+                        )}
+                        <button onClick={handleClearSavedSession} className="reset-settings-button">
+                            {t('session.clear')}
+                        </button>
+                    </div>
+                )}
             </div>
 
             {files.length > 0 && (
                 <div className="section">
-                    <h2>2. 최적화 설정 및 실행</h2>
+                    <h2>{t('settings.title')}</h2>
+                    <div className="mode-toggle" role="radiogroup">
+                        <button
+                            role="radio"
+                            aria-checked={mode === 'manual'}
+                            className={`mode-toggle-button ${mode === 'manual' ? 'active' : ''}`}
+                            onClick={() => setMode('manual')}
+                            disabled={isOptimizing}
+                        >
+                            {t('mode.manual')}
+                        </button>
+                        <button
+                            role="radio"
+                            aria-checked={mode === 'targetSize'}
+                            className={`mode-toggle-button ${mode === 'targetSize' ? 'active' : ''}`}
+                            onClick={() => setMode('targetSize')}
+                            disabled={isOptimizing}
+                        >
+                            {t('mode.targetSize')}
+                        </button>
+                    </div>
+
+                    {mode === 'manual' && (
+                        <PresetManager
+                            settings={settings}
+                            onApply={setSettings}
+                            onNotify={setGlobalError}
+                            disabled={isOptimizing}
+                        />
+                    )}
+
+                    <FormatControls
+                        settings={settings}
+                        onChange={handleTransformChange}
+                        showQualityOptions={mode === 'manual'}
+                        availableFormats={availableFormats}
+                        ranges={parameterRanges}
+                        disabled={isOptimizing}
+                    />
+
+                    {mode === 'targetSize' ? (
+                    <div className="controls-grid">
+                        <div className="control-group">
+                            <label htmlFor="target-size">{t('target.label', { size: formatBytes(targetBytes) })}</label>
+                            <input
+                                id="target-size"
+                                type="number"
+                                min="0.01"
+                                step="0.1"
+                                defaultValue={(targetBytes / MB).toString()}
+                                onChange={handleTargetSizeChange}
+                                className="number-input"
+                            />
+                            <p className="control-hint">{t('target.hint')}</p>
+                        </div>
+                    </div>
+                    ) : settings.format === 'gif' && (
                     <div className="controls-grid">
                         <div className="control-group">
-                            <label htmlFor="lossy">손실압축 값 (0-300): **{settings.lossy}**</label>
+                            <label htmlFor="lossy">
+                                {t('settings.lossy', { min: parameterRanges.lossy.min, max: parameterRanges.lossy.max, value: settings.lossy })}
+                            </label>
                             <input
                                 id="lossy"
                                 type="range"
-                                min="0"
-                                max="300"
+                                min={parameterRanges.lossy.min}
+                                max={parameterRanges.lossy.max}
                                 step="10"
                                 value={settings.lossy}
-                                onChange={handleSettingChange('lossy', 0, 300)}
+                                onChange={handleSettingChange('lossy', parameterRanges.lossy.min, parameterRanges.lossy.max)}
                                 className="range-input"
                             />
                             <input
                                 type="number"
-                                min="0"
-                                max="300"
+                                min={parameterRanges.lossy.min}
+                                max={parameterRanges.lossy.max}
                                 value={settings.lossy}
-                                onChange={handleSettingChange('lossy', 0, 300)}
+                                onChange={handleSettingChange('lossy', parameterRanges.lossy.min, parameterRanges.lossy.max)}
                                 className="number-input"
                             />
                         </div>
 
                         <div className="control-group">
-                            <label htmlFor="colors">색상수 (2-256): **{settings.colors}**</label>
+                            <label htmlFor="colors">
+                                {t('settings.colors', { min: parameterRanges.colors.min, max: parameterRanges.colors.max, value: settings.colors })}
+                            </label>
                             <input
                                 id="colors"
                                 type="range"
-                                min="2"
-                                max="256"
+                                min={parameterRanges.colors.min}
+                                max={parameterRanges.colors.max}
                                 step="2"
                                 value={settings.colors}
-                                onChange={handleSettingChange('colors', 2, 256)}
+                                onChange={handleSettingChange('colors', parameterRanges.colors.min, parameterRanges.colors.max)}
                                 className="range-input"
                             />
                             <input
                                 type="number"
-                                min="2"
-                                max="256"
+                                min={parameterRanges.colors.min}
+                                max={parameterRanges.colors.max}
                                 value={settings.colors}
-                                onChange={handleSettingChange('colors', 2, 256)}
+                                onChange={handleSettingChange('colors', parameterRanges.colors.min, parameterRanges.colors.max)}
                                 className="number-input"
                             />
                         </div>
                     </div>
+                    )}
+
+                    <TransformControls
+                        settings={settings}
+                        onChange={handleTransformChange}
+                        disabled={isOptimizing}
+                    />
+
+                    {hasVideoFiles && (
+                        <VideoControls
+                            settings={settings.video}
+                            onChange={handleVideoSettingChange}
+                            disabled={isOptimizing}
+                        />
+                    )}
+
+                    {mode === 'manual' && overriddenCount > 0 && (
+                        <div className="override-notice">
+                            <span>{t('settings.overridden', { count: overriddenCount })}</span>
+                            <button onClick={handleResetAllFileSettings} disabled={isOptimizing} className="reset-settings-button">
+                                {t('settings.resetAllOverrides')}
+                            </button>
+                        </div>
+                    )}
+
+                    <div className="queue-settings">
+                        <label htmlFor="quality-threshold">{t('settings.qualityThreshold')}</label>
+                        <input
+                            id="quality-threshold"
+                            type="number"
+                            min="0"
+                            max="1"
+                            step="0.01"
+                            value={qualityThreshold}
+                            onChange={e => setQualityThreshold(Math.max(0, Math.min(1, parseFloat(e.target.value) || 0)))}
+                            className="number-input"
+                        />
+                    </div>
+
+                    <div className="queue-settings">
+                        <label htmlFor="concurrency">{t('settings.concurrency')}</label>
+                        <input
+                            id="concurrency"
+                            type="number"
+                            min="1"
+                            max="6"
+                            value={concurrency}
+                            onChange={e => setConcurrency(Math.max(1, Math.min(6, parseInt(e.target.value) || 1)))}
+                            disabled={isOptimizing}
+                            className="number-input"
+                        />
+                        {mode === 'manual' && serverStatus.state === 'online' && serverStatus.capabilities.jobs && (
+                            <p className="control-hint">{t('settings.concurrencyJobHint')}</p>
+                        )}
+                    </div>
 
                     <button
                         onClick={handleOptimizeAll}
-                        disabled={isOptimizing}
+                        disabled={isOptimizing || !!uploadBlockReason}
                         className="optimize-button"
                     >
                         {isOptimizing
-                            ? `변환 중... (총 ${files.length}개 파일)`
-                            : `🔥 ${files.length}개 파일 최적화 시작`}
+                            ? t('optimize.running', { done: completedCount, total: files.length })
+                            : t('optimize.start', { count: files.length })}
                     </button>
+                    {isOptimizing && (
+                        <button onClick={handleCancelAll} className="cancel-all-button">
+                            {t('optimize.cancelAll')}
+                        </button>
+                    )}
 
                     <div className="guidance-text">
-                        <div className="guidance-title">★ 중요 ★</div>
+                        <div className="guidance-title">{t('guidance.title')}</div>
                         <div className="guidance-body">
-                            <p><code>손실압축 값</code>이 클수록 압축이 강해져 파일 크기는 더 작아지지만 화질 저하가 발생합니다.</p>
-                            <p><code>색상수</code>가 줄어들수록 파일 크기가 작아지지만 색상 계조나 표현이 손실될 수 있습니다.</p>
-                            <p>최적의 결과를 얻으려면 다양한 <code>손실압축 값</code>과 <code>색상수</code> 조합을 시험해 보세요.</p>
+                            {GUIDANCE_KEYS.map(key => <p key={key}>{renderCodeMarkup(t(key))}</p>)}
                         </div>
                     </div>
 
@@ -496,90 +1628,462 @@ const GifOptimizer: React.FC = () => {
 
             {files.length > 0 && (
                 <div className="section">
-                    <h2>3. 파일별 결과 및 미리보기</h2>
+                    <h2>{t('results.title')}</h2>
 
                     <div className="total-stats-bar">
                         <p>
-                            총 파일 수: <strong>{files.length}</strong> | 총 절감률:{' '}
+                            {t('results.totalFiles')} <strong>{files.length}</strong> | {t('results.totalReduction')}{' '}
                             <strong className="reduction-rate">
-                                {totalReductionRate.toFixed(2)} %
+                                {formatPercent(totalReductionRate, 2)}
                             </strong>{' '}
                             ({formatBytes(totalOriginalSize)} → {formatBytes(totalOptimizedSize)})
                         </p>
+                        {(reportSummary.reduction || reportSummary.failedCount > 0) && (
+                            <p className="reduction-stats">
+                                {reportSummary.reduction && t('results.reductionStats', {
+                                    min: formatPercent(reportSummary.reduction.min),
+                                    median: formatPercent(reportSummary.reduction.median),
+                                    max: formatPercent(reportSummary.reduction.max),
+                                })}
+                                {reportSummary.reduction && reportSummary.failedCount > 0 && ' · '}
+                                {reportSummary.failedCount > 0 && (
+                                    <span className="failed-count">{t('results.failedCount', { count: reportSummary.failedCount })}</span>
+                                )}
+                            </p>
+                        )}
                         <div className="total-actions">
+                            <label className="manifest-toggle">
+                                <input
+                                    type="checkbox"
+                                    checked={includeManifest}
+                                    onChange={e => setIncludeManifest(e.target.checked)}
+                                />
+                                {t('results.includeManifest')}
+                            </label>
                             <button
                                 onClick={handleDownloadAll}
-                                disabled={isOptimizing || files.every(f => !f.optimizedUrl)}
+                                disabled={isOptimizing || zipProgress !== null || files.every(f => f.variants.length === 0)}
                                 className="download-all-button"
                             >
-                                ⬇️ 전체 다운로드 ({files.filter(f => f.optimizedUrl).length}개)
+                                {zipProgress !== null
+                                    ? t('results.zipProgress', { percent: formatPercent(zipProgress * 100, 0) })
+                                    : t('results.downloadZip', { count: files.filter(f => f.variants.length > 0).length })}
                             </button>
                             <button
                                 onClick={handleClearAll}
                                 disabled={files.length === 0}
                                 className="clear-all-button"
                             >
-                                🗑️ 모두 삭제
+                                {t('results.clearAll')}
                             </button>
                         </div>
+                        <div className="report-actions" title={t('results.exportHint')}>
+                            <button onClick={() => handleExportReport('csv')} className="reset-settings-button">
+                                {t('results.exportCsv')}
+                            </button>
+                            <button onClick={() => handleExportReport('json')} className="reset-settings-button">
+                                {t('results.exportJson')}
+                            </button>
+                            <button
+                                onClick={() => setShowDistribution(prev => !prev)}
+                                aria-pressed={showDistribution}
+                                className="reset-settings-button"
+                            >
+                                {showDistribution ? t('results.hideDistribution') : t('results.showDistribution')}
+                            </button>
+                        </div>
+                        {showDistribution && <SizeDistributionChart files={files} />}
                     </div>
 
-                    <div className="file-list-grid">
-                        {files.map(fileState => (
+                    <FileListToolbar
+                        sortKey={sortKey}
+                        sortDirection={sortDirection}
+                        statusFilter={statusFilter}
+                        statusCounts={statusCounts}
+                        visibleIds={visibleIds}
+                        selectedIds={selectedIds}
+                        onSortKeyChange={setSortKey}
+                        onSortDirectionChange={setSortDirection}
+                        onStatusFilterChange={setStatusFilter}
+                        onSelectionChange={setSelectedIds}
+                        onOptimizeSelected={handleOptimizeSelected}
+                        onRemoveSelected={handleRemoveSelected}
+                        disabled={isOptimizing || !!uploadBlockReason}
+                    />
+                    {visibleFiles.length === 0 && <p className="file-list-empty">{t('list.empty')}</p>}
+
+                    {/* 파일이 수백 개여도 화면 근처의 카드만 그림 */}
+                    <FileListGrid
+                        files={visibleFiles}
+                        renderCard={fileState => {
+                            const viewedVariant = getViewedVariant(fileState);
+                            const chosenVariant = getChosenVariant(fileState);
+                            const fileSettings = getEffectiveSettings(fileState, settings);
+                            const { originalInfo } = fileState;
+                            const outputSize = originalInfo ? getOutputSize(originalInfo, fileSettings) : null;
+                            const outputTiming = originalInfo ? getOutputTiming(originalInfo, fileSettings) : null;
+                            const isCropping = croppingFileId === fileState.id && !isOptimizing;
+                            const isVideo = isVideoFile(fileState.file);
+                            const isSelected = selectedIds.has(fileState.id);
+                            return (
                             <div
                                 key={fileState.id}
-                                className={`file-card ${fileState.optimizedUrl ? 'optimized' : ''} ${fileState.error ? 'error' : ''}`}
+                                className={`file-card ${viewedVariant ? 'optimized' : ''} ${fileState.error ? 'error' : ''} ${fileState.settingsOverride ? 'overridden' : ''} ${isSelected ? 'selected' : ''}`}
                             >
-                                <h3>{fileState.file.name}</h3>
+                                <h3>
+                                    <input
+                                        type="checkbox"
+                                        checked={isSelected}
+                                        onChange={() => handleToggleSelected(fileState.id)}
+                                        className="file-select-checkbox"
+                                        aria-label={t('file.select', { name: fileState.relativePath })}
+                                    />
+                                    {fileState.relativePath}
+                                    {mode === 'manual' && fileState.settingsOverride && (
+                                        <span className="override-badge" title={t('file.overrideBadgeTitle')}>{t('file.overrideBadge')}</span>
+                                    )}
+                                </h3>
+
+                                {mode === 'manual' && (
+                                    <div className="file-settings">
+                                        <label>
+                                            {t('file.format')}
+                                            <select
+                                                value={fileSettings.format}
+                                                onChange={e => handleFileFormatChange(fileState.id, e.target.value as OutputFormat)}
+                                                disabled={isOptimizing}
+                                                className="file-format-select"
+                                            >
+                                                {OUTPUT_FORMAT_IDS.map(format => (
+                                                    <option key={format} value={format} disabled={!availableFormats.includes(format)}>
+                                                        {OUTPUT_FORMATS[format].label}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                        {fileSettings.format === 'gif' && (
+                                            <>
+                                                <label>
+                                                    lossy
+                                                    <input
+                                                        type="number"
+                                                        min={parameterRanges.lossy.min}
+                                                        max={parameterRanges.lossy.max}
+                                                        value={fileSettings.lossy}
+                                                        onChange={handleFileSettingChange(fileState.id, 'lossy', parameterRanges.lossy.min, parameterRanges.lossy.max)}
+                                                        disabled={isOptimizing}
+                                                        className="number-input"
+                                                    />
+                                                </label>
+                                                <label>
+                                                    colors
+                                                    <input
+                                                        type="number"
+                                                        min={parameterRanges.colors.min}
+                                                        max={parameterRanges.colors.max}
+                                                        value={fileSettings.colors}
+                                                        onChange={handleFileSettingChange(fileState.id, 'colors', parameterRanges.colors.min, parameterRanges.colors.max)}
+                                                        disabled={isOptimizing}
+                                                        className="number-input"
+                                                    />
+                                                </label>
+                                            </>
+                                        )}
+                                        {fileSettings.format === 'webp' && (
+                                            <label>
+                                                quality
+                                                <input
+                                                    type="number"
+                                                    min={parameterRanges.webpQuality.min}
+                                                    max={parameterRanges.webpQuality.max}
+                                                    value={fileSettings.webpQuality}
+                                                    onChange={handleFileSettingChange(fileState.id, 'webpQuality', parameterRanges.webpQuality.min, parameterRanges.webpQuality.max)}
+                                                    disabled={isOptimizing}
+                                                    className="number-input"
+                                                />
+                                            </label>
+                                        )}
+                                        <div className="file-settings-actions">
+                                            <button
+                                                onClick={() => handleApplySettingsToAll(fileState.id)}
+                                                disabled={isOptimizing}
+                                                className="reset-settings-button"
+                                            >
+                                                {t('file.applyToAll')}
+                                            </button>
+                                            <button
+                                                onClick={() => handleResetFileSettings(fileState.id)}
+                                                disabled={isOptimizing || !fileState.settingsOverride}
+                                                className="reset-settings-button"
+                                            >
+                                                {t('file.resetSettings')}
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {mode === 'targetSize' && (
+                                    <div className="file-target-row">
+                                        <label htmlFor={`target-${fileState.id}`}>{t('file.targetSize')}</label>
+                                        <input
+                                            id={`target-${fileState.id}`}
+                                            type="number"
+                                            min="0.01"
+                                            step="0.1"
+                                            placeholder={(targetBytes / MB).toString()}
+                                            defaultValue={fileState.targetBytes ? (fileState.targetBytes / MB).toString() : ''}
+                                            onChange={handleFileTargetChange(fileState.id)}
+                                            disabled={isOptimizing}
+                                            className="number-input"
+                                        />
+                                    </div>
+                                )}
 
                                 <div className="preview-comparison">
                                     <div className="preview-box">
-                                        <h4>원본 ({formatBytes(fileState.originalSize)})</h4>
-                                        <img src={fileState.originalUrl} alt="Original GIF" className="gif-image" />
+                                        <h4>{t('file.originalSize', { size: formatBytes(fileState.originalSize) })}</h4>
+                                        {isVideo ? (
+                                            <>
+                                                <video src={fileState.originalUrl} className="gif-image" controls muted loop playsInline />
+                                                <VideoClipRange
+                                                    info={fileState.videoInfo}
+                                                    settings={fileSettings.video}
+                                                    onChange={clip => handleFileEditChange(fileState.id, { clip })}
+                                                    disabled={isOptimizing}
+                                                />
+                                            </>
+                                        ) : originalInfo ? (
+                                            <>
+                                                <CropSelector
+                                                    src={fileState.originalUrl}
+                                                    alt={t('file.originalAlt')}
+                                                    imageWidth={originalInfo.width}
+                                                    imageHeight={originalInfo.height}
+                                                    crop={fileSettings.crop}
+                                                    isEditing={isCropping}
+                                                    onChange={crop => handleFileEditChange(fileState.id, { crop })}
+                                                />
+                                                {isCropping && <p className="control-hint">{t('file.cropHint')}</p>}
+                                                <div className="crop-actions">
+                                                    <button
+                                                        onClick={() => setCroppingFileId(isCropping ? null : fileState.id)}
+                                                        disabled={isOptimizing}
+                                                        className="reset-settings-button"
+                                                    >
+                                                        {isCropping ? t('file.cropDone') : t('file.cropStart')}
+                                                    </button>
+                                                    {fileSettings.crop && (
+                                                        <button
+                                                            onClick={() => handleFileEditChange(fileState.id, { crop: null })}
+                                                            disabled={isOptimizing}
+                                                            className="reset-settings-button"
+                                                        >
+                                                            {t('file.cropClear')}
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            </>
+                                        ) : (
+                                            <img src={fileState.originalUrl} alt={t('file.originalAlt')} className="gif-image" />
+                                        )}
                                     </div>
 
                                     <div className="preview-box">
-                                        <h4>최적화 결과</h4>
+                                        <h4>{t('common.result')}</h4>
                                         {isOptimizing && fileState.isProcessing ? (
                                             <div className="loading-overlay active">
                                                 <div className="spinner"></div>
-                                                <p>변환 중...</p>
+                                                <p>{formatProgress(fileState.progress, i18n)}</p>
+                                                {fileState.progress?.phase === 'uploading' && (
+                                                    <div className="progress-bar">
+                                                        <div
+                                                            className="progress-bar-fill"
+                                                            style={{ width: `${Math.round(fileState.progress.uploaded * 100)}%` }}
+                                                        />
+                                                    </div>
+                                                )}
                                             </div>
-                                        ) : fileState.optimizedUrl ? (
+                                        ) : viewedVariant ? (
                                             <>
-                                                <img src={fileState.optimizedUrl} alt="Optimized GIF" className="gif-image" />
+                                                <img src={viewedVariant.url} alt={t('file.optimizedAlt')} className="gif-image" />
                                                 <p className="result-stats">
-                                                    <strong>{formatBytes(fileState.optimizedSize)}</strong>{' '}
-                                                    (<span className="reduction-rate">{fileState.reductionRate.toFixed(2)} % 절감</span>)
+                                                    <strong>{formatBytes(viewedVariant.size)}</strong>{' '}
+                                                    (<span className="reduction-rate">{t('common.reduction', { percent: formatPercent(viewedVariant.reductionRate, 2) })}</span>)
+                                                    {viewedVariant.info && (
+                                                        <span className="result-dimensions">
+                                                            {viewedVariant.info.width}×{viewedVariant.info.height} ·{' '}
+                                                            {formatFrameRate(getFrameRate(viewedVariant.info.frames.length, viewedVariant.info.duration))}
+                                                        </span>
+                                                    )}
                                                 </p>
+                                                {viewedVariant.quality ? (
+                                                    <div className={`quality-stats ${isBelowQuality(viewedVariant.quality, qualityThreshold) ? 'below-threshold' : ''}`}>
+                                                        <span>
+                                                            {t('file.psnr', {
+                                                                value: formatPsnr(viewedVariant.quality.averagePsnr),
+                                                                worst: formatPsnr(viewedVariant.quality.worstPsnr),
+                                                            })}
+                                                        </span>
+                                                        <span>
+                                                            {t('file.ssim', {
+                                                                value: viewedVariant.quality.averageSsim.toFixed(3),
+                                                                worst: viewedVariant.quality.worstSsim.toFixed(3),
+                                                            })}
+                                                        </span>
+                                                        {isBelowQuality(viewedVariant.quality, qualityThreshold) && (
+                                                            <strong>{t('file.belowThreshold', { time: formatSeconds(viewedVariant.quality.worstFrameTime) })}</strong>
+                                                        )}
+                                                    </div>
+                                                ) : viewedVariant.isMeasuringQuality && (
+                                                    <p className="quality-stats measuring">{t('file.measuringQuality')}</p>
+                                                )}
+                                                {fileState.error && <p className="error-text small-error">⚠️ {fileState.error}</p>}
                                                 <button
-                                                    onClick={handleDownload(fileState.optimizedUrl, fileState.file.name)}
+                                                    onClick={handleDownload(chosenVariant, fileState.file.name)}
                                                     className="download-single-button"
                                                 >
-                                                    ⬇️ 다운로드
+                                                    {fileState.chosenVariantId !== null ? t('file.downloadPinned') : t('file.download')}
+                                                </button>
+                                                <button
+                                                    onClick={() => setComparisonFileId(fileState.id)}
+                                                    disabled={isVideo || viewedVariant.format !== 'gif'}
+                                                    className="compare-button"
+                                                    title={isVideo || viewedVariant.format !== 'gif' ? t('file.compareUnsupported') : undefined}
+                                                >
+                                                    {t('file.compare')}
                                                 </button>
                                             </>
                                         ) : fileState.error ? (
                                             <p className="error-text small-error">⚠️ {fileState.error}</p>
                                         ) : (
-                                            <p className="placeholder-text">최적화 대기 중</p>
+                                            <p className="placeholder-text">{t('file.waiting')}</p>
                                         )}
                                     </div>
+                                {originalInfo && outputSize && outputTiming && (
+                                    <p className="output-summary">
+                                        📐 {originalInfo.width}×{originalInfo.height} ·{' '}
+                                        {formatFrameRate(getFrameRate(originalInfo.frames.length, originalInfo.duration))}
+                                        {' → '}
+                                        <strong>
+                                            {outputSize.width}×{outputSize.height} · {formatFrameRate(outputTiming.frameRate)}
+                                        </strong>
+                                        {' '}{t('file.outputFrames', { count: outputTiming.frameCount, duration: formatSeconds(outputTiming.duration) })}
+                                    </p>
+                                )}
+                                {originalInfo && timelineFileId === fileState.id && (
+                                    <TimelineEditor
+                                        originalUrl={fileState.originalUrl}
+                                        info={originalInfo}
+                                        timeline={fileSettings.timeline}
+                                        onChange={timeline => handleFileEditChange(fileState.id, { timeline })}
+                                        disabled={isOptimizing}
+                                    />
+                                )}
+                                <GifInfoTable original={fileState.originalInfo} optimized={viewedVariant?.info ?? null} />
+                                {fileState.variants.length > 0 && (
+                                    <FormatSizes
+                                        variants={fileState.variants}
+                                        chosenVariantId={fileState.chosenVariantId}
+                                        onSelect={variantId => handleSelectFormatVariant(fileState.id, variantId)}
+                                        onConvertAll={() => handleConvertAllFormats(fileState)}
+                                        isConverting={convertingFormatIds.has(fileState.id)}
+                                        disabled={isOptimizing}
+                                    />
+                                )}
+                                {fileState.variants.length > 1 && (
+                                    <VariantPicker
+                                        variants={fileState.variants}
+                                        viewedVariantId={viewedVariant?.id ?? null}
+                                        chosenVariantId={chosenVariant?.id ?? null}
+                                        isPinned={fileState.chosenVariantId !== null}
+                                        onView={variantId => handleViewVariant(fileState.id, variantId)}
+                                        onChoose={variantId => handleChooseVariant(fileState.id, variantId)}
+                                        onDelete={variantId => handleDeleteVariant(fileState.id, variantId)}
+                                    />
+                                )}
+                                {fileState.targetSearch && (
+                                    <div className={`target-search-summary ${fileState.targetSearch.status}`}>
+                                        <p>
+                                            {t('file.target', { size: formatBytes(fileState.targetSearch.targetBytes) })}
+                                            {fileState.targetSearch.settings && (
+                                                <> → {t('file.appliedSettings')} <strong>{describeQuality(fileState.targetSearch.settings, t)}</strong></>
+                                            )}
+                                            {fileState.targetSearch.status === 'unreachable' && <> → <strong>{t('file.targetUnreachable')}</strong></>}
+                                        </p>
+                                        <ol className="target-attempts">
+                                            {fileState.targetSearch.attempts.map((attempt, index) => (
+                                                <li key={index} className={attempt.fits ? 'fits' : 'exceeds'}>
+                                                    {describeQuality(attempt.settings, t)}: {formatBytes(attempt.size)} {attempt.fits ? '✅' : '❌'}
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    </div>
+                                )}
                                 <div className="file-actions">
+                                    <button
+                                        onClick={() => setSweepFileId(fileState.id)}
+                                        disabled={isOptimizing}
+                                        className="remove-file-button sweep-button"
+                                    >
+                                        {t('file.sweep')}
+                                    </button>
+                                    {!isVideo && (
+                                        <button
+                                            onClick={() => setTimelineFileId(timelineFileId === fileState.id ? null : fileState.id)}
+                                            disabled={!originalInfo}
+                                            className={`remove-file-button timeline-button ${fileSettings.timeline ? 'active' : ''}`}
+                                        >
+                                            {timelineFileId === fileState.id ? t('file.timelineClose') : t('file.timelineOpen')}
+                                        </button>
+                                    )}
+                                    {fileState.isProcessing && (
+                                        <button
+                                            onClick={() => handleCancelFile(fileState.id)}
+                                            className="remove-file-button"
+                                        >
+                                            {t('file.cancel')}
+                                        </button>
+                                    )}
                                     <button
                                         onClick={() => handleRemoveFile(fileState.id)}
                                         className="remove-file-button"
                                     >
-                                        🗑️ 삭제
+                                        {t('file.remove')}
                                     </button>
                                 </div>
                                 </div>
                             </div>
-                        ))}
-                    </div>
+                            );
+                        }}
+                    />
                 </div>
             )}
+
+            {/* 스윕은 GIF의 lossy/colors 조합을 비교하므로 출력 형식은 GIF로 고정 */}
+            {sweepFile && (
+                <SweepPanel
+                    title={sweepFile.file.name}
+                    originalUrl={sweepFile.originalUrl}
+                    originalSize={sweepFile.originalSize}
+                    baseSettings={{ ...getEffectiveSettings(sweepFile, settings), format: 'gif' }}
+                    runOptimization={runSweepOptimization(sweepFile)}
+                    onKeep={handleKeepSweepPoint(sweepFile)}
+                    onClose={() => setSweepFileId(null)}
+                />
+            )}
+
+            {comparisonFile && comparisonVariant && (
+                <ComparisonViewer
+                    title={comparisonFile.file.name}
+                    originalUrl={comparisonFile.originalUrl}
+                    optimizedUrl={comparisonVariant.url}
+                    speed={comparisonVariant.settings?.speed}
+                    onClose={() => setComparisonFileId(null)}
+                />
+            )}
+        </div>
         </div>
+        </I18nContext.Provider>
     );
 };
 
@@ -0,0 +1,183 @@
+import React, {
+    useState,
+    useCallback,
+    useMemo,
+    useRef
+} from 'react';
+import type { ChangeEvent } from 'react';
+import type { OptimizationSettings } from './types';
+import {
+    BUILT_IN_PRESETS,
+    loadUserPresets,
+    saveUserPresets,
+    exportPresets,
+    parsePresetsJson,
+    mergePresets,
+    buildShareUrl,
+} from './lib/presets';
+import type { OptimizationPreset } from './lib/presets';
+import { downloadBlob } from './lib/download';
+import { OUTPUT_FORMATS, describeQuality } from './lib/outputFormats';
+import { describeError, useI18n } from './lib/i18n';
+import type { Translate } from './lib/i18n';
+
+interface PresetManagerProps {
+    settings: OptimizationSettings;
+    onApply: (settings: OptimizationSettings) => void;
+    // 결과/오류 안내를 토스트로 표시
+    onNotify: (message: string) => void;
+    disabled?: boolean;
+}
+
+// 자르기 영역, 타임라인 편집, 영상 구간은 프리셋에 담지 않으므로 비교에서 제외
+const isSameSettings = (a: OptimizationSettings, b: OptimizationSettings) => (
+    a.format === b.format && a.lossy === b.lossy && a.colors === b.colors
+    && a.webpQuality === b.webpQuality && a.webpLossless === b.webpLossless && a.apngColors === b.apngColors
+    && a.frameStep === b.frameStep
+    && a.width === b.width && a.height === b.height && a.speed === b.speed
+    && a.video.fps === b.video.fps && a.video.width === b.video.width && a.video.paletteMode === b.video.paletteMode
+);
+
+// 목록에 표시할 설정 요약 (예: "GIF · lossy 200 / colors 64")
+const describeSettings = (settings: OptimizationSettings, t: Translate): string => (
+    `${OUTPUT_FORMATS[settings.format].label} · ${describeQuality(settings, t)}`
+);
+
+/**
+ * 이름 붙인 프리셋을 고르고 저장/삭제/내보내기/가져오기하며, 현재 설정을 공유 링크로 복사합니다.
+ * 사용자 프리셋은 localStorage에 보관되고 기본 프리셋은 수정할 수 없습니다.
+ */
+const PresetManager: React.FC<PresetManagerProps> = ({ settings, onApply, onNotify, disabled = false }) => {
+    const { t } = useI18n();
+    const [userPresets, setUserPresets] = useState<OptimizationPreset[]>(loadUserPresets);
+    const [newPresetName, setNewPresetName] = useState<string>('');
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const updateUserPresets = useCallback((next: OptimizationPreset[]) => {
+        setUserPresets(next);
+        saveUserPresets(next);
+    }, []);
+
+    // 현재 설정과 일치하는 프리셋 (사용자 프리셋 우선)
+    const activePreset = useMemo(() => (
+        [...userPresets, ...BUILT_IN_PRESETS].find(p => isSameSettings(p.settings, settings)) ?? null
+    ), [userPresets, settings]);
+    const isUserPreset = activePreset !== null && userPresets.includes(activePreset);
+
+    const handleSelect = useCallback((event: ChangeEvent<HTMLSelectElement>) => {
+        const preset = [...userPresets, ...BUILT_IN_PRESETS].find(p => p.name === event.target.value);
+        if (preset) onApply(preset.settings);
+    }, [userPresets, onApply]);
+
+    const handleSave = useCallback(() => {
+        const name = newPresetName.trim();
+        if (!name) return;
+        if (BUILT_IN_PRESETS.some(p => p.name === name)) {
+            onNotify(t('preset.reservedName', { name }));
+            return;
+        }
+        updateUserPresets(mergePresets(userPresets, [{ name, settings }]));
+        setNewPresetName('');
+        onNotify(t('preset.saved', { name }));
+    }, [newPresetName, settings, userPresets, updateUserPresets, onNotify, t]);
+
+    const handleDelete = useCallback(() => {
+        if (!activePreset || !isUserPreset) return;
+        updateUserPresets(userPresets.filter(p => p !== activePreset));
+        onNotify(t('preset.deleted', { name: activePreset.name }));
+    }, [activePreset, isUserPreset, userPresets, updateUserPresets, onNotify, t]);
+
+    const handleExport = useCallback(() => {
+        downloadBlob(new Blob([exportPresets(userPresets)], { type: 'application/json' }), 'gif-optimizer-presets.json');
+    }, [userPresets]);
+
+    const handleImport = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parsePresetsJson(await file.text())
+                .filter(p => !BUILT_IN_PRESETS.some(builtIn => builtIn.name === p.name));
+            updateUserPresets(mergePresets(userPresets, imported));
+            onNotify(t('preset.imported', { count: imported.length }));
+        } catch (err) {
+            onNotify(t('preset.importFailed', { error: describeError(err, t) }));
+        }
+    }, [userPresets, updateUserPresets, onNotify, t]);
+
+    const handleCopyLink = useCallback(async () => {
+        const url = buildShareUrl(settings, activePreset?.name);
+        try {
+            await navigator.clipboard.writeText(url);
+            onNotify(t('preset.linkCopied'));
+        } catch {
+            onNotify(t('preset.link', { url }));
+        }
+    }, [settings, activePreset, onNotify, t]);
+
+    return (
+        <div className="preset-manager">
+            <div className="preset-row">
+                <label htmlFor="preset-select">{t('preset.label')}</label>
+                <select
+                    id="preset-select"
+                    value={activePreset?.name ?? ''}
+                    onChange={handleSelect}
+                    disabled={disabled}
+                    className="preset-select"
+                >
+                    <option value="" disabled>{t('preset.custom', { settings: describeSettings(settings, t) })}</option>
+                    <optgroup label={t('preset.builtIn')}>
+                        {BUILT_IN_PRESETS.map(p => (
+                            <option key={p.name} value={p.name}>{p.labelKey ? t(p.labelKey) : p.name} ({describeSettings(p.settings, t)})</option>
+                        ))}
+                    </optgroup>
+                    {userPresets.length > 0 && (
+                        <optgroup label={t('preset.user')}>
+                            {userPresets.map(p => (
+                                <option key={p.name} value={p.name}>{p.name} ({describeSettings(p.settings, t)})</option>
+                            ))}
+                        </optgroup>
+                    )}
+                </select>
+                <button onClick={handleDelete} disabled={disabled || !isUserPreset} className="reset-settings-button">
+                    {t('preset.delete')}
+                </button>
+            </div>
+            <div className="preset-row">
+                <input
+                    type="text"
+                    value={newPresetName}
+                    onChange={e => setNewPresetName(e.target.value)}
+                    onKeyDown={e => {
+                        if (e.key === 'Enter') handleSave();
+                    }}
+                    placeholder={t('preset.namePlaceholder')}
+                    disabled={disabled}
+                    className="preset-name-input"
+                />
+                <button onClick={handleSave} disabled={disabled || !newPresetName.trim()} className="reset-settings-button">
+                    {t('preset.save')}
+                </button>
+                <button onClick={handleExport} disabled={userPresets.length === 0} className="reset-settings-button">
+                    {t('preset.export')}
+                </button>
+                <button onClick={() => importInputRef.current?.click()} disabled={disabled} className="reset-settings-button">
+                    {t('preset.import')}
+                </button>
+                <button onClick={handleCopyLink} className="reset-settings-button">
+                    {t('preset.copyLink')}
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleImport}
+                    className="hidden-input"
+                />
+            </div>
+        </div>
+    );
+};
+
+export default PresetManager;
@@ -0,0 +1,77 @@
+import React, { useMemo } from 'react';
+import type { GifFileState } from './types';
+import { getChosenVariant } from './lib/variants';
+import { useI18n } from './lib/i18n';
+
+interface SizeDistributionChartProps {
+    files: GifFileState[];
+}
+
+// 막대 하나의 너비를 1로 두고 viewBox를 늘려 파일 수와 관계없이 같은 너비에 그림
+const CHART_HEIGHT = 100;
+const BAR_GAP = 0.2;
+
+/**
+ * 파일별 원본 크기와 결과 크기를 원본 크기순 막대로 겹쳐 그립니다. (막대에 마우스를 올리면 파일 이름과 크기 표시)
+ */
+const SizeDistributionChart: React.FC<SizeDistributionChartProps> = ({ files }) => {
+    const { t, formatBytes } = useI18n();
+
+    const bars = useMemo(() => (
+        files
+            .map(f => ({ id: f.id, name: f.relativePath, original: f.originalSize, optimized: getChosenVariant(f)?.size ?? null }))
+            .sort((a, b) => b.original - a.original)
+    ), [files]);
+
+    if (bars.length === 0) return null;
+    // 결과가 원본보다 커진 파일도 잘리지 않도록 둘 중 큰 값을 기준으로 함
+    const maxSize = Math.max(1, ...bars.map(bar => Math.max(bar.original, bar.optimized ?? 0)));
+    const toHeight = (size: number) => (size / maxSize) * CHART_HEIGHT;
+
+    return (
+        <figure className="size-distribution">
+            <figcaption>
+                <span>{t('chart.title')}</span>
+                <span className="size-distribution-legend">
+                    <span className="legend-swatch original" /> {t('chart.original')}
+                    <span className="legend-swatch optimized" /> {t('chart.optimized')}
+                    <span className="size-distribution-max">{t('chart.max', { size: formatBytes(maxSize) })}</span>
+                </span>
+            </figcaption>
+            <svg
+                viewBox={`0 0 ${bars.length} ${CHART_HEIGHT}`}
+                preserveAspectRatio="none"
+                role="img"
+                aria-label={t('chart.title')}
+            >
+                {bars.map((bar, index) => (
+                    <g key={bar.id}>
+                        <title>
+                            {bar.optimized !== null
+                                ? t('chart.bar', { name: bar.name, original: formatBytes(bar.original), optimized: formatBytes(bar.optimized) })
+                                : t('chart.notOptimized', { name: bar.name, original: formatBytes(bar.original) })}
+                        </title>
+                        <rect
+                            className="bar-original"
+                            x={index + BAR_GAP / 2}
+                            y={CHART_HEIGHT - toHeight(bar.original)}
+                            width={1 - BAR_GAP}
+                            height={toHeight(bar.original)}
+                        />
+                        {bar.optimized !== null && (
+                            <rect
+                                className="bar-optimized"
+                                x={index + BAR_GAP / 2}
+                                y={CHART_HEIGHT - toHeight(bar.optimized)}
+                                width={1 - BAR_GAP}
+                                height={toHeight(bar.optimized)}
+                            />
+                        )}
+                    </g>
+                ))}
+            </svg>
+        </figure>
+    );
+};
+
+export default SizeDistributionChart;
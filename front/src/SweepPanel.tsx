@@ -0,0 +1,275 @@
+import React, {
+    useState,
+    useEffect,
+    useRef,
+    useCallback,
+    useMemo
+} from 'react';
+import type { OptimizationSettings } from './types';
+import { runJobQueue } from './lib/jobQueue';
+import { isAbortError } from './lib/http';
+import { useI18n } from './lib/i18n';
+import type { QualityMetrics } from './lib/qualityMetrics';
+import { measureQualityInWorker } from './lib/workerClient';
+
+export interface SweepPoint {
+    settings: OptimizationSettings;
+    blob: Blob;
+    url: string;
+    quality: QualityMetrics | null;
+}
+
+interface SweepRange {
+    min: number;
+    max: number;
+    step: number;
+}
+
+interface SweepPanelProps {
+    title: string;
+    originalUrl: string;
+    originalSize: number;
+    // 스윕은 lossy/colors만 바꾸고 프레임/크기 설정은 이 값을 그대로 사용
+    baseSettings: OptimizationSettings;
+    // 주어진 설정으로 서버 최적화를 1회 수행 (재시도 포함)
+    runOptimization: (settings: OptimizationSettings, signal: AbortSignal) => Promise<Blob>;
+    // 선택한 변형을 파일의 결과로 채택
+    onKeep: (point: SweepPoint) => void;
+    onClose: () => void;
+}
+
+// 서버 부하를 고려한 한 번의 스윕 최대 요청 수와 동시 요청 수
+const MAX_SWEEP_POINTS = 64;
+const SWEEP_CONCURRENCY = 3;
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 320;
+const CHART_PADDING = 48;
+
+const expandRange = ({ min, max, step }: SweepRange): number[] => {
+    const values: number[] = [];
+    for (let v = min; v <= max && step > 0; v += step) values.push(v);
+    if (values[values.length - 1] !== max) values.push(max);
+    return values;
+};
+
+const clampRange = (range: SweepRange, lower: number, upper: number): SweepRange => {
+    const min = Math.max(lower, Math.min(upper, range.min));
+    const max = Math.max(min, Math.min(upper, range.max));
+    return { min, max, step: Math.max(1, range.step) };
+};
+
+/**
+ * 한 파일에 대해 lossy × colors 격자를 모두 실행하고 용량-화질 산점도로 보여주는 패널입니다.
+ * 점을 클릭하면 해당 변형을 미리 보고 파일의 결과로 채택할 수 있습니다.
+ */
+const SweepPanel: React.FC<SweepPanelProps> = ({
+    title,
+    originalUrl,
+    originalSize,
+    baseSettings,
+    runOptimization,
+    onKeep,
+    onClose,
+}) => {
+    const { t, formatBytes, formatPercent } = useI18n();
+    const [lossyRange, setLossyRange] = useState<SweepRange>({ min: 0, max: 300, step: 60 });
+    const [colorsRange, setColorsRange] = useState<SweepRange>({ min: 16, max: 256, step: 48 });
+    const [points, setPoints] = useState<SweepPoint[]>([]);
+    const [failedCount, setFailedCount] = useState<number>(0);
+    const [isRunning, setIsRunning] = useState<boolean>(false);
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+    const pointsRef = useRef<SweepPoint[]>([]);
+
+    const grid = useMemo(() => {
+        const lossyValues = expandRange(clampRange(lossyRange, 0, 300));
+        const colorsValues = expandRange(clampRange(colorsRange, 2, 256));
+        return lossyValues.flatMap(lossy => colorsValues.map(colors => ({ ...baseSettings, lossy, colors })));
+    }, [lossyRange, colorsRange, baseSettings]);
+
+    useEffect(() => {
+        pointsRef.current = points;
+    }, [points]);
+
+    // 닫힐 때 진행 중인 요청을 취소하고 채택하지 않은 변형의 URL 해제
+    useEffect(() => {
+        return () => {
+            controllerRef.current?.abort();
+            pointsRef.current.forEach(point => URL.revokeObjectURL(point.url));
+        };
+    }, []);
+
+    const handleRangeChange = useCallback((
+        setter: React.Dispatch<React.SetStateAction<SweepRange>>,
+        key: keyof SweepRange,
+    ) => (event: React.ChangeEvent<HTMLInputElement>) => {
+        const value = parseInt(event.target.value);
+        if (Number.isNaN(value)) return;
+        setter(prev => ({ ...prev, [key]: value }));
+    }, []);
+
+    const handleRun = useCallback(async () => {
+        if (grid.length > MAX_SWEEP_POINTS) return;
+        pointsRef.current.forEach(point => URL.revokeObjectURL(point.url));
+        setPoints([]);
+        setFailedCount(0);
+        setSelectedIndex(null);
+        setIsRunning(true);
+
+        const controller = new AbortController();
+        controllerRef.current = controller;
+
+        await runJobQueue(grid, async settings => {
+            try {
+                const blob = await runOptimization(settings, controller.signal);
+                let quality: QualityMetrics | null = null;
+                try {
+                    quality = await measureQualityInWorker(originalUrl, blob, controller.signal, settings);
+                } catch (err) {
+                    // 화질 측정에 실패하면 화질 축 없이 용량만 표시
+                    if (isAbortError(err)) throw err;
+                }
+                if (controller.signal.aborted) return;
+                const point = { settings, blob, url: URL.createObjectURL(blob), quality };
+                setPoints(prev => [...prev, point]);
+            } catch (err) {
+                if (!isAbortError(err)) setFailedCount(prev => prev + 1);
+            }
+        }, SWEEP_CONCURRENCY, controller.signal);
+
+        controllerRef.current = null;
+        setIsRunning(false);
+    }, [grid, originalUrl, runOptimization]);
+
+    const handleStop = useCallback(() => {
+        controllerRef.current?.abort();
+    }, []);
+
+    const handleKeep = useCallback(() => {
+        if (selectedIndex === null) return;
+        const point = points[selectedIndex];
+        // 채택한 변형의 Blob은 부모가 새 URL로 관리하므로 여기서 만든 URL은 닫힐 때 함께 해제
+        onKeep(point);
+        onClose();
+    }, [points, selectedIndex, onKeep, onClose]);
+
+    // 차트 축 범위
+    const maxSize = Math.max(originalSize, ...points.map(p => p.blob.size));
+    const qualityValues = points.filter(p => p.quality).map(p => p.quality!.averageSsim);
+    const minSsim = qualityValues.length > 0 ? Math.min(0.5, ...qualityValues) : 0.5;
+    const toX = (size: number) => CHART_PADDING + (size / maxSize) * (CHART_WIDTH - CHART_PADDING * 2);
+    const toY = (ssim: number) => CHART_HEIGHT - CHART_PADDING - ((ssim - minSsim) / (1 - minSsim)) * (CHART_HEIGHT - CHART_PADDING * 2);
+    const selected = selectedIndex !== null ? points[selectedIndex] : null;
+
+    return (
+        <div className="comparison-backdrop" onClick={onClose}>
+            <div
+                className="sweep-panel"
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('sweep.label', { title })}
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="comparison-header">
+                    <h3>{t('sweep.title', { title })}</h3>
+                    <button onClick={onClose} className="comparison-close-button" aria-label={t('common.close')}>✕</button>
+                </div>
+
+                <div className="sweep-ranges">
+                    <fieldset disabled={isRunning}>
+                        <legend>{t('sweep.lossyRange', { min: 0, max: 300 })}</legend>
+                        <label>{t('sweep.min')} <input type="number" min="0" max="300" value={lossyRange.min} onChange={handleRangeChange(setLossyRange, 'min')} className="number-input" /></label>
+                        <label>{t('sweep.max')} <input type="number" min="0" max="300" value={lossyRange.max} onChange={handleRangeChange(setLossyRange, 'max')} className="number-input" /></label>
+                        <label>{t('sweep.step')} <input type="number" min="1" max="300" value={lossyRange.step} onChange={handleRangeChange(setLossyRange, 'step')} className="number-input" /></label>
+                    </fieldset>
+                    <fieldset disabled={isRunning}>
+                        <legend>{t('sweep.colorsRange', { min: 2, max: 256 })}</legend>
+                        <label>{t('sweep.min')} <input type="number" min="2" max="256" value={colorsRange.min} onChange={handleRangeChange(setColorsRange, 'min')} className="number-input" /></label>
+                        <label>{t('sweep.max')} <input type="number" min="2" max="256" value={colorsRange.max} onChange={handleRangeChange(setColorsRange, 'max')} className="number-input" /></label>
+                        <label>{t('sweep.step')} <input type="number" min="1" max="254" value={colorsRange.step} onChange={handleRangeChange(setColorsRange, 'step')} className="number-input" /></label>
+                    </fieldset>
+                </div>
+
+                <div className="sweep-actions">
+                    {isRunning ? (
+                        <button onClick={handleStop} className="cancel-all-button">
+                            {t('sweep.stop', { done: points.length + failedCount, total: grid.length })}
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleRun}
+                            disabled={grid.length > MAX_SWEEP_POINTS}
+                            className="optimize-button"
+                        >
+                            {grid.length > MAX_SWEEP_POINTS
+                                ? t('sweep.tooMany', { count: grid.length, max: MAX_SWEEP_POINTS })
+                                : t('sweep.run', { count: grid.length })}
+                        </button>
+                    )}
+                    {failedCount > 0 && <p className="error-text small-error">{t('sweep.failed', { count: failedCount })}</p>}
+                </div>
+
+                <svg
+                    className="sweep-chart"
+                    viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+                    role="img"
+                    aria-label={t('sweep.chartLabel')}
+                >
+                    <line x1={CHART_PADDING} y1={CHART_HEIGHT - CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y2={CHART_HEIGHT - CHART_PADDING} className="sweep-axis" />
+                    <line x1={CHART_PADDING} y1={CHART_PADDING} x2={CHART_PADDING} y2={CHART_HEIGHT - CHART_PADDING} className="sweep-axis" />
+                    <text x={CHART_WIDTH / 2} y={CHART_HEIGHT - 10} className="sweep-axis-label" textAnchor="middle">
+                        {t('sweep.sizeAxis', { size: formatBytes(maxSize) })}
+                    </text>
+                    <text x={14} y={CHART_HEIGHT / 2} className="sweep-axis-label" textAnchor="middle" transform={`rotate(-90 14 ${CHART_HEIGHT / 2})`}>
+                        {t('sweep.ssimAxis', { min: minSsim.toFixed(2) })}
+                    </text>
+                    {/* 원본 크기 기준선 */}
+                    <line x1={toX(originalSize)} y1={CHART_PADDING} x2={toX(originalSize)} y2={CHART_HEIGHT - CHART_PADDING} className="sweep-original-line" />
+                    {points.map((point, index) => (
+                        <circle
+                            key={`${point.settings.lossy}_${point.settings.colors}`}
+                            cx={toX(point.blob.size)}
+                            cy={point.quality ? toY(point.quality.averageSsim) : CHART_HEIGHT - CHART_PADDING}
+                            r={selectedIndex === index ? 8 : 5}
+                            fill={`hsl(${220 - (point.settings.lossy / 300) * 220}, 70%, 50%)`}
+                            className={`sweep-point ${selectedIndex === index ? 'selected' : ''}`}
+                            onClick={() => setSelectedIndex(index)}
+                        >
+                            <title>
+                                lossy {point.settings.lossy} / colors {point.settings.colors}: {formatBytes(point.blob.size)}
+                                {point.quality ? `, SSIM ${point.quality.averageSsim.toFixed(3)}` : ''}
+                            </title>
+                        </circle>
+                    ))}
+                </svg>
+                <p className="sweep-legend">{t('sweep.legend')}</p>
+
+                {selected && (
+                    <div className="sweep-preview">
+                        <img src={selected.url} alt={t('sweep.selectedAlt')} className="gif-image" />
+                        <div>
+                            <p>
+                                lossy <strong>{selected.settings.lossy}</strong> / colors <strong>{selected.settings.colors}</strong>
+                            </p>
+                            <p>
+                                {formatBytes(selected.blob.size)} (
+                                <span className="reduction-rate">
+                                    {t('common.reduction', { percent: formatPercent(((originalSize - selected.blob.size) / originalSize) * 100, 2) })}
+                                </span>)
+                            </p>
+                            {selected.quality && (
+                                <p>{t('file.ssim', { value: selected.quality.averageSsim.toFixed(3), worst: selected.quality.worstSsim.toFixed(3) })}</p>
+                            )}
+                            <button onClick={handleKeep} className="download-single-button">
+                                {t('sweep.keep')}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SweepPanel;
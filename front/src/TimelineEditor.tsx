@@ -0,0 +1,219 @@
+import React, {
+    useState,
+    useEffect,
+    useRef,
+    useCallback,
+    useMemo
+} from 'react';
+import type { MouseEvent } from 'react';
+import type { TimelineEdit } from './types';
+import type { GifInfo } from './lib/gifParser';
+import type { GifThumbnails } from './lib/thumbnails';
+import { createThumbnailsInWorker } from './lib/workerClient';
+import {
+    PLAY_COUNT_OPTIONS,
+    applyTimeline,
+    createTimelineEdit,
+    isIdentityTimeline,
+} from './lib/timeline';
+import { describeError, useI18n } from './lib/i18n';
+import type { Translate } from './lib/i18n';
+
+interface TimelineEditorProps {
+    originalUrl: string;
+    info: GifInfo;
+    // 현재 편집 (null이면 편집 없음)
+    timeline: TimelineEdit | null;
+    // 편집하지 않은 것과 같아지면 null을 전달
+    onChange: (timeline: TimelineEdit | null) => void;
+    disabled?: boolean;
+}
+
+// 썸네일 긴 변 길이 (px)
+const THUMBNAIL_SIZE = 64;
+
+const formatPlayCount = (playCount: number, t: Translate): string => (
+    playCount === 0 ? t('info.loopForever') : t('timeline.plays', { count: playCount })
+);
+
+interface FrameThumbnailProps {
+    thumbnails: GifThumbnails;
+    index: number;
+}
+
+const FrameThumbnail: React.FC<FrameThumbnailProps> = ({ thumbnails, index }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+        const { width, height, frames } = thumbnails;
+        canvasRef.current?.getContext('2d')?.putImageData(new ImageData(frames[index], width, height), 0, 0);
+    }, [thumbnails, index]);
+
+    return <canvas ref={canvasRef} width={thumbnails.width} height={thumbnails.height} />;
+};
+
+/**
+ * 파일 하나의 프레임 썸네일을 보여주고 구간 자르기, 역재생, 왕복 재생, 재생 횟수를 편집합니다.
+ * 썸네일을 클릭하면 시작 프레임, Shift+클릭하면 끝 프레임으로 지정합니다.
+ */
+const TimelineEditor: React.FC<TimelineEditorProps> = ({ originalUrl, info, timeline, onChange, disabled = false }) => {
+    const { t, formatSeconds } = useI18n();
+    const [thumbnails, setThumbnails] = useState<GifThumbnails | null>(null);
+    // 썸네일 생성 실패 원인 (표시할 때 현재 언어로 변환)
+    const [error, setError] = useState<unknown>(null);
+    const frameCount = info.frames.length;
+    const edit = useMemo(() => timeline ?? createTimelineEdit(frameCount), [timeline, frameCount]);
+    // 목록에 없는 재생 횟수(저장된 세션 등)도 선택 상태로 보이도록 추가
+    const playCountOptions = edit.playCount === null || PLAY_COUNT_OPTIONS.includes(edit.playCount)
+        ? PLAY_COUNT_OPTIONS
+        : [...PLAY_COUNT_OPTIONS, edit.playCount].sort((a, b) => a - b);
+
+    // 썸네일은 워커에서 축소해 받음 (닫으면 진행 중인 작업 취소)
+    useEffect(() => {
+        const controller = new AbortController();
+        createThumbnailsInWorker(originalUrl, THUMBNAIL_SIZE, controller.signal)
+            .then(setThumbnails)
+            .catch(err => {
+                if (!controller.signal.aborted) setError(err);
+            });
+        return () => controller.abort();
+    }, [originalUrl]);
+
+    // 원본 타임라인에서 각 프레임이 시작하는 시각
+    const frameStarts = useMemo(() => {
+        let time = 0;
+        return info.frames.map(frame => {
+            const start = time;
+            time += frame.delay;
+            return start;
+        });
+    }, [info]);
+
+    const edited = useMemo(() => applyTimeline(info, edit), [info, edit]);
+
+    const update = useCallback((patch: Partial<TimelineEdit>) => {
+        const next = { ...edit, ...patch };
+        onChange(isIdentityTimeline(next, frameCount) ? null : next);
+    }, [edit, frameCount, onChange]);
+
+    const handleStartChange = useCallback((start: number) => {
+        update({ start, end: Math.max(start, edit.end) });
+    }, [edit.end, update]);
+
+    const handleEndChange = useCallback((end: number) => {
+        update({ start: Math.min(edit.start, end), end });
+    }, [edit.start, update]);
+
+    const handleFrameClick = useCallback((index: number) => (event: MouseEvent<HTMLButtonElement>) => {
+        if (event.shiftKey) {
+            handleEndChange(index);
+        } else {
+            handleStartChange(index);
+        }
+    }, [handleStartChange, handleEndChange]);
+
+    return (
+        <div className="timeline-editor">
+            {error !== null ? (
+                <p className="error-text small-error">⚠️ {t('timeline.thumbnailError', { error: describeError(error, t) })}</p>
+            ) : !thumbnails ? (
+                <p className="timeline-loading">{t('timeline.loading')}</p>
+            ) : (
+                <div className="timeline-strip" role="listbox" aria-label={t('timeline.frames')}>
+                    {info.frames.map((_, index) => {
+                        const inRange = index >= edit.start && index <= edit.end;
+                        return (
+                            <button
+                                key={index}
+                                role="option"
+                                aria-selected={inRange}
+                                onClick={handleFrameClick(index)}
+                                disabled={disabled}
+                                className={`timeline-frame ${inRange ? 'in-range' : ''} ${index === edit.start ? 'start' : ''} ${index === edit.end ? 'end' : ''}`}
+                                title={t('timeline.frameTitle', { index: index + 1, time: formatSeconds(frameStarts[index]) })}
+                            >
+                                <FrameThumbnail thumbnails={thumbnails} index={index} />
+                                <span>{index + 1}</span>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            <div className="timeline-range">
+                <label>
+                    {t('timeline.start', { frame: edit.start + 1, time: formatSeconds(frameStarts[edit.start] ?? 0) })}
+                    <input
+                        type="range"
+                        min="0"
+                        max={frameCount - 1}
+                        value={edit.start}
+                        onChange={e => handleStartChange(parseInt(e.target.value))}
+                        disabled={disabled}
+                        className="range-input"
+                    />
+                </label>
+                <label>
+                    {t('timeline.end', { frame: edit.end + 1, time: formatSeconds(frameStarts[edit.end] ?? 0) })}
+                    <input
+                        type="range"
+                        min="0"
+                        max={frameCount - 1}
+                        value={edit.end}
+                        onChange={e => handleEndChange(parseInt(e.target.value))}
+                        disabled={disabled}
+                        className="range-input"
+                    />
+                </label>
+            </div>
+
+            <div className="timeline-options">
+                <label>
+                    <input
+                        type="checkbox"
+                        checked={edit.reverse}
+                        onChange={e => update({ reverse: e.target.checked })}
+                        disabled={disabled}
+                    />
+                    {t('timeline.reverse')}
+                </label>
+                <label>
+                    <input
+                        type="checkbox"
+                        checked={edit.pingPong}
+                        onChange={e => update({ pingPong: e.target.checked })}
+                        disabled={disabled}
+                    />
+                    {t('timeline.pingPong')}
+                </label>
+                <label>
+                    {t('timeline.playCount')}
+                    <select
+                        value={edit.playCount ?? ''}
+                        onChange={e => update({ playCount: e.target.value === '' ? null : parseInt(e.target.value) })}
+                        disabled={disabled}
+                        className="timeline-select"
+                    >
+                        <option value="">{t('timeline.keepPlayCount')}</option>
+                        {playCountOptions.map(count => (
+                            <option key={count} value={count}>{formatPlayCount(count, t)}</option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    onClick={() => onChange(null)}
+                    disabled={disabled || !timeline}
+                    className="reset-settings-button"
+                >
+                    {t('timeline.reset')}
+                </button>
+            </div>
+
+            <p className="control-hint">
+                {t('timeline.hint', { count: edited.frames.length, duration: formatSeconds(edited.duration) })}
+            </p>
+        </div>
+    );
+};
+
+export default TimelineEditor;
@@ -0,0 +1,130 @@
+import React, { useState, useCallback } from 'react';
+import type { ChangeEvent } from 'react';
+import type { OptimizationSettings } from './types';
+import { FRAME_STEP_OPTIONS, MAX_DIMENSION, SPEED_OPTIONS } from './lib/settings';
+import { useI18n } from './lib/i18n';
+import type { Translate } from './lib/i18n';
+
+interface TransformControlsProps {
+    settings: OptimizationSettings;
+    onChange: (patch: Partial<OptimizationSettings>) => void;
+    disabled?: boolean;
+}
+
+// 목록에 없는 값(URL/프리셋으로 들어온 값)도 선택 상태로 보이도록 옵션에 추가
+const withCurrent = (options: number[], current: number): number[] => (
+    options.includes(current) ? options : [...options, current].sort((a, b) => a - b)
+);
+
+const formatFrameStep = (step: number, t: Translate): string => (
+    step === 1 ? t('transform.allFrames') : t('transform.everyNthFrame', { step })
+);
+
+const formatSpeed = (speed: number, t: Translate): string => (
+    speed === 1 ? t('transform.originalSpeed') : t('transform.speedValue', { speed })
+);
+
+const parseDimension = (value: string): number | null => {
+    const number = parseInt(value);
+    return Number.isFinite(number) && number > 0 ? Math.min(MAX_DIMENSION, number) : null;
+};
+
+/**
+ * 프레임 솎아내기, 출력 크기, 재생 속도 설정입니다.
+ * 한쪽 크기만 있으면 나머지는 서버가 원본(또는 자른 영역) 비율로 계산하며,
+ * 비율을 고정하면 마지막으로 입력한 한쪽 크기만 남겨 항상 이 방식으로 동작합니다.
+ */
+const TransformControls: React.FC<TransformControlsProps> = ({ settings, onChange, disabled = false }) => {
+    const { t } = useI18n();
+    const [isAspectLocked, setIsAspectLocked] = useState<boolean>(settings.width === null || settings.height === null);
+
+    const handleDimensionChange = useCallback((name: 'width' | 'height') => (event: ChangeEvent<HTMLInputElement>) => {
+        const value = parseDimension(event.target.value);
+        if (!isAspectLocked) {
+            onChange(name === 'width' ? { width: value } : { height: value });
+            return;
+        }
+        onChange(name === 'width' ? { width: value, height: null } : { width: null, height: value });
+    }, [isAspectLocked, onChange]);
+
+    const handleAspectLockToggle = useCallback(() => {
+        // 고정할 때 양쪽 크기가 모두 있으면 너비만 남김
+        if (!isAspectLocked && settings.width !== null && settings.height !== null) onChange({ height: null });
+        setIsAspectLocked(prev => !prev);
+    }, [isAspectLocked, settings.width, settings.height, onChange]);
+
+    return (
+        <div className="transform-controls">
+            <div className="transform-field">
+                <label htmlFor="frame-step">{t('transform.frameStep')}</label>
+                <select
+                    id="frame-step"
+                    value={settings.frameStep}
+                    onChange={e => onChange({ frameStep: parseInt(e.target.value) })}
+                    disabled={disabled}
+                    className="transform-select"
+                >
+                    {withCurrent(FRAME_STEP_OPTIONS, settings.frameStep).map(step => (
+                        <option key={step} value={step}>{formatFrameStep(step, t)}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="transform-field">
+                <label htmlFor="speed">{t('transform.speed')}</label>
+                <select
+                    id="speed"
+                    value={settings.speed}
+                    onChange={e => onChange({ speed: parseFloat(e.target.value) })}
+                    disabled={disabled}
+                    className="transform-select"
+                >
+                    {withCurrent(SPEED_OPTIONS, settings.speed).map(speed => (
+                        <option key={speed} value={speed}>{formatSpeed(speed, t)}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="transform-field">
+                <label htmlFor="output-width">{t('transform.size')}</label>
+                <div className="dimension-inputs">
+                    <input
+                        id="output-width"
+                        type="number"
+                        min="1"
+                        max={MAX_DIMENSION}
+                        placeholder={settings.height !== null ? t('transform.auto') : t('common.original')}
+                        value={settings.width ?? ''}
+                        onChange={handleDimensionChange('width')}
+                        disabled={disabled}
+                        className="number-input"
+                        aria-label={t('transform.width')}
+                    />
+                    <button
+                        type="button"
+                        onClick={handleAspectLockToggle}
+                        disabled={disabled}
+                        className={`aspect-lock-button ${isAspectLocked ? 'active' : ''}`}
+                        aria-pressed={isAspectLocked}
+                        title={isAspectLocked ? t('transform.unlockAspect') : t('transform.lockAspect')}
+                    >
+                        {isAspectLocked ? '🔒' : '🔓'}
+                    </button>
+                    <input
+                        type="number"
+                        min="1"
+                        max={MAX_DIMENSION}
+                        placeholder={settings.width !== null ? t('transform.auto') : t('common.original')}
+                        value={settings.height ?? ''}
+                        onChange={handleDimensionChange('height')}
+                        disabled={disabled}
+                        className="number-input"
+                        aria-label={t('transform.height')}
+                    />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TransformControls;
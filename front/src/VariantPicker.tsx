@@ -0,0 +1,99 @@
+import React from 'react';
+import type { ResultVariant } from './types';
+import { OUTPUT_FORMATS, describeQuality } from './lib/outputFormats';
+import { useI18n } from './lib/i18n';
+
+interface VariantPickerProps {
+    variants: ResultVariant[];
+    viewedVariantId: number | null;
+    chosenVariantId: number | null;
+    // 사용자가 직접 고정했는지 여부 (아니면 최신 변형이 자동으로 선택됨)
+    isPinned: boolean;
+    onView: (variantId: number) => void;
+    onChoose: (variantId: number) => void;
+    onDelete: (variantId: number) => void;
+}
+
+const formatTime = (timestamp: number, locale: string): string => (
+    new Date(timestamp).toLocaleString(locale, {
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+    })
+);
+
+/**
+ * 파일의 결과 변형 이력을 표로 보여주고, 미리보기/다운로드용 고정/삭제를 제공합니다.
+ */
+const VariantPicker: React.FC<VariantPickerProps> = ({
+    variants,
+    viewedVariantId,
+    chosenVariantId,
+    isPinned,
+    onView,
+    onChoose,
+    onDelete,
+}) => {
+    const { locale, t, formatBytes, formatPercent } = useI18n();
+    return (
+        <div className="variant-picker">
+            <p className="variant-picker-title">
+                {t('variant.title', { count: variants.length, target: t(isPinned ? 'variant.pinned' : 'variant.latest') })}
+            </p>
+            <table>
+                <thead>
+                    <tr>
+                        <th>{t('variant.time')}</th>
+                        <th>{t('variant.format')}</th>
+                        <th>{t('variant.settings')}</th>
+                        <th>{t('variant.size')}</th>
+                        <th>{t('variant.reduction')}</th>
+                        <th>SSIM</th>
+                        <th aria-label={t('variant.actions')} />
+                    </tr>
+                </thead>
+                <tbody>
+                    {[...variants].reverse().map(variant => (
+                        <tr
+                            key={variant.id}
+                            className={`${variant.id === viewedVariantId ? 'viewed' : ''} ${variant.id === chosenVariantId ? 'chosen' : ''}`}
+                            onClick={() => onView(variant.id)}
+                        >
+                            <td>{formatTime(variant.createdAt, locale)}</td>
+                            <td>{OUTPUT_FORMATS[variant.format].label}</td>
+                            <td>{variant.settings ? describeQuality(variant.settings, t) : '-'}</td>
+                            <td>{formatBytes(variant.size)}</td>
+                            <td>{formatPercent(variant.reductionRate)}</td>
+                            <td>{variant.quality ? variant.quality.averageSsim.toFixed(3) : '-'}</td>
+                            <td className="variant-actions">
+                                <button
+                                    onClick={e => {
+                                        e.stopPropagation();
+                                        onChoose(variant.id);
+                                    }}
+                                    className={isPinned && variant.id === chosenVariantId ? 'active' : ''}
+                                    title={isPinned && variant.id === chosenVariantId ? t('variant.unpin') : t('variant.pin')}
+                                >
+                                    📌
+                                </button>
+                                <button
+                                    onClick={e => {
+                                        e.stopPropagation();
+                                        onDelete(variant.id);
+                                    }}
+                                    title={t('variant.delete')}
+                                >
+                                    🗑️
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default VariantPicker;
@@ -0,0 +1,86 @@
+import React from 'react';
+import type { VideoConversionSettings } from './types';
+import type { VideoInfo } from './lib/video';
+import { getClipDuration } from './lib/video';
+import { useI18n } from './lib/i18n';
+
+interface VideoClipRangeProps {
+    // 원본 영상 메타데이터 (분석 전이면 null)
+    info: VideoInfo | null;
+    settings: VideoConversionSettings;
+    onChange: (patch: Pick<VideoConversionSettings, 'start' | 'end'>) => void;
+    disabled?: boolean;
+}
+
+// 구간이 비지 않도록 끝은 시작보다 이만큼 뒤로 제한 (초)
+const MIN_CLIP_SECONDS = 0.1;
+
+const roundSeconds = (seconds: number): number => Math.round(seconds * 10) / 10;
+
+/**
+ * 파일 카드에서 영상의 변환 구간(시작/끝 시각)을 지정하고 예상 출력 크기와 프레임 수를 보여줍니다.
+ */
+const VideoClipRange: React.FC<VideoClipRangeProps> = ({ info, settings, onChange, disabled = false }) => {
+    const { t, formatNumber, formatSeconds } = useI18n();
+    const duration = info?.duration ?? null;
+    const clipDuration = getClipDuration(info, settings);
+    const outputWidth = info ? (settings.width ?? info.width) : null;
+    const outputHeight = info && outputWidth ? Math.max(1, Math.round((info.height * outputWidth) / info.width)) : null;
+
+    const handleStartChange = (value: string) => {
+        const limit = (settings.end ?? duration ?? Infinity) - MIN_CLIP_SECONDS;
+        const start = Math.max(0, Math.min(limit, parseFloat(value) || 0));
+        onChange({ start: roundSeconds(start), end: settings.end });
+    };
+
+    const handleEndChange = (value: string) => {
+        const end = parseFloat(value);
+        if (!Number.isFinite(end) || (duration !== null && end >= duration)) {
+            onChange({ start: settings.start, end: null });
+            return;
+        }
+        onChange({ start: settings.start, end: roundSeconds(Math.max(settings.start + MIN_CLIP_SECONDS, end)) });
+    };
+
+    return (
+        <div className="video-clip-range">
+            <label>
+                {t('video.clipStart')}
+                <input
+                    type="number"
+                    min="0"
+                    max={duration ?? undefined}
+                    step="0.1"
+                    value={settings.start}
+                    onChange={e => handleStartChange(e.target.value)}
+                    disabled={disabled}
+                    className="number-input"
+                />
+            </label>
+            <label>
+                {t('video.clipEnd')}
+                <input
+                    type="number"
+                    min="0"
+                    max={duration ?? undefined}
+                    step="0.1"
+                    placeholder={duration !== null ? t('video.clipEndPlaceholder', { seconds: formatNumber(roundSeconds(duration)) }) : t('video.clipToEnd')}
+                    value={settings.end ?? ''}
+                    onChange={e => handleEndChange(e.target.value)}
+                    disabled={disabled}
+                    className="number-input"
+                />
+            </label>
+            <p className="control-hint">
+                🎬 {info ? `${info.width}×${info.height}` : t('video.analyzing')}
+                {outputWidth && outputHeight && <> → <strong>{outputWidth}×{outputHeight} · {settings.fps} fps</strong></>}
+                {clipDuration !== null && t('video.clipSummary', {
+                    duration: formatSeconds(clipDuration * 1000, 1),
+                    count: Math.max(1, Math.round(clipDuration * settings.fps)),
+                })}
+            </p>
+        </div>
+    );
+};
+
+export default VideoClipRange;
@@ -0,0 +1,80 @@
+import React from 'react';
+import type { PaletteMode, VideoConversionSettings } from './types';
+import { MAX_DIMENSION } from './lib/settings';
+import { PALETTE_MODES, VIDEO_FPS_OPTIONS } from './lib/video';
+import { useI18n } from './lib/i18n';
+import type { MessageKey } from './lib/i18n';
+
+interface VideoControlsProps {
+    settings: VideoConversionSettings;
+    onChange: (patch: Partial<VideoConversionSettings>) => void;
+    disabled?: boolean;
+}
+
+const PALETTE_MODE_LABELS: Record<PaletteMode, MessageKey> = {
+    full: 'video.palette.full',
+    diff: 'video.palette.diff',
+    single: 'video.palette.single',
+};
+
+/**
+ * 영상(MP4/WebM)을 GIF로 변환할 때의 프레임 속도, 너비, 팔레트 생성 방식입니다.
+ * 변환 구간은 파일마다 다르므로 파일 카드에서 지정합니다.
+ */
+const VideoControls: React.FC<VideoControlsProps> = ({ settings, onChange, disabled = false }) => {
+    const { t } = useI18n();
+    return (
+        <div className="video-controls">
+            <p className="video-controls-title">{t('video.title')}</p>
+            <div className="video-field">
+                <label htmlFor="video-fps">{t('video.fps')}</label>
+                <select
+                    id="video-fps"
+                    value={settings.fps}
+                    onChange={e => onChange({ fps: parseInt(e.target.value) })}
+                    disabled={disabled}
+                    className="video-select"
+                >
+                    {(VIDEO_FPS_OPTIONS.includes(settings.fps) ? VIDEO_FPS_OPTIONS : [...VIDEO_FPS_OPTIONS, settings.fps].sort((a, b) => a - b)).map(fps => (
+                        <option key={fps} value={fps}>{fps} fps</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="video-field">
+                <label htmlFor="video-width">{t('video.width')}</label>
+                <input
+                    id="video-width"
+                    type="number"
+                    min="1"
+                    max={MAX_DIMENSION}
+                    placeholder={t('common.original')}
+                    value={settings.width ?? ''}
+                    onChange={e => {
+                        const width = parseInt(e.target.value);
+                        onChange({ width: Number.isFinite(width) && width > 0 ? Math.min(MAX_DIMENSION, width) : null });
+                    }}
+                    disabled={disabled}
+                    className="number-input"
+                />
+            </div>
+
+            <div className="video-field">
+                <label htmlFor="palette-mode">{t('video.palette')}</label>
+                <select
+                    id="palette-mode"
+                    value={settings.paletteMode}
+                    onChange={e => onChange({ paletteMode: e.target.value as PaletteMode })}
+                    disabled={disabled}
+                    className="video-select"
+                >
+                    {PALETTE_MODES.map(mode => (
+                        <option key={mode} value={mode}>{t(PALETTE_MODE_LABELS[mode])}</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+};
+
+export default VideoControls;
@@ -0,0 +1,39 @@
+import React, { useCallback, useState } from 'react';
+import { createPortal } from 'react-dom';
+import GifOptimizer from '../GifOptimizer';
+import { OPTIMIZER_STYLES } from './styles';
+import type { GifOptimizerProps } from './types';
+
+interface GifOptimizerWidgetProps extends GifOptimizerProps {
+    // 호스트 요소에 붙일 클래스 (위젯 루트는 ::part(root)로 꾸밀 수 있음)
+    className?: string;
+}
+
+/**
+ * GifOptimizer를 Shadow DOM 안에 그려 위젯 스타일과 호스트 페이지 스타일이 서로 섞이지 않게 합니다.
+ * React 트리는 호스트와 같으므로 props, 콜백, ref를 그대로 전달합니다.
+ */
+const GifOptimizerWidget: React.FC<GifOptimizerWidgetProps> = ({ className, ...props }) => {
+    const [shadowRoot, setShadowRoot] = useState<ShadowRoot | null>(null);
+
+    // 같은 요소에 다시 연결될 때(StrictMode 등)는 이미 만든 Shadow root를 재사용
+    const attachShadowRoot = useCallback((host: HTMLDivElement | null) => {
+        if (!host) return;
+        setShadowRoot(host.shadowRoot ?? host.attachShadow({ mode: 'open' }));
+        return () => setShadowRoot(null);
+    }, []);
+
+    return (
+        <div ref={attachShadowRoot} className={className}>
+            {shadowRoot && createPortal(
+                <>
+                    <style>{OPTIMIZER_STYLES}</style>
+                    <GifOptimizer {...props} />
+                </>,
+                shadowRoot,
+            )}
+        </div>
+    );
+};
+
+export default GifOptimizerWidget;
@@ -0,0 +1,152 @@
+// ------------------- 커스텀 엘리먼트 -------------------
+// React를 쓰지 않는 페이지에서도 <gif-optimizer>로 넣을 수 있도록 GifOptimizer를 감쌉니다.
+// 문자열 설정은 속성으로, 객체 설정은 프로퍼티로 받고 콜백 대신 DOM 이벤트를 보냅니다.
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import GifOptimizer from '../GifOptimizer';
+import { isLocale } from '../lib/i18n';
+import type { OptimizationSettings } from '../types';
+import type { BatchReport } from '../lib/report';
+import { OPTIMIZER_STYLES } from './styles';
+import type {
+    AddedFileDetail,
+    GifOptimizerHandle,
+    OptimizedFileDetail,
+    OptimizerErrorDetail,
+    OptimizerLimits,
+    Theme,
+} from './types';
+
+// 속성 값이 양수가 아니면 제한 없음으로 취급
+const parsePositiveNumber = (value: string | null): number | undefined => {
+    if (value === null) return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const parseTheme = (value: string | null): Theme | undefined => (
+    value === 'light' || value === 'dark' ? value : undefined
+);
+
+/**
+ * 속성: api-base-url, theme, locale, max-files, max-file-bytes, persist-session("false"면 끔), paste-scope
+ * 프로퍼티: defaultSettings, limits (max-files/max-file-bytes 속성이 있으면 그 값이 우선)
+ * 이벤트(detail은 React 콜백과 같음): file-added, optimized, optimize-error, batch-complete
+ */
+export class GifOptimizerElement extends HTMLElement {
+    static observedAttributes = ['api-base-url', 'theme', 'locale', 'max-files', 'max-file-bytes', 'persist-session', 'paste-scope'];
+
+    private root: Root | null = null;
+    private handle: GifOptimizerHandle | null = null;
+    // 첫 렌더 전에 호출된 addFiles/start가 기다리는 핸들
+    private handleWaiters: ((handle: GifOptimizerHandle) => void)[] = [];
+    private settingsValue: Partial<OptimizationSettings> | undefined;
+    private limitsValue: OptimizerLimits | undefined;
+
+    get defaultSettings(): Partial<OptimizationSettings> | undefined {
+        return this.settingsValue;
+    }
+
+    // 초기값이므로 위젯이 그려진 뒤에 바꾸면 다음에 연결될 때부터 적용
+    set defaultSettings(value: Partial<OptimizationSettings> | undefined) {
+        this.settingsValue = value;
+    }
+
+    get limits(): OptimizerLimits | undefined {
+        return this.limitsValue;
+    }
+
+    set limits(value: OptimizerLimits | undefined) {
+        this.limitsValue = value;
+        this.render();
+    }
+
+    connectedCallback() {
+        if (!this.root) {
+            this.root = createRoot(this.shadowRoot ?? this.attachShadow({ mode: 'open' }));
+        }
+        this.render();
+    }
+
+    // 다른 위치로 옮기는 경우(분리 직후 다시 연결)에는 작업 목록을 유지하도록 한 틱 뒤에 정리
+    disconnectedCallback() {
+        queueMicrotask(() => {
+            if (this.isConnected || !this.root) return;
+            this.root.unmount();
+            this.root = null;
+            this.handle = null;
+        });
+    }
+
+    attributeChangedCallback() {
+        this.render();
+    }
+
+    addFiles(files: FileList | File[]): Promise<void> {
+        return this.whenReady().then(handle => handle.addFiles(files));
+    }
+
+    start(): Promise<void> {
+        return this.whenReady().then(handle => handle.start());
+    }
+
+    cancel() {
+        this.handle?.cancel();
+    }
+
+    private whenReady(): Promise<GifOptimizerHandle> {
+        if (this.handle) return Promise.resolve(this.handle);
+        return new Promise(resolve => this.handleWaiters.push(resolve));
+    }
+
+    private setHandle = (handle: GifOptimizerHandle | null) => {
+        this.handle = handle;
+        if (handle) this.handleWaiters.splice(0).forEach(resolve => resolve(handle));
+    };
+
+    // Shadow DOM 밖의 리스너도 받을 수 있도록 composed 이벤트로 보냄
+    private emit<T>(type: string, detail: T) {
+        this.dispatchEvent(new CustomEvent<T>(type, { detail, bubbles: true, composed: true }));
+    }
+
+    private handleFileAdded = (detail: AddedFileDetail) => this.emit('file-added', detail);
+    private handleOptimized = (detail: OptimizedFileDetail) => this.emit('optimized', detail);
+    private handleError = (detail: OptimizerErrorDetail) => this.emit('optimize-error', detail);
+    private handleBatchComplete = (report: BatchReport) => this.emit('batch-complete', report);
+
+    private render() {
+        if (!this.root) return;
+        const locale = this.getAttribute('locale');
+        const limits: OptimizerLimits = { ...this.limitsValue };
+        const maxFiles = parsePositiveNumber(this.getAttribute('max-files'));
+        const maxFileBytes = parsePositiveNumber(this.getAttribute('max-file-bytes'));
+        if (maxFiles !== undefined) limits.maxFiles = Math.floor(maxFiles);
+        if (maxFileBytes !== undefined) limits.maxFileBytes = maxFileBytes;
+
+        this.root.render(
+            <>
+                <style>{OPTIMIZER_STYLES}</style>
+                <GifOptimizer
+                    ref={this.setHandle}
+                    apiBaseUrl={this.getAttribute('api-base-url') ?? undefined}
+                    defaultSettings={this.settingsValue}
+                    limits={limits}
+                    theme={parseTheme(this.getAttribute('theme'))}
+                    locale={locale !== null && isLocale(locale) ? locale : undefined}
+                    persistSession={this.getAttribute('persist-session') !== 'false'}
+                    pasteScope={this.getAttribute('paste-scope') === 'document' ? 'document' : 'self'}
+                    onFileAdded={this.handleFileAdded}
+                    onOptimized={this.handleOptimized}
+                    onError={this.handleError}
+                    onBatchComplete={this.handleBatchComplete}
+                />
+            </>,
+        );
+    }
+}
+
+// 같은 클래스는 한 번만 등록할 수 있으므로 태그 이름마다 하위 클래스로 등록
+export const defineGifOptimizerElement = (tagName: string = 'gif-optimizer') => {
+    if (customElements.get(tagName)) return;
+    customElements.define(tagName, class extends GifOptimizerElement {});
+};
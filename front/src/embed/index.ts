@@ -0,0 +1,6 @@
+// ------------------- React 컴포넌트 번들 진입점 -------------------
+// React 앱에 넣을 때 쓰는 위젯과 타입 (React는 호스트 앱의 것을 사용)
+export { default as GifOptimizerWidget } from './GifOptimizerWidget';
+export type * from './types';
+export type { BatchReport } from '../lib/report';
+export type { OptimizationSettings, OutputFormat } from '../types';
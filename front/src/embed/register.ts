@@ -0,0 +1,10 @@
+// ------------------- 커스텀 엘리먼트 번들 진입점 -------------------
+// <script type="module">로 불러오면 <gif-optimizer>를 바로 쓸 수 있도록 등록합니다.
+import { defineGifOptimizerElement } from './element';
+
+defineGifOptimizerElement();
+
+export { GifOptimizerElement, defineGifOptimizerElement } from './element';
+export type * from './types';
+export type { BatchReport } from '../lib/report';
+export type { OptimizationSettings, OutputFormat } from '../types';
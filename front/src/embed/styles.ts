@@ -0,0 +1,40 @@
+// ------------------- 위젯 스타일 -------------------
+// 컴포넌트 CSS를 문서에 주입하지 않고 문자열로 모아 Shadow DOM 안에서만 적용합니다.
+import gifOptimizerCss from '../GifOptimizer.css?inline';
+import comparisonViewerCss from '../ComparisonViewer.css?inline';
+import connectionStatusCss from '../ConnectionStatus.css?inline';
+import cropSelectorCss from '../CropSelector.css?inline';
+import fileListGridCss from '../FileListGrid.css?inline';
+import fileListToolbarCss from '../FileListToolbar.css?inline';
+import formatControlsCss from '../FormatControls.css?inline';
+import formatSizesCss from '../FormatSizes.css?inline';
+import gifInfoTableCss from '../GifInfoTable.css?inline';
+import presetManagerCss from '../PresetManager.css?inline';
+import sizeDistributionChartCss from '../SizeDistributionChart.css?inline';
+import sweepPanelCss from '../SweepPanel.css?inline';
+import timelineEditorCss from '../TimelineEditor.css?inline';
+import transformControlsCss from '../TransformControls.css?inline';
+import variantPickerCss from '../VariantPicker.css?inline';
+import videoClipRangeCss from '../VideoClipRange.css?inline';
+import videoControlsCss from '../VideoControls.css?inline';
+
+// GifOptimizer.css를 먼저 두어 하위 컴포넌트 스타일이 같은 우선순위에서 덮어쓰도록 함
+export const OPTIMIZER_STYLES: string = [
+    gifOptimizerCss,
+    comparisonViewerCss,
+    connectionStatusCss,
+    cropSelectorCss,
+    fileListGridCss,
+    fileListToolbarCss,
+    formatControlsCss,
+    formatSizesCss,
+    gifInfoTableCss,
+    presetManagerCss,
+    sizeDistributionChartCss,
+    sweepPanelCss,
+    timelineEditorCss,
+    transformControlsCss,
+    variantPickerCss,
+    videoClipRangeCss,
+    videoControlsCss,
+].join('\n');
@@ -0,0 +1,73 @@
+// ------------------- 임베드 API -------------------
+// 다른 도구에 GifOptimizer를 넣을 때 쓰는 설정, 콜백, 명령형 핸들의 타입입니다.
+import type { Ref } from 'react';
+import type { OptimizationSettings, OutputFormat } from '../types';
+import type { Locale } from '../lib/i18n';
+import type { BatchReport } from '../lib/report';
+
+export type Theme = 'light' | 'dark';
+
+// 호스트가 정하는 업로드/출력 제한 (서버 제한보다 느슨하면 서버 제한을 따름)
+export interface OptimizerLimits {
+    // 목록에 둘 수 있는 최대 파일 수
+    maxFiles?: number;
+    // 파일 1개의 최대 크기
+    maxFileBytes?: number;
+    // 고를 수 있는 출력 형식
+    formats?: OutputFormat[];
+    // 영상(MP4/WebM) 업로드 허용 여부 (기본값 true)
+    allowVideo?: boolean;
+}
+
+export interface AddedFileDetail {
+    fileId: number;
+    file: File;
+    relativePath: string;
+}
+
+export interface OptimizedFileDetail {
+    fileId: number;
+    relativePath: string;
+    blob: Blob;
+    format: OutputFormat;
+    originalSize: number;
+    optimizedSize: number;
+    reductionRate: number;
+    settings: OptimizationSettings | null;
+    durationMs: number | null;
+}
+
+// 업로드에서 제외된 파일과 최적화에 실패한 파일 (fileId는 목록에 추가되지 않은 파일이면 null)
+export interface OptimizerErrorDetail {
+    fileId: number | null;
+    relativePath: string;
+    message: string;
+}
+
+export interface GifOptimizerHandle {
+    // 파일을 분석해 목록에 추가 (끌어다 놓기와 같은 검사와 중복 제외 적용)
+    addFiles: (files: FileList | File[]) => Promise<void>;
+    // 목록 전체를 최적화하고 일괄 작업이 끝나면 완료
+    start: () => Promise<void>;
+    cancel: () => void;
+}
+
+export interface GifOptimizerProps {
+    // 백엔드 기본 URL (없으면 빌드 시 VITE_API_URL)
+    apiBaseUrl?: string;
+    // 일괄 기본 설정의 초기값 (지정하면 URL 쿼리와 저장된 설정보다 우선)
+    defaultSettings?: Partial<OptimizationSettings>;
+    limits?: OptimizerLimits;
+    // 지정하면 호스트가 테마/언어를 정하고 화면의 전환 버튼은 숨김
+    theme?: Theme;
+    locale?: Locale;
+    // 작업 세션을 IndexedDB에 저장해 새로고침 후 복원할지 여부 (기본값 true)
+    persistSession?: boolean;
+    // document: 페이지 어디서든 붙여넣기 받음 / self: 위젯을 클릭해 포커스가 있을 때만 (기본값)
+    pasteScope?: 'document' | 'self';
+    onFileAdded?: (detail: AddedFileDetail) => void;
+    onOptimized?: (detail: OptimizedFileDetail) => void;
+    onError?: (detail: OptimizerErrorDetail) => void;
+    onBatchComplete?: (report: BatchReport) => void;
+    ref?: Ref<GifOptimizerHandle>;
+}
@@ -0,0 +1,218 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createApiClient } from './apiClient';
+import type { ApiClientOptions } from './apiClient';
+import {
+    FileProcessingError,
+    GifsicleUnavailableError,
+    HttpError,
+    MalformedResponseError,
+    NetworkError,
+    TimeoutError,
+    isRetryableApiError,
+} from './apiErrors';
+import { createFetchTransport } from './http';
+import { BINARY_RESULTS_MIME } from './resultStream';
+import { DEFAULT_SETTINGS } from './settings';
+import { encodeResultStream } from '../test/resultStream';
+import { sendJson, startStubServer } from '../test/stubServer';
+import type { StubHandler, StubServer } from '../test/stubServer';
+
+const GIF_BYTES = new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 1, 2, 3]);
+
+const okResult = {
+    filename: '1_a.gif',
+    original_size: 100,
+    optimized_data: Buffer.from(GIF_BYTES).toString('base64'),
+    optimized_size: GIF_BYTES.length,
+    lossy: 50,
+    colors: 64,
+    format: 'gif',
+    mime_type: 'image/gif',
+    error: null,
+    error_code: null,
+};
+
+let server: StubServer | null = null;
+
+afterEach(async () => {
+    await server?.close();
+    server = null;
+});
+
+const setup = async (handler: StubHandler, options: Partial<ApiClientOptions> = {}) => {
+    server = await startStubServer(handler);
+    const client = createApiClient({
+        baseUrl: server.baseUrl,
+        retries: 2,
+        retryBaseDelayMs: 1,
+        transport: createFetchTransport(),
+        ...options,
+    });
+    return { client, requests: server.requests };
+};
+
+const optimize = (client: ReturnType<typeof createApiClient>) => client.optimizeGif({
+    file: new Blob([GIF_BYTES], { type: 'image/gif' }),
+    fileName: '1_a.gif',
+    settings: DEFAULT_SETTINGS,
+});
+
+const blobBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+describe('optimizeGif 성공 응답', () => {
+    it('JSON 응답의 Base64 결과를 Blob으로 바꾸고 서버가 적용한 설정을 돌려준다', async () => {
+        const { client, requests } = await setup((_request, response) => sendJson(response, 200, { results: [okResult] }));
+        const result = await optimize(client);
+
+        expect(await blobBytes(result.blob)).toEqual(GIF_BYTES);
+        expect(result.blob.type).toBe('image/gif');
+        expect(result.originalSize).toBe(100);
+        expect(result.settings).toMatchObject({ format: 'gif', lossy: 50, colors: 64 });
+        expect(requests).toHaveLength(1);
+        expect(requests[0].url).toBe('/api/optimize-gif');
+        expect(requests[0].headers.accept).toContain(BINARY_RESULTS_MIME);
+    });
+
+    it('바이너리 결과 스트림을 파싱한다', async () => {
+        // 스트림 헤더에는 optimized_data가 없음
+        const header = { ...okResult, optimized_data: undefined };
+        const { client } = await setup((_request, response) => {
+            response.writeHead(200, { 'Content-Type': BINARY_RESULTS_MIME });
+            response.end(encodeResultStream([{ header, data: GIF_BYTES }]));
+        });
+        const result = await optimize(client);
+
+        expect(await blobBytes(result.blob)).toEqual(GIF_BYTES);
+        expect(result.settings.lossy).toBe(50);
+    });
+});
+
+describe('optimizeGif 잘못된 응답', () => {
+    const expectMalformed = async (body: string | Uint8Array, contentType: string, reason: string) => {
+        const { client, requests } = await setup((_request, response) => {
+            response.writeHead(200, { 'Content-Type': contentType });
+            response.end(body);
+        });
+        const error = await optimize(client).catch((err: unknown) => err);
+        expect(error).toBeInstanceOf(MalformedResponseError);
+        expect((error as MalformedResponseError).reason).toBe(reason);
+        // 형식 오류는 다시 보내도 같으므로 재시도하지 않음
+        expect(requests).toHaveLength(1);
+    };
+
+    it('JSON이 아닌 본문', () => expectMalformed('<html>', 'text/html', 'response.notObject'));
+    it('results 배열이 없는 본문', () => expectMalformed('{"ok":true}', 'application/json', 'response.missingArray'));
+    it('빈 results 배열', () => expectMalformed('{"results":[]}', 'application/json', 'response.emptyResults'));
+    it('필드 타입이 다른 결과', () => expectMalformed(
+        JSON.stringify({ results: [{ ...okResult, original_size: '100' }] }),
+        'application/json',
+        'response.notNumber',
+    ));
+    it('올바르지 않은 Base64', () => expectMalformed(
+        JSON.stringify({ results: [{ ...okResult, optimized_data: '***' }] }),
+        'application/json',
+        'response.invalidBase64',
+    ));
+    it('중간에 끊긴 결과 스트림', () => expectMalformed(
+        encodeResultStream([{ header: okResult, data: GIF_BYTES }]).slice(0, -2),
+        BINARY_RESULTS_MIME,
+        'response.streamTruncated',
+    ));
+});
+
+describe('optimizeGif 오류 분류', () => {
+    it('4xx는 서버 메시지를 담은 HttpError로 바꾸고 재시도하지 않는다', async () => {
+        const { client, requests } = await setup((_request, response) => sendJson(response, 413, { error: 'too large' }));
+        const error = await optimize(client).catch((err: unknown) => err);
+
+        expect(error).toBeInstanceOf(HttpError);
+        expect((error as HttpError).status).toBe(413);
+        expect((error as HttpError).serverMessage).toBe('too large');
+        expect(requests).toHaveLength(1);
+    });
+
+    it('5xx는 재시도 횟수만큼 다시 보낸 뒤 실패한다', async () => {
+        const { client, requests } = await setup((_request, response) => {
+            response.writeHead(502);
+            response.end('bad gateway');
+        });
+        const error = await optimize(client).catch((err: unknown) => err);
+
+        expect(error).toBeInstanceOf(HttpError);
+        expect((error as HttpError).serverMessage).toBe('');
+        expect(requests).toHaveLength(3);
+    });
+
+    it('429 뒤에 성공하면 결과를 돌려준다', async () => {
+        const { client, requests } = await setup((_request, response, index) => (
+            index === 0 ? sendJson(response, 429, { error: 'slow down' }) : sendJson(response, 200, { results: [okResult] })
+        ));
+        const result = await optimize(client);
+
+        expect(result.originalSize).toBe(100);
+        expect(requests).toHaveLength(2);
+    });
+
+    it('파일별 오류는 error_code에 따라 나눈다', async () => {
+        const { client } = await setup((_request, response, index) => sendJson(response, 200, {
+            results: [index === 0
+                ? { ...okResult, optimized_data: null, error: 'gifsicle missing', error_code: 'gifsicle_unavailable' }
+                : { ...okResult, optimized_data: null, error: 'broken gif', error_code: 'invalid_input' }],
+        }));
+
+        await expect(optimize(client)).rejects.toBeInstanceOf(GifsicleUnavailableError);
+        const error = await optimize(client).catch((err: unknown) => err);
+        expect(error).toBeInstanceOf(FileProcessingError);
+        expect((error as FileProcessingError).message).toBe('broken gif');
+        expect((error as FileProcessingError).code).toBe('invalid_input');
+    });
+
+    it('연결할 수 없는 서버는 NetworkError로 재시도 후 실패한다', async () => {
+        const stub = await startStubServer(() => undefined);
+        const baseUrl = stub.baseUrl;
+        await stub.close();
+        const client = createApiClient({ baseUrl, retries: 1, retryBaseDelayMs: 1, transport: createFetchTransport() });
+
+        await expect(optimize(client)).rejects.toBeInstanceOf(NetworkError);
+    });
+
+    it('제한 시간 안에 응답이 없으면 TimeoutError', async () => {
+        const { client } = await setup(() => undefined, { retries: 0, timeoutMs: 50 });
+
+        await expect(optimize(client)).rejects.toBeInstanceOf(TimeoutError);
+    });
+});
+
+describe('submitJob', () => {
+    it('재시도에도 같은 Idempotency-Key를 보낸다', async () => {
+        const { client, requests } = await setup((_request, response, index) => (
+            index === 0
+                ? sendJson(response, 503, {})
+                : sendJson(response, 202, { job_id: 'job-1', status: 'running', total: 1, completed: 0, files: [] })
+        ));
+        const status = await client.submitJob([{ file: new Blob([GIF_BYTES]), fileName: '1_a.gif', settings: DEFAULT_SETTINGS }]);
+
+        expect(status.jobId).toBe('job-1');
+        expect(requests).toHaveLength(2);
+        expect(requests[0].headers['idempotency-key']).toBeTruthy();
+        expect(requests[1].headers['idempotency-key']).toBe(requests[0].headers['idempotency-key']);
+    });
+});
+
+describe('isRetryableApiError', () => {
+    it.each([
+        [new NetworkError(), true],
+        [new TimeoutError(1000), true],
+        [new HttpError(429), true],
+        [new HttpError(500), true],
+        [new HttpError(503), true],
+        [new HttpError(400), false],
+        [new HttpError(404), false],
+        [new MalformedResponseError('response.emptyResults'), false],
+        [new FileProcessingError('a.gif', 'broken'), false],
+        [new GifsicleUnavailableError(), false],
+        [new Error('other'), false],
+    ])('%s → %s', (error, expected) => {
+        expect(isRetryableApiError(error)).toBe(expected);
+    });
+});
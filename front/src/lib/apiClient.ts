@@ -0,0 +1,398 @@
+// ------------------- 최적화 API 클라이언트 -------------------
+import type {
+    JobFileState,
+    JobFileStatus,
+    JobStatus,
+    OptimizationResult,
+    OptimizationSettings,
+    ServerResponse,
+} from '../types';
+import {
+    FileProcessingError,
+    GifsicleUnavailableError,
+    MalformedResponseError,
+    isRetryableApiError,
+} from './apiErrors';
+import { getJson, parseJsonBody, sendFormData, sendRequest } from './http';
+import type { FormResponse, FormTransport } from './http';
+import { sleep, withRetry } from './jobQueue';
+import { isOutputFormat } from './outputFormats';
+import { BINARY_RESULTS_MIME, createResultStreamParser, isBinaryResultsType } from './resultStream';
+import { buildEditList } from './timeline';
+import { decodeBase64InWorker } from './workerClient';
+
+export interface ApiClientOptions {
+    baseUrl: string;
+    // 요청 1회의 제한 시간 (0이면 제한 없음)
+    timeoutMs?: number;
+    // 재시도 가능한 오류일 때 추가로 시도할 횟수
+    retries?: number;
+    retryBaseDelayMs?: number;
+    // 기본값은 업로드 진행률을 받는 요청은 XMLHttpRequest, 나머지는 fetch로 보내는 sendFormData
+    // (테스트에서는 createFetchTransport를 주입해 로컬 스텁 서버를 상대로 같은 검증/재시도 로직을 실행)
+    transport?: FormTransport;
+    // 바이너리 결과 스트림을 요청 (서버가 지원하지 않으면 JSON 응답을 그대로 사용)
+    binaryResults?: boolean;
+}
+
+export interface OptimizeGifRequest {
+    file: Blob;
+    fileName: string;
+    settings: OptimizationSettings;
+}
+
+export interface OptimizeGifCallOptions {
+    signal?: AbortSignal;
+    onUploadProgress?: (ratio: number, attempt: number) => void;
+    // 시도마다 요청을 보내기 직전에 호출 (1부터 시작)
+    onAttempt?: (attempt: number) => void;
+    onRetry?: (nextAttempt: number, err: unknown) => void;
+}
+
+export interface OptimizedGif {
+    blob: Blob;
+    originalSize: number;
+    // 서버가 실제로 적용한 설정 (응답에 없으면 요청한 설정)
+    settings: OptimizationSettings;
+}
+
+export interface SubmitJobOptions {
+    signal?: AbortSignal;
+    onUploadProgress?: (ratio: number, attempt: number) => void;
+    onAttempt?: (attempt: number) => void;
+    onRetry?: (nextAttempt: number, err: unknown) => void;
+}
+
+export interface WatchJobOptions {
+    signal?: AbortSignal;
+    // 상태를 받을 때마다 호출 (마지막 호출은 모든 파일이 끝난 상태)
+    onStatus?: (status: JobStatus) => void;
+}
+
+export interface ApiClient {
+    optimizeGif: (request: OptimizeGifRequest, options?: OptimizeGifCallOptions) => Promise<OptimizedGif>;
+    // 비동기 작업 API: 여러 파일을 한 작업으로 올리고 상태를 조회해 파일별 결과를 받음
+    submitJob: (requests: OptimizeGifRequest[], options?: SubmitJobOptions) => Promise<JobStatus>;
+    getJob: (jobId: string, signal?: AbortSignal) => Promise<JobStatus>;
+    watchJob: (jobId: string, options?: WatchJobOptions) => Promise<JobStatus>;
+    fetchJobResult: (jobId: string, file: JobFileStatus, settings: OptimizationSettings, signal?: AbortSignal) => Promise<OptimizedGif>;
+    cancelJob: (jobId: string) => Promise<void>;
+}
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+// 작업 상태 조회처럼 본문이 작은 요청의 제한 시간
+const STATUS_TIMEOUT_MS = 15_000;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+
+/**
+ * 최적화 설정을 폼 필드로 추가합니다. 형식별 화질 옵션과 영상 변환 설정은 모두 보내고 서버가 필요한 값만 사용합니다.
+ * 출력 크기, 자르기 영역, 타임라인 편집은 지정했을 때만 보내며,
+ * 자르기 영역은 "x,y,width,height" 형식, 타임라인 편집은 JSON 편집 목록 한 필드로 보냅니다.
+ * suffix("_0" 등)를 붙이면 한 요청에 담긴 파일별 설정이 됩니다.
+ */
+const appendSettings = (formData: FormData, settings: OptimizationSettings, suffix = '') => {
+    formData.append(`format${suffix}`, settings.format);
+    formData.append(`lossy${suffix}`, settings.lossy.toString());
+    formData.append(`colors${suffix}`, settings.colors.toString());
+    formData.append(`webp_quality${suffix}`, settings.webpQuality.toString());
+    formData.append(`webp_lossless${suffix}`, settings.webpLossless.toString());
+    formData.append(`apng_colors${suffix}`, settings.apngColors?.toString() ?? '');
+    formData.append(`frame_step${suffix}`, settings.frameStep.toString());
+    formData.append(`speed${suffix}`, settings.speed.toString());
+    if (settings.width !== null) formData.append(`width${suffix}`, settings.width.toString());
+    if (settings.height !== null) formData.append(`height${suffix}`, settings.height.toString());
+    if (settings.crop) {
+        const { x, y, width, height } = settings.crop;
+        formData.append(`crop${suffix}`, [x, y, width, height].join(','));
+    }
+    if (settings.timeline) formData.append(`edits${suffix}`, JSON.stringify(buildEditList(settings.timeline)));
+
+    const { video } = settings;
+    formData.append(`video_fps${suffix}`, video.fps.toString());
+    formData.append(`video_start${suffix}`, video.start.toString());
+    formData.append(`video_end${suffix}`, video.end?.toString() ?? '');
+    formData.append(`video_width${suffix}`, video.width?.toString() ?? '');
+    formData.append(`palette_mode${suffix}`, video.paletteMode);
+};
+
+// 작업 생성 요청을 재시도해도 서버가 같은 작업으로 처리하도록 붙이는 키 (randomUUID는 보안 컨텍스트에서만 있음)
+const createIdempotencyKey = (): string => (
+    globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+const isOptionalNumber = (value: unknown): boolean => value === undefined || value === null || typeof value === 'number';
+
+/**
+ * 결과 항목 하나를 검증합니다. 필수 필드의 타입이 다르면 MalformedResponseError를 던집니다.
+ */
+export const validateOptimizationResult = (value: unknown): OptimizationResult => {
+    if (!isRecord(value)) throw new MalformedResponseError('response.notObject', { field: 'results[]' });
+    const { filename, original_size, optimized_data, optimized_size, lossy, colors, format, mime_type, error, error_code } = value;
+    if (typeof filename !== 'string') throw new MalformedResponseError('response.notString', { field: 'filename' });
+    if (typeof original_size !== 'number') throw new MalformedResponseError('response.notNumber', { field: 'original_size' });
+    if (optimized_data !== null && optimized_data !== undefined && typeof optimized_data !== 'string') {
+        throw new MalformedResponseError('response.notString', { field: 'optimized_data' });
+    }
+    if (!isOptionalNumber(optimized_size) || !isOptionalNumber(lossy) || !isOptionalNumber(colors)) {
+        throw new MalformedResponseError('response.notNumber', { field: 'optimized_size/lossy/colors' });
+    }
+    if ((format !== undefined && typeof format !== 'string') || (mime_type !== undefined && typeof mime_type !== 'string')) {
+        throw new MalformedResponseError('response.notString', { field: 'format/mime_type' });
+    }
+    if (error !== null && error !== undefined && typeof error !== 'string') {
+        throw new MalformedResponseError('response.notString', { field: 'error' });
+    }
+    if (error_code !== null && error_code !== undefined && typeof error_code !== 'string') {
+        throw new MalformedResponseError('response.notString', { field: 'error_code' });
+    }
+    return {
+        filename,
+        original_size,
+        optimized_data: optimized_data ?? null,
+        optimized_size: (optimized_size as number | null | undefined) ?? null,
+        lossy: (lossy as number | null | undefined) ?? undefined,
+        colors: (colors as number | null | undefined) ?? undefined,
+        format,
+        mime_type,
+        error: error ?? null,
+        error_code: error_code ?? null,
+    };
+};
+
+export const validateServerResponse = (value: unknown): ServerResponse => {
+    if (!isRecord(value)) throw new MalformedResponseError('response.notObject', { field: 'body' });
+    if (!Array.isArray(value.results)) throw new MalformedResponseError('response.missingArray', { field: 'results' });
+    return { results: value.results.map(validateOptimizationResult) };
+};
+
+const JOB_FILE_STATES: JobFileState[] = ['queued', 'processing', 'done', 'error'];
+
+const validateJobFileStatus = (value: unknown): JobFileStatus => {
+    if (!isRecord(value)) throw new MalformedResponseError('response.notObject', { field: 'files[]' });
+    const { index, filename, original_size, status, stage, duration_ms, result } = value;
+    if (typeof index !== 'number' || typeof filename !== 'string' || typeof original_size !== 'number') {
+        throw new MalformedResponseError('response.invalidValue', { field: 'index/filename/original_size' });
+    }
+    if (!JOB_FILE_STATES.includes(status as JobFileState)) throw new MalformedResponseError('response.invalidValue', { field: 'files[].status' });
+    return {
+        index,
+        filename,
+        originalSize: original_size,
+        status: status as JobFileState,
+        stage: stage === 'converting' || stage === 'optimizing' ? stage : null,
+        durationMs: typeof duration_ms === 'number' ? duration_ms : null,
+        result: result === null || result === undefined ? null : validateOptimizationResult(result),
+    };
+};
+
+/**
+ * /api/jobs 작업 상태 응답을 검증합니다. 파일별 결과 메타데이터는 결과 항목과 같은 규칙으로 검증합니다.
+ */
+export const validateJobStatus = (value: unknown): JobStatus => {
+    if (!isRecord(value)) throw new MalformedResponseError('response.notObject', { field: 'body' });
+    const { job_id, status, total, completed, poll_interval_ms, files } = value;
+    if (typeof job_id !== 'string') throw new MalformedResponseError('response.notString', { field: 'job_id' });
+    if (status !== 'running' && status !== 'done') throw new MalformedResponseError('response.invalidValue', { field: 'status' });
+    if (!Array.isArray(files)) throw new MalformedResponseError('response.missingArray', { field: 'files' });
+    return {
+        jobId: job_id,
+        status,
+        total: typeof total === 'number' ? total : files.length,
+        completed: typeof completed === 'number' ? completed : 0,
+        pollIntervalMs: typeof poll_interval_ms === 'number' && poll_interval_ms > 0 ? poll_interval_ms : DEFAULT_POLL_INTERVAL_MS,
+        files: files.map(validateJobFileStatus),
+    };
+};
+
+// 전송 형식과 관계없이 결과 메타데이터와 최적화된 결과 Blob을 한 쌍으로 다룸
+interface ParsedResult {
+    result: OptimizationResult;
+    blob: Blob | null;
+}
+
+// 파일별 오류 결과를 오류 분류에 맞는 예외로 변환
+const toResultError = (result: OptimizationResult): Error => {
+    if (result.error_code === 'gifsicle_unavailable') return new GifsicleUnavailableError();
+    return new FileProcessingError(result.filename, result.error ?? '', result.error_code ?? null);
+};
+
+// 서버가 실제로 적용한 설정 (형식을 보내지 않는 이전 서버는 항상 GIF를 만듦)
+const toAppliedSettings = (result: OptimizationResult, requested: OptimizationSettings): OptimizationSettings => ({
+    ...requested,
+    format: isOutputFormat(result.format) ? result.format : 'gif',
+    lossy: result.lossy ?? requested.lossy,
+    colors: result.colors ?? requested.colors,
+});
+
+// Base64 변환은 큰 결과에서 UI를 멈추게 하므로 워커에서 수행 (mime_type이 없는 이전 서버 응답은 GIF)
+const decodeBase64 = async (data: string, contentType: string = 'image/gif'): Promise<Blob> => {
+    try {
+        return await decodeBase64InWorker(data, contentType);
+    } catch {
+        throw new MalformedResponseError('response.invalidBase64', { field: 'optimized_data' });
+    }
+};
+
+// JSON 응답: Base64 데이터를 Blob으로 변환
+const parseJsonResults = (response: FormResponse): Promise<ParsedResult[]> => (
+    Promise.all(validateServerResponse(parseJsonBody(response.body)).results.map(async result => ({
+        result,
+        blob: result.optimized_data ? await decodeBase64(result.optimized_data, result.mime_type) : null,
+    })))
+);
+
+/**
+ * 바이너리 스트림 응답을 조각이 도착하는 대로 파싱하는 수집기를 만듭니다.
+ * 파싱 오류는 전송 콜백 밖에서 던질 수 있도록 보관했다가 finish에서 던집니다.
+ */
+const createStreamCollector = () => {
+    const parsed: ParsedResult[] = [];
+    let parseError: unknown = null;
+    const parser = createResultStreamParser(({ header, blob }) => {
+        parsed.push({ result: validateOptimizationResult(header), blob });
+    });
+
+    return {
+        onChunk: (chunk: Uint8Array<ArrayBuffer>, contentType: string) => {
+            if (parseError || !isBinaryResultsType(contentType)) return;
+            try {
+                parser.push(chunk);
+            } catch (err) {
+                parseError = err;
+            }
+        },
+        finish: (): ParsedResult[] => {
+            try {
+                if (parseError) throw parseError;
+                parser.end();
+            } catch (err) {
+                if (err instanceof MalformedResponseError) throw err;
+                throw new MalformedResponseError('response.unreadable', { detail: err instanceof Error ? err.message : String(err) });
+            }
+            return parsed;
+        },
+    };
+};
+
+/**
+ * /api/optimize-gif와 /api/jobs 클라이언트를 만듭니다. 요청마다 서버 주소(baseUrl)를 붙여 보냅니다.
+ */
+export const createApiClient = (options: ApiClientOptions): ApiClient => {
+    const {
+        baseUrl,
+        timeoutMs = DEFAULT_TIMEOUT_MS,
+        retries = DEFAULT_RETRIES,
+        retryBaseDelayMs = DEFAULT_RETRY_BASE_DELAY_MS,
+        transport = sendFormData,
+        binaryResults = true,
+    } = options;
+    const apiBase = baseUrl.replace(/\/+$/, '');
+    const endpoint = `${apiBase}/api/optimize-gif`;
+    const jobUrl = (jobId: string) => `${apiBase}/api/jobs/${encodeURIComponent(jobId)}`;
+    const retryOptions = { retries, baseDelayMs: retryBaseDelayMs, shouldRetry: isRetryableApiError };
+
+    const optimizeGif = (request: OptimizeGifRequest, callOptions: OptimizeGifCallOptions = {}): Promise<OptimizedGif> => {
+        const { signal, onUploadProgress, onAttempt, onRetry } = callOptions;
+
+        return withRetry(async attempt => {
+            onAttempt?.(attempt);
+            const formData = new FormData();
+            formData.append('file', request.file, request.fileName);
+            appendSettings(formData, request.settings);
+
+            const collector = createStreamCollector();
+            const response = await transport(endpoint, formData, {
+                signal,
+                timeoutMs,
+                headers: binaryResults ? { Accept: `${BINARY_RESULTS_MIME}, application/json;q=0.9` } : {},
+                // 진행률을 받지 않는 요청은 결과를 조각마다 파싱하는 전송으로 보냄
+                onUploadProgress: onUploadProgress && (ratio => onUploadProgress(ratio, attempt)),
+                onResponseChunk: collector.onChunk,
+            });
+            const parsed = isBinaryResultsType(response.contentType) ? collector.finish() : await parseJsonResults(response);
+            if (parsed.length === 0) throw new MalformedResponseError('response.emptyResults');
+            const { result, blob } = parsed[0];
+            if (result.error) throw toResultError(result);
+            if (!blob) throw new MalformedResponseError('response.missingData');
+
+            return { blob, originalSize: result.original_size, settings: toAppliedSettings(result, request.settings) };
+        }, {
+            retries,
+            baseDelayMs: retryBaseDelayMs,
+            signal,
+            shouldRetry: isRetryableApiError,
+            onRetry: (nextAttempt, _delayMs, err) => onRetry?.(nextAttempt, err),
+        });
+    };
+
+    // 파일별 설정은 "_<순서>" 접미사를 붙여 한 요청에 담음
+    // 서버가 작업을 만든 뒤 응답만 실패했을 수 있으므로 재시도에는 같은 Idempotency-Key를 보내 중복 작업을 막음
+    const submitJob = (requests: OptimizeGifRequest[], submitOptions: SubmitJobOptions = {}): Promise<JobStatus> => {
+        const { signal, onUploadProgress, onAttempt, onRetry } = submitOptions;
+        const idempotencyKey = createIdempotencyKey();
+        return withRetry(async attempt => {
+            onAttempt?.(attempt);
+            const formData = new FormData();
+            requests.forEach((request, index) => {
+                formData.append('file', request.file, request.fileName);
+                appendSettings(formData, request.settings, `_${index}`);
+            });
+            const response = await transport(`${apiBase}/api/jobs`, formData, {
+                signal,
+                timeoutMs,
+                onUploadProgress: onUploadProgress && (ratio => onUploadProgress(ratio, attempt)),
+                headers: { 'Idempotency-Key': idempotencyKey },
+            });
+            return validateJobStatus(parseJsonBody(response.body));
+        }, { ...retryOptions, signal, onRetry: (nextAttempt, _delayMs, err) => onRetry?.(nextAttempt, err) });
+    };
+
+    const getJob = (jobId: string, signal?: AbortSignal): Promise<JobStatus> => (
+        withRetry(async () => validateJobStatus(await getJson(jobUrl(jobId), { signal, timeoutMs: STATUS_TIMEOUT_MS })), { ...retryOptions, signal })
+    );
+
+    // 모든 파일이 끝날 때까지 서버가 알려준 간격으로 상태를 조회
+    const watchJob = async (jobId: string, watchOptions: WatchJobOptions = {}): Promise<JobStatus> => {
+        const { signal, onStatus } = watchOptions;
+        for (;;) {
+            const status = await getJob(jobId, signal);
+            onStatus?.(status);
+            if (status.status === 'done') return status;
+            await sleep(status.pollIntervalMs, signal);
+        }
+    };
+
+    /**
+     * 끝난 파일의 결과를 받습니다. 서버에서 실패한 파일은 optimizeGif와 같은 오류로 던집니다.
+     */
+    const fetchJobResult = async (
+        jobId: string,
+        file: JobFileStatus,
+        settings: OptimizationSettings,
+        signal?: AbortSignal,
+    ): Promise<OptimizedGif> => {
+        const { result } = file;
+        if (!result) throw new MalformedResponseError('response.missingJobResult');
+        if (result.error) throw toResultError(result);
+
+        const response = await withRetry(() => sendRequest(`${jobUrl(jobId)}/files/${file.index}`, {
+            signal,
+            timeoutMs,
+            accept: '*/*',
+        }), { ...retryOptions, signal });
+        const blob = new Blob([response.body], { type: result.mime_type ?? (response.contentType || 'image/gif') });
+        return { blob, originalSize: result.original_size, settings: toAppliedSettings(result, settings) };
+    };
+
+    const cancelJob = async (jobId: string): Promise<void> => {
+        await sendRequest(jobUrl(jobId), { method: 'DELETE', timeoutMs: STATUS_TIMEOUT_MS });
+    };
+
+    return { optimizeGif, submitJob, getJob, watchJob, fetchJobResult, cancelJob };
+};
@@ -0,0 +1,97 @@
+// ------------------- API 오류 분류 -------------------
+// 호출하는 쪽은 message 문자열 대신 kind로 오류 종류를 구분합니다.
+// message는 개발자용 설명이며, 사용자에게는 describeError가 현재 언어로 번역한 메시지를 보여줍니다.
+import type { MessageKey, MessageParams } from './i18n';
+
+export type ApiErrorKind =
+    | 'network'
+    | 'timeout'
+    | 'http'
+    | 'malformedResponse'
+    | 'fileError'
+    | 'gifsicleUnavailable';
+
+export class ApiError extends Error {
+    kind: ApiErrorKind;
+
+    constructor(kind: ApiErrorKind, message: string) {
+        super(message);
+        this.name = 'ApiError';
+        this.kind = kind;
+    }
+}
+
+// 서버에 연결하지 못함 (응답 없음)
+export class NetworkError extends ApiError {
+    constructor(message: string = 'Network error: the server is unreachable') {
+        super('network', message);
+        this.name = 'NetworkError';
+    }
+}
+
+export class TimeoutError extends ApiError {
+    timeoutMs: number;
+
+    constructor(timeoutMs: number) {
+        super('timeout', `Timed out after ${timeoutMs / 1000}s`);
+        this.name = 'TimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+// 2xx가 아닌 응답 (serverMessage는 응답 본문의 error 필드)
+export class HttpError extends ApiError {
+    status: number;
+    serverMessage: string;
+
+    constructor(status: number, serverMessage: string = '') {
+        super('http', `HTTP ${status}${serverMessage ? `: ${serverMessage}` : ''}`);
+        this.name = 'HttpError';
+        this.status = status;
+        this.serverMessage = serverMessage;
+    }
+}
+
+// 잘못된 응답의 세부 내용은 response.* 카탈로그 키로 전달
+export type MalformedResponseReason = Extract<MessageKey, `response.${string}`>;
+
+// 응답 형식이 약속한 스키마와 다름
+export class MalformedResponseError extends ApiError {
+    reason: MalformedResponseReason;
+    params: MessageParams;
+
+    constructor(reason: MalformedResponseReason, params: MessageParams = {}) {
+        super('malformedResponse', `Malformed response: ${reason}`);
+        this.name = 'MalformedResponseError';
+        this.reason = reason;
+        this.params = params;
+    }
+}
+
+// 요청은 성공했지만 서버가 이 파일을 처리하지 못함 (message는 서버가 보낸 오류, 없으면 빈 문자열)
+export class FileProcessingError extends ApiError {
+    filename: string;
+    code: string | null;
+
+    constructor(filename: string, message: string, code: string | null = null) {
+        super('fileError', message);
+        this.name = 'FileProcessingError';
+        this.filename = filename;
+        this.code = code;
+    }
+}
+
+// 서버에 gifsicle이 없어 어떤 파일도 처리할 수 없음
+export class GifsicleUnavailableError extends ApiError {
+    constructor() {
+        super('gifsicleUnavailable', 'gifsicle is not installed on the server');
+        this.name = 'GifsicleUnavailableError';
+    }
+}
+
+// 네트워크/시간 초과, 서버 과부하(429, 5xx)만 다시 시도할 가치가 있음
+export const isRetryableApiError = (err: unknown): boolean => {
+    if (!(err instanceof ApiError)) return false;
+    if (err.kind === 'network' || err.kind === 'timeout') return true;
+    return err instanceof HttpError && (err.status === 429 || err.status >= 500);
+};
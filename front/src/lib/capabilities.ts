@@ -0,0 +1,150 @@
+// ------------------- 서버 기능 정보 -------------------
+import type { OutputFormat } from '../types';
+import { HttpError, MalformedResponseError } from './apiErrors';
+import { getJson } from './http';
+import type { MessageKey } from './i18n';
+import { OUTPUT_FORMAT_IDS, isOutputFormat } from './outputFormats';
+
+export interface ParameterRange {
+    min: number;
+    max: number;
+}
+
+export type ParameterName =
+    | 'lossy'
+    | 'colors'
+    | 'frameStep'
+    | 'width'
+    | 'height'
+    | 'speed'
+    | 'webpQuality'
+    | 'apngColors'
+    | 'videoFps'
+    | 'videoWidth';
+
+export interface ServerCapabilities {
+    version: string;
+    gifsicle: boolean;
+    ffmpeg: boolean;
+    // 처리할 수 있는 입력 MIME 타입
+    inputTypes: string[];
+    outputFormats: OutputFormat[];
+    parameters: Record<ParameterName, ParameterRange>;
+    // 요청 1회의 최대 업로드 크기와 파일 수
+    maxUploadBytes: number;
+    maxFiles: number;
+    // 비동기 작업 API(/api/jobs) 지원 여부
+    jobs: boolean;
+}
+
+// checking: 확인 중 / online: 기능 정보 수신 / legacy: 엔드포인트가 없는 이전 서버 / offline: 연결 실패
+export type ServerStatus =
+    | { state: 'checking' }
+    | { state: 'online'; capabilities: ServerCapabilities }
+    | { state: 'legacy' }
+    | { state: 'offline'; error: unknown };
+
+// 기능 정보를 받기 전이나 이전 서버에서 쓰는 범위 (서버 기본 범위와 같음)
+export const DEFAULT_PARAMETER_RANGES: Record<ParameterName, ParameterRange> = {
+    lossy: { min: 0, max: 300 },
+    colors: { min: 2, max: 256 },
+    frameStep: { min: 1, max: 10 },
+    width: { min: 1, max: 4096 },
+    height: { min: 1, max: 4096 },
+    speed: { min: 0.25, max: 4 },
+    webpQuality: { min: 0, max: 100 },
+    apngColors: { min: 2, max: 256 },
+    videoFps: { min: 1, max: 30 },
+    videoWidth: { min: 1, max: 4096 },
+};
+
+// 서버 응답의 parameters 키
+const PARAMETER_KEYS: Record<ParameterName, string> = {
+    lossy: 'lossy',
+    colors: 'colors',
+    frameStep: 'frame_step',
+    width: 'width',
+    height: 'height',
+    speed: 'speed',
+    webpQuality: 'webp_quality',
+    apngColors: 'apng_colors',
+    videoFps: 'video_fps',
+    videoWidth: 'video_width',
+};
+
+const CAPABILITIES_TIMEOUT_MS = 10_000;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+// 범위가 없거나 잘못된 항목은 기본 범위를 사용
+const parseRange = (value: unknown, fallback: ParameterRange): ParameterRange => {
+    if (!isRecord(value) || typeof value.min !== 'number' || typeof value.max !== 'number' || value.min > value.max) {
+        return fallback;
+    }
+    return { min: value.min, max: value.max };
+};
+
+/**
+ * /api/capabilities 응답을 검증합니다. 필수 항목이 없으면 MalformedResponseError를 던지고,
+ * 설정값 범위는 빠진 항목만 기본값으로 채웁니다.
+ */
+export const validateCapabilities = (value: unknown): ServerCapabilities => {
+    if (!isRecord(value)) throw new MalformedResponseError('response.notObject', { field: 'body' });
+    const { version, gifsicle, ffmpeg, input_types, output_formats, parameters, max_upload_bytes, max_files, jobs } = value;
+    if (typeof version !== 'string') throw new MalformedResponseError('response.notString', { field: 'version' });
+    if (typeof gifsicle !== 'boolean') throw new MalformedResponseError('response.notBoolean', { field: 'gifsicle' });
+    if (typeof max_upload_bytes !== 'number' || typeof max_files !== 'number') {
+        throw new MalformedResponseError('response.notNumber', { field: 'max_upload_bytes/max_files' });
+    }
+    const rawParameters = isRecord(parameters) ? parameters : {};
+    const ranges = Object.fromEntries(Object.entries(PARAMETER_KEYS).map(([name, key]) => (
+        [name, parseRange(rawParameters[key], DEFAULT_PARAMETER_RANGES[name as ParameterName])]
+    ))) as Record<ParameterName, ParameterRange>;
+
+    return {
+        version,
+        gifsicle,
+        ffmpeg: ffmpeg === true,
+        inputTypes: Array.isArray(input_types) ? input_types.filter((t): t is string => typeof t === 'string') : ['image/gif'],
+        outputFormats: Array.isArray(output_formats) ? output_formats.filter(isOutputFormat) : (gifsicle ? ['gif'] : []),
+        parameters: ranges,
+        maxUploadBytes: max_upload_bytes,
+        maxFiles: max_files,
+        jobs: jobs === true,
+    };
+};
+
+/**
+ * 서버 기능 정보를 확인합니다. 실패해도 예외를 던지지 않고 상태로 돌려주며,
+ * 엔드포인트가 없는(404) 이전 서버는 GIF 최적화만 가능한 것으로 간주합니다.
+ */
+export const probeServer = async (baseUrl: string, signal?: AbortSignal): Promise<ServerStatus> => {
+    try {
+        const body = await getJson(`${baseUrl.replace(/\/+$/, '')}/api/capabilities`, { signal, timeoutMs: CAPABILITIES_TIMEOUT_MS });
+        return { state: 'online', capabilities: validateCapabilities(body) };
+    } catch (err) {
+        if (err instanceof HttpError && err.status === 404) return { state: 'legacy' };
+        if (signal?.aborted) throw err;
+        return { state: 'offline', error: err };
+    }
+};
+
+export const getParameterRanges = (status: ServerStatus): Record<ParameterName, ParameterRange> => (
+    status.state === 'online' ? status.capabilities.parameters : DEFAULT_PARAMETER_RANGES
+);
+
+// 출력할 수 있는 형식 (기능 정보가 없으면 모든 형식을 허용하고 서버 오류로 안내)
+export const getAvailableFormats = (status: ServerStatus): OutputFormat[] => (
+    status.state === 'online' ? status.capabilities.outputFormats : OUTPUT_FORMAT_IDS
+);
+
+// 업로드를 막아야 하는 이유의 메시지 키 (막지 않으면 null). 확인 중에는 막지 않음
+export const getUploadBlockReason = (status: ServerStatus): MessageKey | null => {
+    if (status.state === 'offline') return 'error.uploadBlockedOffline';
+    if (status.state === 'online' && status.capabilities.outputFormats.length === 0) {
+        return 'error.uploadBlockedNoFormats';
+    }
+    return null;
+};
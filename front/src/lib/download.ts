@@ -0,0 +1,16 @@
+// ------------------- 다운로드 -------------------
+export const triggerDownload = (url: string, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+// 메모리에서 만든 Blob을 파일로 내려받고, 다운로드가 시작될 시간을 준 뒤 URL 해제
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    triggerDownload(url, fileName);
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
@@ -0,0 +1,66 @@
+// ------------------- 파일 목록 정렬/필터 -------------------
+import type { GifFileState } from '../types';
+import { getChosenVariant } from './variants';
+
+export type FileStatus = 'pending' | 'optimized' | 'error';
+export type FileStatusFilter = 'all' | FileStatus;
+export type FileSortKey = 'added' | 'name' | 'size' | 'reduction';
+export type SortDirection = 'asc' | 'desc';
+
+export const FILE_STATUS_FILTERS: FileStatusFilter[] = ['all', 'pending', 'optimized', 'error'];
+export const FILE_SORT_KEYS: FileSortKey[] = ['added', 'name', 'size', 'reduction'];
+
+// 마지막 시도가 실패했으면 이전 결과가 있어도 오류로 분류
+export const getFileStatus = (fileState: GifFileState): FileStatus => {
+    if (fileState.error) return 'error';
+    return fileState.variants.length > 0 ? 'optimized' : 'pending';
+};
+
+export const isStatusFilter = (value: string): value is FileStatusFilter => (
+    (FILE_STATUS_FILTERS as string[]).includes(value)
+);
+
+export const isSortKey = (value: string): value is FileSortKey => (
+    (FILE_SORT_KEYS as string[]).includes(value)
+);
+
+export const countByStatus = (files: GifFileState[]): Record<FileStatusFilter, number> => {
+    const counts: Record<FileStatusFilter, number> = { all: files.length, pending: 0, optimized: 0, error: 0 };
+    files.forEach(f => {
+        counts[getFileStatus(f)]++;
+    });
+    return counts;
+};
+
+const nameCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * 상태로 거른 뒤 정렬한 새 배열을 돌려줍니다. 'added'는 목록에 추가한 순서입니다.
+ * 절감률로 정렬할 때 아직 결과가 없는 파일은 방향과 관계없이 뒤에 둡니다.
+ */
+export const arrangeFiles = (
+    files: GifFileState[],
+    filter: FileStatusFilter,
+    sortKey: FileSortKey,
+    direction: SortDirection,
+): GifFileState[] => {
+    const filtered = filter === 'all' ? [...files] : files.filter(f => getFileStatus(f) === filter);
+    const sign = direction === 'asc' ? 1 : -1;
+    switch (sortKey) {
+        case 'added':
+            return direction === 'asc' ? filtered : filtered.reverse();
+        case 'name':
+            return filtered.sort((a, b) => sign * nameCollator.compare(a.relativePath, b.relativePath));
+        case 'size':
+            return filtered.sort((a, b) => sign * (a.originalSize - b.originalSize));
+        case 'reduction':
+            return filtered.sort((a, b) => {
+                const rateA = getChosenVariant(a)?.reductionRate;
+                const rateB = getChosenVariant(b)?.reductionRate;
+                if (rateA === undefined || rateB === undefined) {
+                    return (rateA === undefined ? 1 : 0) - (rateB === undefined ? 1 : 0);
+                }
+                return sign * (rateA - rateB);
+            });
+    }
+};
@@ -0,0 +1,85 @@
+// ------------------- 파일 수집 -------------------
+// 파일 선택, 폴더 드롭, 클립보드 붙여넣기로 들어온 파일을 상대 경로와 함께 모읍니다.
+import { crc32 } from './zip';
+
+export interface SourceFile {
+    file: File;
+    // 드롭한 폴더 기준 상대 경로 (예: "cats/run.gif", 폴더가 아니면 파일 이름)
+    relativePath: string;
+}
+
+// 폴더 안에서는 GIF와 영상만 모음 (Thumbs.db, .DS_Store 같은 파일을 오류로 알리지 않도록)
+const FOLDER_FILE_PATTERN = /\.(gif|mp4|webm)$/i;
+
+const isDirectoryEntry = (entry: FileSystemEntry): entry is FileSystemDirectoryEntry => entry.isDirectory;
+const isFileEntry = (entry: FileSystemEntry): entry is FileSystemFileEntry => entry.isFile;
+
+const readFileEntry = (entry: FileSystemFileEntry): Promise<File> => new Promise((resolve, reject) => {
+    entry.file(resolve, reject);
+});
+
+const readDirectoryBatch = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => new Promise((resolve, reject) => {
+    reader.readEntries(resolve, reject);
+});
+
+// readEntries는 한 번에 일부(Chrome은 100개)만 돌려주므로 빈 배열이 나올 때까지 반복
+const readDirectory = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+    const reader = directory.createReader();
+    const entries: FileSystemEntry[] = [];
+    for (let batch = await readDirectoryBatch(reader); batch.length > 0; batch = await readDirectoryBatch(reader)) {
+        entries.push(...batch);
+    }
+    return entries;
+};
+
+// fullPath는 드롭한 항목 기준 경로("/cats/run.gif")이므로 앞의 /만 떼어 상대 경로로 사용
+const collectEntry = async (entry: FileSystemEntry, isInFolder: boolean): Promise<SourceFile[]> => {
+    if (isDirectoryEntry(entry)) {
+        const children = await readDirectory(entry);
+        const nested = await Promise.all(children.map(child => collectEntry(child, true)));
+        return nested.flat();
+    }
+    if (!isFileEntry(entry) || (isInFolder && !FOLDER_FILE_PATTERN.test(entry.name))) return [];
+    return [{ file: await readFileEntry(entry), relativePath: entry.fullPath.replace(/^\/+/, '') }];
+};
+
+/**
+ * 파일 목록을 그대로 수집 대상으로 바꿉니다. (폴더 선택 input이면 webkitRelativePath를 경로로 사용)
+ */
+export const toSourceFiles = (files: FileList | File[]): SourceFile[] => (
+    Array.from(files, file => ({ file, relativePath: file.webkitRelativePath || file.name }))
+);
+
+/**
+ * 드롭한 파일과 폴더를 모읍니다. 폴더는 하위 폴더까지 탐색하며 GIF/영상 파일만 포함합니다.
+ * 항목 목록은 drop 이벤트가 끝나면 비워지므로 이벤트 처리 중에 바로 호출해야 합니다.
+ */
+export const collectDroppedFiles = (dataTransfer: DataTransfer): Promise<SourceFile[]> => {
+    const entries = Array.from(dataTransfer.items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry())
+        .filter((entry): entry is FileSystemEntry => entry !== null);
+    // 항목 API를 지원하지 않는 브라우저는 폴더 없이 파일 목록만 사용
+    if (entries.length === 0) return Promise.resolve(toSourceFiles(dataTransfer.files));
+    return Promise.all(entries.map(entry => collectEntry(entry, false))).then(nested => nested.flat());
+};
+
+/**
+ * 붙여넣은 클립보드에서 파일만 꺼냅니다. (텍스트만 있으면 빈 배열)
+ */
+export const getPastedFiles = (clipboardData: DataTransfer | null): SourceFile[] => (
+    clipboardData ? toSourceFiles(clipboardData.files) : []
+);
+
+/**
+ * 중복 검사에 쓰는 파일 내용의 SHA-256 해시(16진수)입니다.
+ * HTTP로 연 LAN 주소처럼 보안 컨텍스트가 아니면 crypto.subtle이 없으므로 CRC-32와 크기로 대신합니다.
+ */
+export const hashFileContent = async (blob: Blob): Promise<string> => {
+    const buffer = await blob.arrayBuffer();
+    if (!globalThis.crypto?.subtle) {
+        return `crc32-${crc32(new Uint8Array(buffer)).toString(16).padStart(8, '0')}-${blob.size}`;
+    }
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', buffer));
+    return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
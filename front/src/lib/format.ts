@@ -0,0 +1,28 @@
+// ------------------- 표시 형식 -------------------
+// locale을 생략하면 브라우저 기본 locale로 숫자를 표시합니다. 화면에서는 useI18n()이 현재 언어로 묶어 둔 함수를 사용합니다.
+
+export const formatNumber = (value: number, locale?: string, options?: Intl.NumberFormatOptions): string => (
+    new Intl.NumberFormat(locale, options).format(value)
+);
+
+export const formatBytes = (bytes: number, decimals: number = 2, locale?: string): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const dm = decimals < 0 ? 0 : decimals;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return `${formatNumber(bytes / Math.pow(k, i), locale, { maximumFractionDigits: dm })} ${sizes[i]}`;
+};
+
+// percent는 0~100 범위의 값 (절감률 45.3 → "45.3%")
+export const formatPercent = (percent: number, fractionDigits: number = 1, locale?: string): string => (
+    formatNumber(percent / 100, locale, {
+        style: 'percent',
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits,
+    })
+);
+
+export const formatFrameRate = (fps: number, locale?: string): string => (
+    `${formatNumber(fps, locale, { maximumFractionDigits: 1 })} fps`
+);
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { decodeGif } from './gifDecoder';
+import type { DecodedGif } from './gifDecoder';
+import { LocalizedError } from './localizedError';
+import { buildGif, fill } from '../test/gifFixtures';
+import type { FixtureFrame, Rgb } from '../test/gifFixtures';
+import { SAMPLE_GIF, SAMPLE_INDICES, SAMPLE_PALETTE } from '../test/sampleGif';
+
+const RED: Rgb = [255, 0, 0];
+const GREEN: Rgb = [0, 255, 0];
+const BLUE: Rgb = [0, 0, 255];
+const WHITE: Rgb = [255, 255, 255];
+const CLEAR = [0, 0, 0, 0];
+
+const decode = (bytes: Uint8Array<ArrayBuffer>): DecodedGif => decodeGif(bytes.buffer);
+
+// 프레임 픽셀을 [r, g, b, a] 배열로 나눔
+const pixelsOf = (gif: DecodedGif, frame: number): number[][] => {
+    const pixels = Array.from(gif.frames[frame].pixels);
+    return Array.from({ length: pixels.length / 4 }, (_, i) => pixels.slice(i * 4, i * 4 + 4));
+};
+
+const opaque = (color: Rgb): number[] => [...color, 255];
+
+const expected = (indices: number[], palette: Rgb[]): number[][] => indices.map(index => opaque(palette[index]));
+
+// 같은 값을 반복하는 짧은 줄무늬와 의사 난수를 섞어 LZW 사전이 여러 번 커지게 함
+const patternedIndices = (count: number, colors: number): number[] => {
+    let seed = 7;
+    return Array.from({ length: count }, (_, i) => {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+        return i % 5 === 0 ? seed % colors : Math.floor(i / 3) % colors;
+    });
+};
+
+describe('decodeGif', () => {
+    it('알려진 예제 GIF를 픽셀로 푼다', () => {
+        const gif = decode(SAMPLE_GIF.slice());
+
+        expect(gif).toMatchObject({ width: 10, height: 10, duration: 100 });
+        expect(pixelsOf(gif, 0)).toEqual(expected(SAMPLE_INDICES, SAMPLE_PALETTE));
+    });
+
+    it('코드 크기가 커지고 사전이 초기화되는 LZW 데이터를 푼다', () => {
+        const palette: Rgb[] = Array.from({ length: 256 }, (_, i) => [i, 255 - i, (i * 7) % 256]);
+        const indices = patternedIndices(96 * 96, 256);
+        const gif = decode(buildGif({ width: 96, height: 96, globalPalette: palette, frames: [{ width: 96, height: 96, indices }] }));
+
+        expect(pixelsOf(gif, 0)).toEqual(expected(indices, palette));
+    });
+
+    it('인터레이스 프레임을 실제 행 순서로 되돌린다', () => {
+        const palette = [RED, GREEN, BLUE, WHITE];
+        const indices = patternedIndices(5 * 11, 4);
+        const frame: FixtureFrame = { width: 5, height: 11, indices };
+        const plain = decode(buildGif({ width: 5, height: 11, globalPalette: palette, frames: [frame] }));
+        const interlaced = decode(buildGif({ width: 5, height: 11, globalPalette: palette, frames: [{ ...frame, interlaced: true }] }));
+
+        expect(pixelsOf(interlaced, 0)).toEqual(expected(indices, palette));
+        expect(pixelsOf(interlaced, 0)).toEqual(pixelsOf(plain, 0));
+    });
+
+    it('로컬 팔레트가 있으면 그 프레임만 로컬 팔레트를 쓴다', () => {
+        const gif = decode(buildGif({
+            width: 2,
+            height: 1,
+            globalPalette: [RED, GREEN],
+            frames: [
+                { width: 2, height: 1, indices: [0, 1] },
+                { width: 2, height: 1, indices: [0, 1], localPalette: [BLUE, WHITE] },
+                { width: 2, height: 1, indices: [1, 0] },
+            ],
+        }));
+
+        expect(pixelsOf(gif, 0)).toEqual([opaque(RED), opaque(GREEN)]);
+        expect(pixelsOf(gif, 1)).toEqual([opaque(BLUE), opaque(WHITE)]);
+        expect(pixelsOf(gif, 2)).toEqual([opaque(GREEN), opaque(RED)]);
+    });
+
+    it('투명 인덱스는 이전 화면을 그대로 둔다', () => {
+        const gif = decode(buildGif({
+            width: 2,
+            height: 1,
+            globalPalette: [RED, GREEN],
+            frames: [
+                { width: 2, height: 1, indices: [0, 0] },
+                { width: 2, height: 1, indices: [1, 0], transparentIndex: 0 },
+            ],
+        }));
+
+        expect(pixelsOf(gif, 1)).toEqual([opaque(GREEN), opaque(RED)]);
+    });
+
+    // 1프레임: 전체 빨강, 2프레임: 가운데 2x2 파랑(disposal 지정), 3프레임: 전부 투명이라 처리된 화면이 그대로 보임
+    const disposalGif = (disposal: number) => decode(buildGif({
+        width: 4,
+        height: 4,
+        globalPalette: [RED, BLUE],
+        frames: [
+            { width: 4, height: 4, indices: fill(4, 4, 0), disposal: 1 },
+            { left: 1, top: 1, width: 2, height: 2, indices: fill(2, 2, 1), disposal },
+            { width: 4, height: 4, indices: fill(4, 4, 0), transparentIndex: 0 },
+        ],
+    }));
+    const isInner = (i: number) => [5, 6, 9, 10].includes(i);
+
+    it('disposal 2는 프레임 영역을 투명하게 지운다', () => {
+        const gif = disposalGif(2);
+
+        expect(pixelsOf(gif, 1).filter((_, i) => isInner(i))).toEqual(Array(4).fill(opaque(BLUE)));
+        expect(pixelsOf(gif, 2)).toEqual(Array.from({ length: 16 }, (_, i) => (isInner(i) ? CLEAR : opaque(RED))));
+    });
+
+    it('disposal 3은 프레임을 그리기 전 화면으로 되돌린다', () => {
+        const gif = disposalGif(3);
+
+        expect(pixelsOf(gif, 2)).toEqual(pixelsOf(gif, 0));
+        expect(pixelsOf(gif, 2)).toEqual(Array(16).fill(opaque(RED)));
+    });
+
+    it('disposal 1은 프레임을 남겨 둔다', () => {
+        const gif = disposalGif(1);
+
+        expect(pixelsOf(gif, 2)).toEqual(pixelsOf(gif, 1));
+    });
+
+    it('프레임 시작 시각과 전체 길이를 계산한다', () => {
+        const gif = decode(buildGif({
+            width: 1,
+            height: 1,
+            globalPalette: [RED, BLUE],
+            frames: [
+                { width: 1, height: 1, indices: [0], delayCs: 10 },
+                { width: 1, height: 1, indices: [1], delayCs: 25 },
+            ],
+        }));
+
+        expect(gif.frames.map(({ start, delay }) => ({ start, delay }))).toEqual([{ start: 0, delay: 100 }, { start: 100, delay: 250 }]);
+        expect(gif.duration).toBe(350);
+    });
+
+    it('잘린 파일은 오류', () => {
+        const bytes = SAMPLE_GIF.slice(0, SAMPLE_GIF.length - 5);
+        expect(() => decode(bytes)).toThrow(LocalizedError);
+    });
+});
@@ -0,0 +1,217 @@
+// ------------------- GIF 디코더 -------------------
+// 브라우저에서 GIF를 프레임 단위로 풀어 합성된 RGBA 픽셀과 타임스탬프를 제공합니다.
+// 모든 프레임을 전체 화면 크기로 보관하므로 큰 GIF는 메모리를 많이 사용합니다.
+import { parseGif } from './gifParser';
+
+export interface DecodedFrame {
+    // 이전 프레임까지 합성된 전체 화면 RGBA 픽셀 (width * height * 4)
+    pixels: Uint8ClampedArray<ArrayBuffer>;
+    // 애니메이션 시작 기준 표시 시작 시각과 표시 시간 (ms)
+    start: number;
+    delay: number;
+}
+
+export interface DecodedGif {
+    width: number;
+    height: number;
+    frames: DecodedFrame[];
+    duration: number;
+}
+
+const readColorTable = (bytes: Uint8Array, pos: number, size: number): Uint8Array => bytes.subarray(pos, pos + size * 3);
+
+const readSubBlocks = (bytes: Uint8Array, pos: number): { data: Uint8Array; next: number } => {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    while (pos < bytes.length) {
+        const size = bytes[pos++];
+        if (size === 0) break;
+        chunks.push(bytes.subarray(pos, pos + size));
+        total += size;
+        pos += size;
+    }
+    const data = new Uint8Array(total);
+    let offset = 0;
+    chunks.forEach(chunk => {
+        data.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return { data, next: pos };
+};
+
+/**
+ * GIF 이미지 데이터의 LZW 압축을 풀어 색상 인덱스 배열을 반환합니다.
+ */
+const decodeLzw = (data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array => {
+    const output = new Uint8Array(pixelCount);
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const prefix = new Uint16Array(4096);
+    const suffix = new Uint8Array(4096);
+    const stack = new Uint8Array(4097);
+
+    let codeSize = minCodeSize + 1;
+    let codeMask = (1 << codeSize) - 1;
+    let nextCode = endCode + 1;
+    let prevCode = -1;
+    let firstChar = 0;
+
+    let bitBuffer = 0;
+    let bitCount = 0;
+    let dataPos = 0;
+    let outPos = 0;
+
+    for (let i = 0; i < clearCode; i++) suffix[i] = i;
+
+    while (outPos < pixelCount) {
+        while (bitCount < codeSize) {
+            if (dataPos >= data.length) return output;
+            bitBuffer |= data[dataPos++] << bitCount;
+            bitCount += 8;
+        }
+        const code = bitBuffer & codeMask;
+        bitBuffer >>>= codeSize;
+        bitCount -= codeSize;
+
+        if (code === clearCode) {
+            codeSize = minCodeSize + 1;
+            codeMask = (1 << codeSize) - 1;
+            nextCode = endCode + 1;
+            prevCode = -1;
+            continue;
+        }
+        if (code === endCode) break;
+
+        if (prevCode === -1) {
+            output[outPos++] = suffix[code];
+            firstChar = suffix[code];
+            prevCode = code;
+            continue;
+        }
+
+        let stackTop = 0;
+        let current = code;
+        if (code >= nextCode) {
+            // KwKwK 경우: 아직 사전에 없는 코드
+            stack[stackTop++] = firstChar;
+            current = prevCode;
+        }
+        while (current > endCode) {
+            stack[stackTop++] = suffix[current];
+            current = prefix[current];
+        }
+        firstChar = suffix[current];
+        stack[stackTop++] = firstChar;
+
+        while (stackTop > 0 && outPos < pixelCount) {
+            output[outPos++] = stack[--stackTop];
+        }
+
+        if (nextCode < 4096) {
+            prefix[nextCode] = prevCode;
+            suffix[nextCode] = firstChar;
+            nextCode++;
+            if ((nextCode & codeMask) === 0 && nextCode < 4096) {
+                codeSize++;
+                codeMask = (1 << codeSize) - 1;
+            }
+        }
+        prevCode = code;
+    }
+    return output;
+};
+
+// 인터레이스된 행 순서를 실제 행 번호로 변환
+const deinterlace = (indices: Uint8Array, width: number, height: number): Uint8Array => {
+    const result = new Uint8Array(indices.length);
+    const passes = [[0, 8], [4, 8], [2, 4], [1, 2]];
+    let fromRow = 0;
+    passes.forEach(([startRow, step]) => {
+        for (let row = startRow; row < height; row += step) {
+            result.set(indices.subarray(fromRow * width, (fromRow + 1) * width), row * width);
+            fromRow++;
+        }
+    });
+    return result;
+};
+
+/**
+ * GIF 바이트를 디코딩해 프레임별로 합성된 픽셀과 타임스탬프를 반환합니다.
+ * 형식이 잘못되었거나 프레임이 없으면 Error를 던집니다.
+ */
+export const decodeGif = (buffer: ArrayBuffer): DecodedGif => {
+    const bytes = new Uint8Array(buffer);
+    const { info, globalColorTableOffset, frames: layouts } = parseGif(bytes);
+    const { width, height, globalPaletteSize } = info;
+    const globalColorTable = globalColorTableOffset !== null && globalPaletteSize !== null
+        ? readColorTable(bytes, globalColorTableOffset, globalPaletteSize)
+        : null;
+
+    const frames: DecodedFrame[] = [];
+    const canvas = new Uint8ClampedArray(width * height * 4);
+    let time = 0;
+
+    layouts.forEach(layout => {
+        const { left, top, width: frameWidth, height: frameHeight, disposal, delay } = layout;
+        const transparentIndex = layout.transparentIndex ?? -1;
+        const colorTable = layout.colorTableOffset !== null && layout.localPaletteSize !== null
+            ? readColorTable(bytes, layout.colorTableOffset, layout.localPaletteSize)
+            : globalColorTable!;
+
+        const { data } = readSubBlocks(bytes, layout.imageDataOffset);
+        let indices = decodeLzw(data, layout.minCodeSize, frameWidth * frameHeight);
+        if (layout.interlaced) indices = deinterlace(indices, frameWidth, frameHeight);
+
+        // 이전 상태로 복원(disposal 3)을 위해 그리기 전 화면 보관
+        const beforeDraw = disposal === 3 ? canvas.slice() : null;
+
+        for (let y = 0; y < frameHeight; y++) {
+            const canvasY = top + y;
+            if (canvasY >= height) break;
+            for (let x = 0; x < frameWidth; x++) {
+                const canvasX = left + x;
+                if (canvasX >= width) break;
+                const index = indices[y * frameWidth + x];
+                if (index === transparentIndex) continue;
+                const target = (canvasY * width + canvasX) * 4;
+                canvas[target] = colorTable[index * 3];
+                canvas[target + 1] = colorTable[index * 3 + 1];
+                canvas[target + 2] = colorTable[index * 3 + 2];
+                canvas[target + 3] = 255;
+            }
+        }
+
+        frames.push({ pixels: canvas.slice(), start: time, delay });
+        time += delay;
+
+        // 다음 프레임을 그리기 전에 현재 프레임의 disposal 적용
+        if (disposal === 2) {
+            for (let y = top; y < Math.min(height, top + frameHeight); y++) {
+                canvas.fill(0, (y * width + left) * 4, (y * width + Math.min(width, left + frameWidth)) * 4);
+            }
+        } else if (disposal === 3 && beforeDraw) {
+            canvas.set(beforeDraw);
+        }
+    });
+
+    return { width, height, frames, duration: time };
+};
+
+/**
+ * 주어진 시각(ms)에 화면에 표시되는 프레임 인덱스를 찾습니다. 시각은 전체 길이로 순환합니다.
+ * 서버가 프레임 수를 줄이므로 원본/결과 프레임은 인덱스가 아닌 시각으로 대응시켜야 합니다.
+ */
+export const findFrameAtTime = (gif: DecodedGif, time: number): number => {
+    const t = gif.duration > 0 ? ((time % gif.duration) + gif.duration) % gif.duration : 0;
+    let low = 0;
+    let high = gif.frames.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (gif.frames[mid].start <= t) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return low;
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { parseGif } from './gifParser';
+import { LocalizedError } from './localizedError';
+import { buildGif, fill } from '../test/gifFixtures';
+import type { Rgb } from '../test/gifFixtures';
+import { SAMPLE_GIF } from '../test/sampleGif';
+
+const RED: Rgb = [255, 0, 0];
+const BLUE: Rgb = [0, 0, 255];
+
+const twoFrames = (loopCount?: number) => buildGif({
+    width: 4,
+    height: 4,
+    globalPalette: [RED, BLUE],
+    loopCount,
+    frames: [
+        { width: 4, height: 4, indices: fill(4, 4, 0), delayCs: 5 },
+        {
+            left: 1,
+            top: 2,
+            width: 2,
+            height: 2,
+            indices: fill(2, 2, 1),
+            delayCs: 1,
+            disposal: 2,
+            transparentIndex: 0,
+            interlaced: true,
+            localPalette: [RED, BLUE, [0, 255, 0]],
+        },
+    ],
+});
+
+const errorKey = (run: () => void): string | null => {
+    try {
+        run();
+    } catch (err) {
+        return err instanceof LocalizedError ? err.key : 'unexpected';
+    }
+    return null;
+};
+
+describe('parseGif', () => {
+    it('알려진 예제 GIF의 화면 정보를 읽는다', () => {
+        const { info } = parseGif(SAMPLE_GIF);
+
+        expect(info).toMatchObject({ version: '89a', width: 10, height: 10, globalPaletteSize: 4, loopCount: null, duration: 100 });
+        expect(info.frames).toEqual([{
+            left: 0, top: 0, width: 10, height: 10, delay: 100, disposal: 0, localPaletteSize: null, interlaced: false, transparentIndex: null,
+        }]);
+    });
+
+    it('프레임별 위치, 지연, disposal, 로컬 팔레트, 인터레이스를 읽는다', () => {
+        const { info } = parseGif(twoFrames());
+
+        expect(info.globalPaletteSize).toBe(2);
+        expect(info.frames).toEqual([
+            { left: 0, top: 0, width: 4, height: 4, delay: 50, disposal: 0, localPaletteSize: null, interlaced: false, transparentIndex: null },
+            // 1cs 이하 지연은 브라우저처럼 100ms로 취급
+            { left: 1, top: 2, width: 2, height: 2, delay: 100, disposal: 2, localPaletteSize: 4, interlaced: true, transparentIndex: 0 },
+        ]);
+        expect(info.duration).toBe(150);
+    });
+
+    it('NETSCAPE 확장의 반복 횟수를 읽는다', () => {
+        expect(parseGif(twoFrames()).info.loopCount).toBeNull();
+        expect(parseGif(twoFrames(0)).info.loopCount).toBe(0);
+        expect(parseGif(twoFrames(3)).info.loopCount).toBe(3);
+    });
+
+    it('어디서 잘려도 잘린 파일로 알린다', () => {
+        const bytes = twoFrames(0);
+        for (let length = 6; length < bytes.length; length++) {
+            expect(errorKey(() => parseGif(bytes.slice(0, length))), `length ${length}`).toBe('error.gifTruncated');
+        }
+    });
+
+    it('GIF가 아니거나 손상된 블록이면 오류', () => {
+        expect(errorKey(() => parseGif(new TextEncoder().encode('PNG image')))).toBe('error.notGif');
+
+        const bytes = twoFrames();
+        // 첫 확장 블록 자리에 알 수 없는 블록 표시
+        bytes[13 + 6] = 0x99;
+        expect(errorKey(() => parseGif(bytes))).toBe('error.gifBadBlock');
+    });
+
+    it('팔레트가 하나도 없으면 오류', () => {
+        const bytes = buildGif({ width: 2, height: 2, frames: [{ width: 2, height: 2, indices: fill(2, 2, 0), localPalette: [RED, BLUE] }] });
+        // 로컬 팔레트 플래그를 지움
+        const descriptor = bytes.indexOf(0x2c);
+        bytes[descriptor + 9] &= 0x7f;
+        expect(errorKey(() => parseGif(bytes))).toBe('error.gifNoColorTable');
+    });
+});
@@ -0,0 +1,203 @@
+// ------------------- GIF 컨테이너 파서 -------------------
+// 픽셀을 풀지 않고 블록 구조만 읽어 메타데이터를 얻습니다. 디코더도 이 결과로 프레임 위치를 찾습니다.
+import { LocalizedError } from './localizedError';
+
+export interface GifFrameInfo {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    // 표시 시간 (ms). 브라우저들과 같이 0~1cs 지연은 100ms로 취급
+    delay: number;
+    // 0: 지정 안 함, 1: 그대로 둠, 2: 배경으로 지움, 3: 이전 화면으로 복원
+    disposal: number;
+    // 로컬 팔레트 색상 수 (없으면 null)
+    localPaletteSize: number | null;
+    interlaced: boolean;
+    transparentIndex: number | null;
+}
+
+export interface GifInfo {
+    version: '87a' | '89a';
+    // 논리 화면 크기
+    width: number;
+    height: number;
+    // 전역 팔레트 색상 수 (없으면 null)
+    globalPaletteSize: number | null;
+    // NETSCAPE 확장의 반복 횟수 (0: 무한 반복, null: 확장 없음 = 한 번 재생)
+    loopCount: number | null;
+    frames: GifFrameInfo[];
+    duration: number;
+}
+
+// 디코더용 프레임 위치 정보
+export interface GifFrameLayout extends GifFrameInfo {
+    // 로컬 팔레트 시작 위치 (없으면 null)
+    colorTableOffset: number | null;
+    minCodeSize: number;
+    // LZW 데이터 서브 블록 시작 위치
+    imageDataOffset: number;
+}
+
+export interface ParsedGif {
+    info: GifInfo;
+    globalColorTableOffset: number | null;
+    frames: GifFrameLayout[];
+}
+
+const MIN_DELAY_CS = 2;
+const DEFAULT_DELAY_MS = 100;
+
+export const isGifSignature = (bytes: Uint8Array): boolean => (
+    bytes.length >= 6
+    && bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46     // "GIF"
+    && bytes[3] === 0x38 && (bytes[4] === 0x37 || bytes[4] === 0x39) && bytes[5] === 0x61 // "87a" | "89a"
+);
+
+const truncated = (): Error => new LocalizedError('error.gifTruncated');
+
+const readUint16 = (bytes: Uint8Array, pos: number): number => bytes[pos] | (bytes[pos + 1] << 8);
+
+const asciiAt = (bytes: Uint8Array, pos: number, length: number): string => (
+    String.fromCharCode(...bytes.subarray(pos, pos + length))
+);
+
+// 서브 블록 묶음을 건너뛰고 종료 블록 다음 위치를 반환 (끝을 넘어가면 잘린 파일)
+const skipSubBlocks = (bytes: Uint8Array, pos: number): number => {
+    for (;;) {
+        if (pos >= bytes.length) throw truncated();
+        const size = bytes[pos++];
+        if (size === 0) return pos;
+        pos += size;
+    }
+};
+
+/**
+ * GIF 바이트의 블록 구조를 검증하며 읽습니다. 시그니처가 다르거나, 알 수 없는 블록이 있거나,
+ * 트레일러 전에 데이터가 끝나면 Error를 던집니다.
+ */
+export const parseGif = (bytes: Uint8Array): ParsedGif => {
+    if (!isGifSignature(bytes)) throw new LocalizedError('error.notGif');
+    if (bytes.length < 13) throw truncated();
+
+    const width = readUint16(bytes, 6);
+    const height = readUint16(bytes, 8);
+    const screenPacked = bytes[10];
+    let pos = 13;
+
+    let globalColorTableOffset: number | null = null;
+    let globalPaletteSize: number | null = null;
+    if (screenPacked & 0x80) {
+        globalPaletteSize = 1 << ((screenPacked & 0x07) + 1);
+        globalColorTableOffset = pos;
+        pos += globalPaletteSize * 3;
+    }
+
+    const frames: GifFrameLayout[] = [];
+    let loopCount: number | null = null;
+    let duration = 0;
+    // 다음 이미지에 적용될 Graphic Control Extension 값
+    let delayCs = 0;
+    let disposal = 0;
+    let transparentIndex: number | null = null;
+
+    for (;;) {
+        if (pos >= bytes.length) throw truncated();
+        const blockType = bytes[pos++];
+
+        if (blockType === 0x3b) break; // Trailer
+
+        if (blockType === 0x21) {
+            if (pos >= bytes.length) throw truncated();
+            const label = bytes[pos++];
+            if (label === 0xf9 && bytes[pos] === 4) {
+                if (pos + 5 > bytes.length) throw truncated();
+                const packed = bytes[pos + 1];
+                disposal = (packed >> 2) & 0x07;
+                delayCs = readUint16(bytes, pos + 2);
+                transparentIndex = packed & 0x01 ? bytes[pos + 4] : null;
+            } else if (label === 0xff && bytes[pos] === 11) {
+                // NETSCAPE2.0 / ANIMEXTS1.0 반복 횟수: [3][1][loop(u16)]
+                const identifier = asciiAt(bytes, pos + 1, 11);
+                const dataPos = pos + 12;
+                if ((identifier === 'NETSCAPE2.0' || identifier === 'ANIMEXTS1.0')
+                    && bytes[dataPos] === 3 && bytes[dataPos + 1] === 1 && dataPos + 4 <= bytes.length) {
+                    loopCount = readUint16(bytes, dataPos + 2);
+                }
+            }
+            pos = skipSubBlocks(bytes, pos);
+            continue;
+        }
+
+        if (blockType !== 0x2c) throw new LocalizedError('error.gifBadBlock');
+
+        // Image Descriptor
+        if (pos + 9 > bytes.length) throw truncated();
+        const imagePacked = bytes[pos + 8];
+        const frame: GifFrameLayout = {
+            left: readUint16(bytes, pos),
+            top: readUint16(bytes, pos + 2),
+            width: readUint16(bytes, pos + 4),
+            height: readUint16(bytes, pos + 6),
+            delay: delayCs < MIN_DELAY_CS ? DEFAULT_DELAY_MS : delayCs * 10,
+            disposal,
+            localPaletteSize: null,
+            interlaced: (imagePacked & 0x40) !== 0,
+            transparentIndex,
+            colorTableOffset: null,
+            minCodeSize: 0,
+            imageDataOffset: 0,
+        };
+        pos += 9;
+
+        if (imagePacked & 0x80) {
+            frame.localPaletteSize = 1 << ((imagePacked & 0x07) + 1);
+            frame.colorTableOffset = pos;
+            pos += frame.localPaletteSize * 3;
+        }
+        if (frame.localPaletteSize === null && globalPaletteSize === null) throw new LocalizedError('error.gifNoColorTable');
+
+        if (pos >= bytes.length) throw truncated();
+        frame.minCodeSize = bytes[pos++];
+        if (frame.minCodeSize < 1 || frame.minCodeSize > 11) throw new LocalizedError('error.gifBadImageData');
+        frame.imageDataOffset = pos;
+        pos = skipSubBlocks(bytes, pos);
+
+        frames.push(frame);
+        duration += frame.delay;
+        delayCs = 0;
+        disposal = 0;
+        transparentIndex = null;
+    }
+
+    if (frames.length === 0) throw new LocalizedError('error.gifNoFrames');
+
+    return {
+        info: {
+            version: bytes[4] === 0x37 ? '87a' : '89a',
+            width,
+            height,
+            globalPaletteSize,
+            loopCount,
+            // 위치 정보를 뺀 메타데이터만 노출
+            frames: frames.map(frame => ({
+                left: frame.left,
+                top: frame.top,
+                width: frame.width,
+                height: frame.height,
+                delay: frame.delay,
+                disposal: frame.disposal,
+                localPaletteSize: frame.localPaletteSize,
+                interlaced: frame.interlaced,
+                transparentIndex: frame.transparentIndex,
+            })),
+            duration,
+        },
+        globalColorTableOffset,
+        frames,
+    };
+};
+
+export const readGifInfo = async (blob: Blob): Promise<GifInfo> => (
+    parseGif(new Uint8Array(await blob.arrayBuffer())).info
+);
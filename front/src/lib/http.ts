@@ -0,0 +1,215 @@
+// ------------------- HTTP 전송 -------------------
+// fetch는 업로드 진행률을 알려주지 않고, XMLHttpRequest는 바이너리 응답을 끝날 때 한 번에만 넘겨줍니다.
+// 그래서 업로드 진행률이 필요한 요청은 XMLHttpRequest로, 나머지는 응답 조각을 도착하는 대로 넘기는 fetch로 보냅니다.
+// 어느 쪽이든 응답은 문자열 변환 없이 바이트 그대로 넘겨줍니다.
+import { NetworkError, TimeoutError, HttpError } from './apiErrors';
+
+export interface PostFormOptions {
+    signal?: AbortSignal;
+    // 0~1 사이의 업로드 진행률
+    onUploadProgress?: (ratio: number) => void;
+    // 0 또는 생략 시 제한 없음
+    timeoutMs?: number;
+    headers?: Record<string, string>;
+    // 성공 응답의 본문 조각이 도착할 때마다 호출 (XMLHttpRequest 전송은 응답이 끝났을 때 전체를 한 번에 넘김)
+    onResponseChunk?: (chunk: Uint8Array<ArrayBuffer>, contentType: string) => void;
+}
+
+export interface FormResponse {
+    contentType: string;
+    body: Uint8Array<ArrayBuffer>;
+}
+
+export type FormTransport = (url: string, formData: FormData, options?: PostFormOptions) => Promise<FormResponse>;
+
+export const isAbortError = (err: unknown): boolean => (
+    err instanceof DOMException && err.name === 'AbortError'
+);
+
+// 취소 오류는 isAbortError로 구분하고 표시할 때 번역하므로 메시지는 개발자용
+export const createAbortError = (): DOMException => new DOMException('The operation was aborted.', 'AbortError');
+
+// JSON 본문을 파싱 (JSON이 아니면 null)
+export const parseJsonBody = (body: Uint8Array<ArrayBuffer>): unknown => {
+    try {
+        return JSON.parse(new TextDecoder().decode(body));
+    } catch {
+        return null;
+    }
+};
+
+const readServerMessage = (body: Uint8Array<ArrayBuffer>): string => {
+    const error = (parseJsonBody(body) as { error?: unknown } | null)?.error;
+    return typeof error === 'string' ? error : '';
+};
+
+const concatChunks = (chunks: Uint8Array<ArrayBuffer>[]): Uint8Array<ArrayBuffer> => {
+    const body = new Uint8Array(chunks.reduce((acc, c) => acc + c.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+        body.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return body;
+};
+
+export const postFormData: FormTransport = (url, formData, options = {}) => (
+    new Promise<FormResponse>((resolve, reject) => {
+        const { signal, onUploadProgress, timeoutMs = 0, headers = {}, onResponseChunk } = options;
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+
+        const xhr = new XMLHttpRequest();
+        const handleAbort = () => xhr.abort();
+
+        xhr.open('POST', url);
+        // 텍스트로 받으면 UTF-16 사본이 생기고 바이트로 되돌리는 비용이 들므로 바이너리 그대로 받음
+        xhr.responseType = 'arraybuffer';
+        xhr.timeout = timeoutMs;
+        Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+        xhr.upload.onprogress = event => {
+            if (event.lengthComputable) onUploadProgress?.(event.loaded / event.total);
+        };
+        xhr.upload.onload = () => onUploadProgress?.(1);
+
+        xhr.onload = () => {
+            signal?.removeEventListener('abort', handleAbort);
+            const body = new Uint8Array(xhr.response instanceof ArrayBuffer ? xhr.response : new ArrayBuffer(0));
+            if (xhr.status >= 200 && xhr.status < 300) {
+                const contentType = xhr.getResponseHeader('Content-Type') ?? '';
+                onResponseChunk?.(body, contentType);
+                resolve({ contentType, body });
+                return;
+            }
+            reject(new HttpError(xhr.status, readServerMessage(body)));
+        };
+        xhr.onerror = () => {
+            signal?.removeEventListener('abort', handleAbort);
+            reject(new NetworkError());
+        };
+        xhr.ontimeout = () => {
+            signal?.removeEventListener('abort', handleAbort);
+            reject(new TimeoutError(timeoutMs));
+        };
+        xhr.onabort = () => {
+            signal?.removeEventListener('abort', handleAbort);
+            reject(createAbortError());
+        };
+
+        signal?.addEventListener('abort', handleAbort, { once: true });
+        xhr.send(formData);
+    })
+);
+
+/**
+ * fetch 기반 전송입니다. 응답 본문을 ReadableStream으로 읽어 조각마다 onResponseChunk로 넘깁니다.
+ * 업로드 진행률은 응답 헤더를 받을 때 한 번만 알립니다.
+ */
+export const createFetchTransport = (fetchImpl: typeof fetch = fetch): FormTransport => (
+    async (url, formData, options = {}) => {
+        const { signal, onUploadProgress, timeoutMs = 0, headers = {}, onResponseChunk } = options;
+        if (signal?.aborted) throw createAbortError();
+
+        const controller = new AbortController();
+        const handleAbort = () => controller.abort();
+        signal?.addEventListener('abort', handleAbort, { once: true });
+        let timedOut = false;
+        const timer = timeoutMs > 0
+            ? setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, timeoutMs)
+            : undefined;
+
+        try {
+            const response = await fetchImpl(url, { method: 'POST', body: formData, headers, signal: controller.signal });
+            onUploadProgress?.(1);
+            const contentType = response.headers.get('Content-Type') ?? '';
+            const chunks: Uint8Array<ArrayBuffer>[] = [];
+            const reader = response.body?.getReader();
+            while (reader) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                const chunk = new Uint8Array(value);
+                chunks.push(chunk);
+                if (response.ok) onResponseChunk?.(chunk, contentType);
+            }
+            const body = concatChunks(chunks);
+            if (!response.ok) throw new HttpError(response.status, readServerMessage(body));
+            return { contentType, body };
+        } catch (err) {
+            if (timedOut) throw new TimeoutError(timeoutMs);
+            if (signal?.aborted) throw createAbortError();
+            if (err instanceof HttpError) throw err;
+            throw new NetworkError();
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', handleAbort);
+        }
+    }
+);
+
+const fetchFormData = createFetchTransport();
+
+/**
+ * 기본 전송입니다. 업로드 진행률을 받는 요청은 XMLHttpRequest로 보내고,
+ * 그 밖의 요청은 결과 스트림을 조각마다 파싱할 수 있도록 fetch로 보냅니다.
+ */
+export const sendFormData: FormTransport = (url, formData, options = {}) => (
+    options.onUploadProgress && typeof XMLHttpRequest !== 'undefined'
+        ? postFormData(url, formData, options)
+        : fetchFormData(url, formData, options)
+);
+
+export interface RequestOptions {
+    method?: 'GET' | 'DELETE';
+    signal?: AbortSignal;
+    // 0 또는 생략 시 제한 없음
+    timeoutMs?: number;
+    accept?: string;
+}
+
+/**
+ * 본문 없는 GET/DELETE 요청을 보내고 응답 본문을 바이트로 받습니다.
+ * 오류는 업로드 전송과 같은 ApiError로 분류합니다.
+ */
+export const sendRequest = async (url: string, options: RequestOptions = {}): Promise<FormResponse> => {
+    const { method = 'GET', signal, timeoutMs = 0, accept = 'application/json' } = options;
+    if (signal?.aborted) throw createAbortError();
+
+    const controller = new AbortController();
+    const handleAbort = () => controller.abort();
+    signal?.addEventListener('abort', handleAbort, { once: true });
+    let timedOut = false;
+    const timer = timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs)
+        : undefined;
+
+    try {
+        const response = await fetch(url, { method, headers: { Accept: accept }, signal: controller.signal });
+        const body = new Uint8Array(await response.arrayBuffer());
+        if (!response.ok) throw new HttpError(response.status, readServerMessage(body));
+        return { contentType: response.headers.get('Content-Type') ?? '', body };
+    } catch (err) {
+        if (timedOut) throw new TimeoutError(timeoutMs);
+        if (signal?.aborted) throw createAbortError();
+        if (err instanceof HttpError) throw err;
+        throw new NetworkError();
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', handleAbort);
+    }
+};
+
+export type GetJsonOptions = Pick<RequestOptions, 'signal' | 'timeoutMs'>;
+
+// 작은 JSON 응답을 GET으로 받음
+export const getJson = async (url: string, options: GetJsonOptions = {}): Promise<unknown> => (
+    parseJsonBody((await sendRequest(url, options)).body)
+);
@@ -0,0 +1,117 @@
+// ------------------- 다국어 (i18n) -------------------
+// 메시지는 locales/의 언어별 카탈로그에 있고, 키는 한국어 카탈로그를 기준으로 타입이 정해집니다.
+// "{name}" 자리표시자를 값으로 바꾸며, count를 받는 메시지는 Intl.PluralRules로 복수형을 고릅니다.
+import { createContext, useContext } from 'react';
+import { ko } from '../locales/ko';
+import { en } from '../locales/en';
+import { FileProcessingError, GifsicleUnavailableError, HttpError, MalformedResponseError, NetworkError, TimeoutError } from './apiErrors';
+import { isAbortError } from './http';
+import { LocalizedError } from './localizedError';
+import { formatBytes, formatFrameRate, formatNumber, formatPercent } from './format';
+
+// 복수형 메시지 (other는 필수, 한국어처럼 구분이 없는 언어는 문자열 하나로 충분)
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof ko;
+export type MessageCatalog = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+export type Locale = 'ko' | 'en';
+
+export const LOCALES: Record<Locale, { label: string; catalog: MessageCatalog }> = {
+    ko: { label: '한국어', catalog: ko },
+    en: { label: 'English', catalog: en },
+};
+
+export const LOCALE_IDS = Object.keys(LOCALES) as Locale[];
+const DEFAULT_LOCALE: Locale = 'en';
+// 테마와 같이 사용자가 고른 언어를 localStorage에 기억
+const LOCALE_STORAGE_KEY = 'locale';
+
+export const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES;
+
+// 저장된 선택이 없으면 브라우저 언어 목록에서 지원하는 첫 언어를 고름
+export const detectLocale = (): Locale => {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+    const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+    for (const tag of preferred) {
+        const language = tag?.split('-')[0].toLowerCase();
+        if (isLocale(language)) return language;
+    }
+    return DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+};
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export interface I18n {
+    locale: Locale;
+    t: Translate;
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+    formatBytes: (bytes: number, decimals?: number) => string;
+    formatPercent: (percent: number, fractionDigits?: number) => string;
+    formatFrameRate: (fps: number) => string;
+    // 밀리초를 "1.25초"처럼 초 단위로 표시
+    formatSeconds: (ms: number, fractionDigits?: number) => string;
+}
+
+/**
+ * 언어 하나에 대한 번역/숫자 형식 함수를 만듭니다.
+ * 카탈로그에 없는 키는 한국어 메시지로, 그것도 없으면 키 자체로 표시합니다.
+ */
+export const createI18n = (locale: Locale): I18n => {
+    const catalog = LOCALES[locale].catalog;
+    const pluralRules = new Intl.PluralRules(locale);
+
+    const t: Translate = (key, params = {}) => {
+        const message: Message | undefined = catalog[key] ?? ko[key];
+        if (message === undefined) return key;
+        const template = typeof message === 'string'
+            ? message
+            : message[pluralRules.select(Number(params.count ?? 0))] ?? message.other;
+        return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+            const value = params[name];
+            if (value === undefined) return match;
+            return typeof value === 'number' ? formatNumber(value, locale) : value;
+        });
+    };
+
+    return {
+        locale,
+        t,
+        formatNumber: (value, options) => formatNumber(value, locale, options),
+        formatBytes: (bytes, decimals) => formatBytes(bytes, decimals, locale),
+        formatPercent: (percent, fractionDigits) => formatPercent(percent, fractionDigits, locale),
+        formatFrameRate: fps => formatFrameRate(fps, locale),
+        formatSeconds: (ms, fractionDigits = 2) => t('common.seconds', {
+            value: formatNumber(ms / 1000, locale, { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits }),
+        }),
+    };
+};
+
+/**
+ * 오류를 현재 언어의 메시지로 바꿉니다. 앱이 만든 오류는 카탈로그 메시지를 쓰고,
+ * 서버가 보낸 파일 오류나 브라우저가 만든 오류는 원래 메시지를 그대로 보여줍니다.
+ */
+export const describeError = (err: unknown, t: Translate): string => {
+    if (err instanceof LocalizedError) return t(err.key, err.params);
+    if (isAbortError(err)) return t('optimize.cancelled');
+    if (err instanceof NetworkError) return t('error.network');
+    if (err instanceof TimeoutError) return t('error.timeout', { seconds: err.timeoutMs / 1000 });
+    if (err instanceof HttpError) {
+        return t('error.http', { detail: err.serverMessage || t('error.httpStatus', { status: String(err.status) }) });
+    }
+    if (err instanceof MalformedResponseError) return t('error.malformedResponse', { detail: t(err.reason, err.params) });
+    if (err instanceof GifsicleUnavailableError) return t('error.gifsicleUnavailable');
+    if (err instanceof FileProcessingError) return err.message || t('optimize.failed');
+    return err instanceof Error ? err.message : String(err);
+};
+
+export const I18nContext = createContext<I18n>(createI18n('ko'));
+
+export const useI18n = (): I18n => useContext(I18nContext);
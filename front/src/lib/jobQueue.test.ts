@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { chunkByLimits, runJobQueue, withRetry } from './jobQueue';
+
+// 외부에서 끝낼 수 있는 Promise
+const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>(done => {
+        resolve = done;
+    });
+    return { promise, resolve };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('runJobQueue', () => {
+    it('동시에 concurrency개까지만 실행하고 순서대로 시작한다', async () => {
+        const gates = Array.from({ length: 5 }, deferred);
+        const started: number[] = [];
+        let running = 0;
+        let maxRunning = 0;
+        const done = runJobQueue([0, 1, 2, 3, 4], async index => {
+            started.push(index);
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await gates[index].promise;
+            running--;
+        }, 2);
+
+        await flush();
+        expect(started).toEqual([0, 1]);
+        gates[1].resolve();
+        await flush();
+        expect(started).toEqual([0, 1, 2]);
+        gates.forEach(gate => gate.resolve());
+        await done;
+
+        expect(started).toEqual([0, 1, 2, 3, 4]);
+        expect(maxRunning).toBe(2);
+    });
+
+    it('취소되면 아직 시작하지 않은 항목을 건너뛴다', async () => {
+        const controller = new AbortController();
+        const started: number[] = [];
+        await runJobQueue([0, 1, 2, 3], async index => {
+            started.push(index);
+            if (index === 1) controller.abort();
+        }, 1, controller.signal);
+
+        expect(started).toEqual([0, 1]);
+    });
+
+    it('빈 목록은 바로 끝난다', async () => {
+        await expect(runJobQueue([], async () => {}, 4)).resolves.toBeUndefined();
+    });
+});
+
+describe('withRetry', () => {
+    it('성공할 때까지 재시도하고 다음 시도 번호를 알린다', async () => {
+        const retries: number[] = [];
+        const result = await withRetry(async attempt => {
+            if (attempt < 3) throw new Error('fail');
+            return attempt;
+        }, { retries: 3, baseDelayMs: 1, onRetry: next => retries.push(next) });
+
+        expect(result).toBe(3);
+        expect(retries).toEqual([2, 3]);
+    });
+
+    it('재시도 횟수를 넘기거나 재시도할 오류가 아니면 마지막 오류를 던진다', async () => {
+        let calls = 0;
+        await expect(withRetry(async () => {
+            calls++;
+            throw new Error(`fail ${calls}`);
+        }, { retries: 2, baseDelayMs: 1 })).rejects.toThrow('fail 3');
+
+        calls = 0;
+        await expect(withRetry(async () => {
+            calls++;
+            throw new Error('fatal');
+        }, { retries: 5, baseDelayMs: 1, shouldRetry: () => false })).rejects.toThrow('fatal');
+        expect(calls).toBe(1);
+    });
+
+    it('재시도 대기 중에 취소되면 바로 AbortError로 끝난다', async () => {
+        const controller = new AbortController();
+        let calls = 0;
+        const startedAt = Date.now();
+        const result = withRetry(async () => {
+            calls++;
+            throw new Error('fail');
+        }, {
+            retries: 3,
+            baseDelayMs: 60_000,
+            signal: controller.signal,
+            onRetry: () => setTimeout(() => controller.abort(), 0),
+        });
+
+        await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+        expect(calls).toBe(1);
+        expect(Date.now() - startedAt).toBeLessThan(5_000);
+    });
+
+    it('이미 취소된 뒤의 실패는 재시도하지 않는다', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        let calls = 0;
+        await expect(withRetry(async () => {
+            calls++;
+            throw new Error('fail');
+        }, { retries: 3, baseDelayMs: 1, signal: controller.signal })).rejects.toThrow('fail');
+        expect(calls).toBe(1);
+    });
+});
+
+describe('chunkByLimits', () => {
+    const size = (bytes: number) => bytes;
+
+    it('파일 수와 전체 크기 제한을 넘지 않게 순서대로 나눈다', () => {
+        expect(chunkByLimits([1, 1, 1, 1, 1], size, 2, 100)).toEqual([[1, 1], [1, 1], [1]]);
+        expect(chunkByLimits([40, 40, 40, 10, 60], size, 10, 100)).toEqual([[40, 40], [40, 10], [60]]);
+        expect(chunkByLimits([50, 50], size, 10, 100)).toEqual([[50, 50]]);
+    });
+
+    it('혼자서 크기 제한을 넘는 항목은 단독 묶음이 된다', () => {
+        expect(chunkByLimits([250], size, 10, 100)).toEqual([[250]]);
+        expect(chunkByLimits([10, 250, 10, 20], size, 10, 100)).toEqual([[10], [250], [10, 20]]);
+    });
+
+    it('빈 목록은 빈 배열', () => {
+        expect(chunkByLimits([], size, 10, 100)).toEqual([]);
+    });
+});
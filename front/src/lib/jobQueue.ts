@@ -0,0 +1,87 @@
+// ------------------- 작업 큐 -------------------
+import { createAbortError } from './http';
+
+/**
+ * items를 최대 concurrency개씩 동시에 처리합니다.
+ * signal이 취소되면 아직 시작하지 않은 항목은 건너뜁니다. (진행 중인 작업의 취소는 worker가 처리)
+ */
+export const runJobQueue = async <T>(
+    items: T[],
+    worker: (item: T) => Promise<void>,
+    concurrency: number,
+    signal?: AbortSignal,
+): Promise<void> => {
+    let next = 0;
+    const runnerCount = Math.max(1, Math.min(concurrency, items.length));
+    const runners = Array.from({ length: runnerCount }, async () => {
+        while (next < items.length && !signal?.aborted) {
+            const item = items[next++];
+            await worker(item);
+        }
+    });
+    await Promise.all(runners);
+};
+
+// ------------------- 재시도 -------------------
+
+export interface RetryOptions {
+    retries: number;
+    baseDelayMs: number;
+    signal?: AbortSignal;
+    shouldRetry?: (err: unknown) => boolean;
+    onRetry?: (nextAttempt: number, delayMs: number, err: unknown) => void;
+}
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    const handleAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+/**
+ * 실패한 작업을 지수 백오프(baseDelayMs * 2^n + 지터)로 재시도합니다.
+ * attempt는 1부터 시작합니다.
+ */
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+    const { retries, baseDelayMs, signal, shouldRetry = () => true, onRetry } = options;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await task(attempt);
+        } catch (err) {
+            if (attempt > retries || signal?.aborted || !shouldRetry(err)) throw err;
+            const delayMs = baseDelayMs * 2 ** (attempt - 1) + Math.floor(Math.random() * baseDelayMs);
+            onRetry?.(attempt + 1, delayMs, err);
+            await sleep(delayMs, signal);
+        }
+    }
+};
+
+// ------------------- 요청 나누기 -------------------
+
+/**
+ * 요청 1회의 제한(파일 수, 전체 크기)을 넘지 않도록 순서를 유지하며 나눕니다.
+ * 혼자서 크기 제한을 넘는 항목은 단독 묶음이 되며, 서버가 거절하면 그 묶음만 실패합니다.
+ */
+export const chunkByLimits = <T>(items: T[], sizeOf: (item: T) => number, maxCount: number, maxBytes: number): T[][] => {
+    const chunks: T[][] = [];
+    let current: T[] = [];
+    let currentBytes = 0;
+    items.forEach(item => {
+        const size = sizeOf(item);
+        if (current.length > 0 && (current.length >= maxCount || currentBytes + size > maxBytes)) {
+            chunks.push(current);
+            current = [];
+            currentBytes = 0;
+        }
+        current.push(item);
+        currentBytes += size;
+    });
+    if (current.length > 0) chunks.push(current);
+    return chunks;
+};
@@ -0,0 +1,16 @@
+// ------------------- 번역할 오류 -------------------
+// 사용자에게 보일 오류는 문장 대신 카탈로그 키와 값을 담고, 표시하는 곳에서 describeError로 번역합니다.
+// 워커에서도 쓰므로 i18n 모듈은 타입만 가져옵니다.
+import type { MessageKey, MessageParams } from './i18n';
+
+export class LocalizedError extends Error {
+    key: MessageKey;
+    params: MessageParams;
+
+    constructor(key: MessageKey, params: MessageParams = {}) {
+        super(key);
+        this.name = 'LocalizedError';
+        this.key = key;
+        this.params = params;
+    }
+}
@@ -0,0 +1,55 @@
+// ------------------- 출력 형식 -------------------
+import type { OptimizationSettings, OutputFormat } from '../types';
+import type { Translate } from './i18n';
+
+export interface OutputFormatInfo {
+    label: string;
+    mimeType: string;
+    extension: string;
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+    gif: { label: 'GIF', mimeType: 'image/gif', extension: 'gif' },
+    webp: { label: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+    // APNG는 일반 PNG 뷰어에서도 열리도록 .png 확장자 사용
+    apng: { label: 'APNG', mimeType: 'image/apng', extension: 'png' },
+};
+
+export const OUTPUT_FORMAT_IDS: OutputFormat[] = ['gif', 'webp', 'apng'];
+
+export const isOutputFormat = (value: unknown): value is OutputFormat => (
+    typeof value === 'string' && (OUTPUT_FORMAT_IDS as string[]).includes(value)
+);
+
+// MIME 타입으로 출력 형식 판별 (image/png도 APNG로 취급, 모르면 null)
+export const getFormatByMimeType = (mimeType: string): OutputFormat | null => {
+    const type = mimeType.split(';')[0].trim().toLowerCase();
+    if (type === 'image/png') return 'apng';
+    return OUTPUT_FORMAT_IDS.find(format => OUTPUT_FORMATS[format].mimeType === type) ?? null;
+};
+
+// 다운로드 파일명: optimized_<원본 이름>.<출력 형식 확장자>
+export const buildOutputName = (originalName: string, format: OutputFormat): string => {
+    const baseName = originalName.replace(/\.[^./\\]+$/, '');
+    return `optimized_${baseName}.${OUTPUT_FORMATS[format].extension}`;
+};
+
+// ZIP 안의 경로: 폴더로 추가한 파일은 원래 폴더 구조를 유지 (예: "cats/optimized_run.gif")
+export const buildOutputPath = (relativePath: string, format: OutputFormat): string => {
+    const slash = relativePath.lastIndexOf('/');
+    return relativePath.slice(0, slash + 1) + buildOutputName(relativePath.slice(slash + 1), format);
+};
+
+// 형식에 맞는 화질 설정 요약 (예: "lossy 200 / colors 64", "quality 80")
+export const describeQuality = (settings: OptimizationSettings, t: Translate): string => {
+    switch (settings.format) {
+        case 'webp':
+            return settings.webpLossless
+                ? t('format.losslessSummary', { effort: settings.webpQuality })
+                : `quality ${settings.webpQuality}`;
+        case 'apng':
+            return settings.apngColors === null ? t('format.allColors') : `colors ${settings.apngColors}`;
+        default:
+            return `lossy ${settings.lossy} / colors ${settings.colors}`;
+    }
+};
@@ -0,0 +1,100 @@
+// ------------------- 최적화 프리셋 -------------------
+import type { OptimizationSettings } from '../types';
+import type { MessageKey } from './i18n';
+import { DEFAULT_SETTINGS, sanitizeSettings, withoutFileEdits } from './settings';
+import { LocalizedError } from './localizedError';
+
+export interface OptimizationPreset {
+    name: string;
+    settings: OptimizationSettings;
+    // 기본 프리셋의 표시 이름 (name은 공유 링크에 쓰이므로 언어와 관계없이 유지)
+    labelKey?: MessageKey;
+}
+
+// 팀에서 자주 쓰는 조합을 기본 제공
+export const BUILT_IN_PRESETS: OptimizationPreset[] = [
+    { name: 'Slack 이모지', labelKey: 'preset.slackEmoji', settings: { ...DEFAULT_SETTINGS, lossy: 200, colors: 32, width: 128 } },
+    { name: 'README 데모', labelKey: 'preset.readmeDemo', settings: { ...DEFAULT_SETTINGS, lossy: 80, colors: 128 } },
+    { name: 'Jira 첨부', labelKey: 'preset.jiraAttachment', settings: { ...DEFAULT_SETTINGS, lossy: 150, colors: 64 } },
+    { name: '최고 화질', labelKey: 'preset.bestQuality', settings: { ...DEFAULT_SETTINGS, lossy: 0, colors: 256, frameStep: 1 } },
+    { name: '웹용 WebP', labelKey: 'preset.webWebp', settings: { ...DEFAULT_SETTINGS, format: 'webp', webpQuality: 75 } },
+];
+
+const STORAGE_KEY = 'gif-optimizer-presets';
+const EXPORT_VERSION = 1;
+
+const sanitizePresets = (value: unknown): OptimizationPreset[] => {
+    if (!Array.isArray(value)) return [];
+    return value.flatMap(item => {
+        const name = typeof item?.name === 'string' ? item.name.trim() : '';
+        const settings = sanitizeSettings(item?.settings);
+        // 자르기 영역, 타임라인 편집, 영상 구간은 파일마다 다르므로 프리셋에 담지 않음
+        return name && settings ? [{ name, settings: withoutFileEdits(settings) }] : [];
+    });
+};
+
+export const loadUserPresets = (): OptimizationPreset[] => {
+    try {
+        return sanitizePresets(JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]'));
+    } catch {
+        return [];
+    }
+};
+
+export const saveUserPresets = (presets: OptimizationPreset[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const exportPresets = (presets: OptimizationPreset[]): string => (
+    JSON.stringify({ version: EXPORT_VERSION, presets }, null, 2)
+);
+
+/**
+ * 내보낸 프리셋 JSON을 읽습니다. { version, presets } 형식과 프리셋 배열만 있는 형식을 모두 받습니다.
+ */
+export const parsePresetsJson = (text: string): OptimizationPreset[] => {
+    const parsed: unknown = JSON.parse(text);
+    const list = Array.isArray(parsed) ? parsed : (parsed as { presets?: unknown })?.presets;
+    const presets = sanitizePresets(list);
+    if (presets.length === 0) throw new LocalizedError('error.noValidPresets');
+    return presets;
+};
+
+// 같은 이름은 나중 것으로 덮어써서 병합
+export const mergePresets = (base: OptimizationPreset[], incoming: OptimizationPreset[]): OptimizationPreset[] => {
+    const merged = new Map(base.map(p => [p.name, p]));
+    incoming.forEach(p => merged.set(p.name, p));
+    return [...merged.values()];
+};
+
+// URL 쿼리로 주고받는 설정 항목 (자르기 영역과 타임라인 편집은 파일마다 다르므로 제외)
+const QUERY_KEYS = [
+    'format', 'lossy', 'colors', 'webpQuality', 'webpLossless', 'apngColors', 'frameStep', 'width', 'height', 'speed',
+] as const;
+
+/**
+ * 페이지 URL 쿼리에서 설정을 읽습니다. ?preset=이름 또는 ?lossy=..&colors=.. 형식을 지원하며,
+ * 둘 다 있으면 프리셋 위에 개별 값을 덮어씁니다.
+ */
+export const settingsFromQuery = (search: string, presets: OptimizationPreset[]): OptimizationSettings | null => {
+    const params = new URLSearchParams(search);
+    const preset = presets.find(p => p.name === params.get('preset'));
+    if (!preset && !QUERY_KEYS.some(key => params.has(key))) return null;
+
+    const base: Record<string, unknown> = { ...(preset?.settings ?? DEFAULT_SETTINGS) };
+    QUERY_KEYS.forEach(key => {
+        if (params.has(key)) base[key] = params.get(key);
+    });
+    return sanitizeSettings(base);
+};
+
+export const buildShareUrl = (settings: OptimizationSettings, presetName?: string): string => {
+    const url = new URL(window.location.href);
+    url.search = '';
+    if (presetName) url.searchParams.set('preset', presetName);
+    QUERY_KEYS.forEach(key => {
+        const value = settings[key];
+        if (value !== null) url.searchParams.set(key, value.toString());
+    });
+    return url.toString();
+};
@@ -0,0 +1,40 @@
+// ------------------- 처리 워커 진입점 -------------------
+import { isAbortError } from './http';
+import { LocalizedError } from './localizedError';
+import { evictOriginal, runProcessingTask } from './processingTasks';
+import type { WorkerRequest, WorkerResponse } from './workerProtocol';
+
+const controllers = new Map<number, AbortController>();
+
+const respond = (response: WorkerResponse, transfer: Transferable[] = []) => {
+    self.postMessage(response, { transfer });
+};
+
+self.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data;
+    if (request.type === 'cancel') {
+        controllers.get(request.id)?.abort();
+        return;
+    }
+    if (request.type === 'evictOriginal') {
+        evictOriginal(request.source);
+        return;
+    }
+
+    const controller = new AbortController();
+    controllers.set(request.id, controller);
+    try {
+        const { result, transfer } = await runProcessingTask(request, controller.signal);
+        respond({ id: request.id, ok: true, result }, transfer);
+    } catch (err) {
+        respond({
+            id: request.id,
+            ok: false,
+            error: err instanceof Error ? err.message : String(err),
+            aborted: isAbortError(err),
+            ...(err instanceof LocalizedError ? { messageKey: err.key, messageParams: err.params } : {}),
+        });
+    } finally {
+        controllers.delete(request.id);
+    }
+});
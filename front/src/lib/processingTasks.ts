@@ -0,0 +1,112 @@
+// ------------------- 처리 작업 구현 (워커/메인 스레드 공용) -------------------
+import { decodeGif } from './gifDecoder';
+import type { DecodedGif } from './gifDecoder';
+import { computeQualityMetrics } from './qualityMetrics';
+import { createThumbnails } from './thumbnails';
+import { createAbortError } from './http';
+import { LocalizedError } from './localizedError';
+import type { GifSource, WorkerTaskMap, WorkerTaskRequest, WorkerTaskType } from './workerProtocol';
+
+export interface TaskOutput<K extends WorkerTaskType = WorkerTaskType> {
+    result: WorkerTaskMap[K]['result'];
+    // 복사하지 않고 소유권을 넘길 버퍼
+    transfer: Transferable[];
+}
+
+// 디코딩된 원본은 모든 프레임을 전체 화면 크기로 보관하므로 개수가 아니라 픽셀 바이트 합계로 제한
+const MAX_CACHED_ORIGINAL_BYTES = 256 * 1024 * 1024;
+// object URL별 원본 디코딩 결과 (오래된 것부터 제거)
+const originalCache = new Map<string, DecodedGif>();
+let cachedOriginalBytes = 0;
+
+const throwIfAborted = (signal: AbortSignal) => {
+    if (signal.aborted) throw createAbortError();
+};
+
+const readSource = async (source: GifSource): Promise<ArrayBuffer> => {
+    if (source instanceof ArrayBuffer) return source;
+    if (typeof source === 'string') return (await fetch(source)).arrayBuffer();
+    return source.arrayBuffer();
+};
+
+const decodeSource = async (source: GifSource, signal: AbortSignal): Promise<DecodedGif> => {
+    const buffer = await readSource(source);
+    throwIfAborted(signal);
+    return decodeGif(buffer);
+};
+
+const getDecodedBytes = (decoded: DecodedGif): number => (
+    decoded.frames.reduce((sum, frame) => sum + frame.pixels.byteLength, 0)
+);
+
+/**
+ * 캐시된 원본 디코딩 결과를 버립니다. 원본의 object URL을 해제할 때 호출합니다.
+ */
+export const evictOriginal = (source: string) => {
+    const cached = originalCache.get(source);
+    if (!cached) return;
+    originalCache.delete(source);
+    cachedOriginalBytes -= getDecodedBytes(cached);
+};
+
+const decodeOriginal = async (source: GifSource, signal: AbortSignal): Promise<DecodedGif> => {
+    if (typeof source !== 'string') return decodeSource(source, signal);
+    const cached = originalCache.get(source);
+    if (cached) {
+        // 최근에 쓴 항목을 맨 뒤로 옮김
+        originalCache.delete(source);
+        originalCache.set(source, cached);
+        return cached;
+    }
+
+    const decoded = await decodeSource(source, signal);
+    const bytes = getDecodedBytes(decoded);
+    // 혼자서 한도를 넘는 원본은 캐시하지 않음
+    if (bytes > MAX_CACHED_ORIGINAL_BYTES) return decoded;
+    evictOriginal(source);
+    while (originalCache.size > 0 && cachedOriginalBytes + bytes > MAX_CACHED_ORIGINAL_BYTES) {
+        evictOriginal(originalCache.keys().next().value!);
+    }
+    originalCache.set(source, decoded);
+    cachedOriginalBytes += bytes;
+    return decoded;
+};
+
+const decodeBase64 = (data: string, contentType: string): Blob => {
+    let binary: string;
+    try {
+        binary = atob(data);
+    } catch {
+        throw new LocalizedError('error.invalidBase64');
+    }
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: contentType });
+};
+
+/**
+ * 요청 하나를 실행합니다. 워커에서는 메시지마다, 워커를 쓸 수 없는 환경에서는 메인 스레드에서 호출됩니다.
+ */
+export const runProcessingTask = async (request: WorkerTaskRequest, signal: AbortSignal): Promise<TaskOutput> => {
+    throwIfAborted(signal);
+    switch (request.type) {
+        case 'decodeBase64':
+            return { result: decodeBase64(request.params.data, request.params.contentType), transfer: [] };
+        case 'decodeGif': {
+            const decoded = await decodeSource(request.params.source, signal);
+            return { result: decoded, transfer: decoded.frames.map(frame => frame.pixels.buffer) };
+        }
+        case 'measureQuality': {
+            const original = await decodeOriginal(request.params.original, signal);
+            const optimized = await decodeSource(request.params.optimized, signal);
+            return { result: await computeQualityMetrics(original, optimized, signal, request.params.transform), transfer: [] };
+        }
+        case 'frameThumbnails': {
+            const original = await decodeOriginal(request.params.source, signal);
+            const thumbnails = createThumbnails(original, request.params.maxSize);
+            return { result: thumbnails, transfer: thumbnails.frames.map(pixels => pixels.buffer) };
+        }
+    }
+};
@@ -0,0 +1,159 @@
+// ------------------- 화질 지표 (PSNR / SSIM) -------------------
+import { findFrameAtTime } from './gifDecoder';
+import type { DecodedGif } from './gifDecoder';
+import type { CropRect, OptimizationSettings } from '../types';
+import { clampCrop } from './settings';
+import { getFrameSequence } from './timeline';
+import { createAbortError } from './http';
+
+export interface FrameQuality {
+    // 비교한 원본 프레임의 표시 시각 (ms)
+    time: number;
+    psnr: number;
+    ssim: number;
+}
+
+export interface QualityMetrics {
+    averagePsnr: number;
+    averageSsim: number;
+    worstPsnr: number;
+    worstSsim: number;
+    // SSIM이 가장 낮은 프레임의 시각 (ms)
+    worstFrameTime: number;
+    frames: FrameQuality[];
+}
+
+// 프레임이 완전히 같을 때 PSNR은 무한대이므로 표시/평균용 상한을 둠
+export const MAX_PSNR = 100;
+
+const SSIM_WINDOW = 8;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+// 결과를 만들 때 적용한 변환 중 비교 위치에 영향을 주는 항목
+export type QualityTransform = Pick<OptimizationSettings, 'crop' | 'speed' | 'timeline'>;
+
+/**
+ * 원본 크기에 맞춰 두 프레임을 RGB(투명 영역은 흰 배경)와 휘도 평면으로 변환합니다.
+ * 결과의 해상도가 다르면 최근접 이웃 방식으로 원본 좌표에 맞춰 샘플링합니다.
+ * region을 주면 프레임의 그 영역만 샘플링합니다 (자른 결과와 비교할 때).
+ */
+const toPlanes = (
+    pixels: Uint8ClampedArray,
+    srcWidth: number,
+    srcHeight: number,
+    width: number,
+    height: number,
+    region: CropRect = { x: 0, y: 0, width: srcWidth, height: srcHeight },
+) => {
+    const rgb = new Float32Array(width * height * 3);
+    const luma = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+        const sy = Math.min(srcHeight - 1, region.y + Math.floor((y * region.height) / height));
+        for (let x = 0; x < width; x++) {
+            const sx = Math.min(srcWidth - 1, region.x + Math.floor((x * region.width) / width));
+            const src = (sy * srcWidth + sx) * 4;
+            const dst = y * width + x;
+            const opaque = pixels[src + 3] > 0;
+            const r = opaque ? pixels[src] : 255;
+            const g = opaque ? pixels[src + 1] : 255;
+            const b = opaque ? pixels[src + 2] : 255;
+            rgb[dst * 3] = r;
+            rgb[dst * 3 + 1] = g;
+            rgb[dst * 3 + 2] = b;
+            luma[dst] = 0.299 * r + 0.587 * g + 0.114 * b;
+        }
+    }
+    return { rgb, luma };
+};
+
+const computePsnr = (a: Float32Array, b: Float32Array): number => {
+    let squaredError = 0;
+    for (let i = 0; i < a.length; i++) {
+        const diff = a[i] - b[i];
+        squaredError += diff * diff;
+    }
+    const mse = squaredError / a.length;
+    if (mse === 0) return MAX_PSNR;
+    return Math.min(MAX_PSNR, 10 * Math.log10((255 * 255) / mse));
+};
+
+// 겹치지 않는 8x8 창 단위로 휘도 SSIM을 계산해 평균
+const computeSsim = (a: Float32Array, b: Float32Array, width: number, height: number): number => {
+    let total = 0;
+    let windows = 0;
+    for (let wy = 0; wy < height; wy += SSIM_WINDOW) {
+        for (let wx = 0; wx < width; wx += SSIM_WINDOW) {
+            const maxY = Math.min(height, wy + SSIM_WINDOW);
+            const maxX = Math.min(width, wx + SSIM_WINDOW);
+            const count = (maxY - wy) * (maxX - wx);
+            let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+            for (let y = wy; y < maxY; y++) {
+                for (let x = wx; x < maxX; x++) {
+                    const va = a[y * width + x];
+                    const vb = b[y * width + x];
+                    sumA += va;
+                    sumB += vb;
+                    sumAA += va * va;
+                    sumBB += vb * vb;
+                    sumAB += va * vb;
+                }
+            }
+            const meanA = sumA / count;
+            const meanB = sumB / count;
+            const varA = sumAA / count - meanA * meanA;
+            const varB = sumBB / count - meanB * meanB;
+            const covariance = sumAB / count - meanA * meanB;
+            total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2))
+                / ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+            windows++;
+        }
+    }
+    return windows > 0 ? total / windows : 1;
+};
+
+/**
+ * 원본의 각 프레임을 표시 구간 중앙 시각으로 결과 프레임과 대응시켜 PSNR/SSIM을 계산합니다.
+ * 서버가 프레임을 줄이므로 인덱스가 아닌 시각으로 매칭합니다. 프레임마다 이벤트 루프에 양보합니다.
+ * 결과를 자르거나 속도를 바꾸거나 타임라인을 편집했다면 transform으로 원본의 같은 영역,
+ * 편집된 재생 순서의 같은 위치와 비교합니다.
+ */
+export const computeQualityMetrics = async (
+    original: DecodedGif,
+    optimized: DecodedGif,
+    signal?: AbortSignal,
+    transform: QualityTransform = { crop: null, speed: 1, timeline: null },
+): Promise<QualityMetrics> => {
+    const region = (transform.crop && clampCrop(transform.crop, original)) ?? { x: 0, y: 0, width: original.width, height: original.height };
+    const { width, height } = region;
+    const frames: FrameQuality[] = [];
+
+    // 편집된 재생 순서에서 각 원본 프레임이 시작하는 시각
+    let sequenceTime = 0;
+    for (const index of getFrameSequence(original.frames.length, transform.timeline)) {
+        if (signal?.aborted) throw createAbortError();
+
+        const frame = original.frames[index];
+        const time = (sequenceTime + frame.delay / 2) / transform.speed;
+        sequenceTime += frame.delay;
+        const match = optimized.frames[findFrameAtTime(optimized, time)];
+        const a = toPlanes(frame.pixels, original.width, original.height, width, height, region);
+        const b = toPlanes(match.pixels, optimized.width, optimized.height, width, height);
+        frames.push({
+            time: frame.start,
+            psnr: computePsnr(a.rgb, b.rgb),
+            ssim: computeSsim(a.luma, b.luma, width, height),
+        });
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    const worst = frames.reduce((acc, f) => (f.ssim < acc.ssim ? f : acc), frames[0]);
+    return {
+        averagePsnr: frames.reduce((acc, f) => acc + f.psnr, 0) / frames.length,
+        averageSsim: frames.reduce((acc, f) => acc + f.ssim, 0) / frames.length,
+        worstPsnr: Math.min(...frames.map(f => f.psnr)),
+        worstSsim: worst.ssim,
+        worstFrameTime: worst.time,
+        frames,
+    };
+};
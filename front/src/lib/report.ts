@@ -0,0 +1,135 @@
+// ------------------- 최적화 보고서 -------------------
+// PR이나 에셋 점검에 첨부할 수 있도록 파일별 결과와 요약 통계를 CSV/JSON으로 만듭니다.
+import type { GifFileState, OptimizationSettings, OutputFormat } from '../types';
+import { getChosenVariant } from './variants';
+
+export interface ReportRow {
+    // 폴더로 추가한 파일은 상대 경로
+    name: string;
+    originalSize: number;
+    // 결과가 없으면 null (다운로드용으로 고른 변형 기준)
+    optimizedSize: number | null;
+    reductionRate: number | null;
+    format: OutputFormat | null;
+    settings: OptimizationSettings | null;
+    error: string | null;
+    durationMs: number | null;
+}
+
+export interface ReductionStats {
+    min: number;
+    median: number;
+    max: number;
+}
+
+export interface ReportSummary {
+    fileCount: number;
+    optimizedCount: number;
+    failedCount: number;
+    // 결과가 있는 파일만 합산
+    totalOriginalSize: number;
+    totalOptimizedSize: number;
+    totalReductionRate: number;
+    // 결과가 있는 파일의 절감률 (결과가 하나도 없으면 null)
+    reduction: ReductionStats | null;
+}
+
+export interface BatchReport {
+    createdAt: string;
+    summary: ReportSummary;
+    files: ReportRow[];
+}
+
+const round = (value: number, digits: number): number => Number(value.toFixed(digits));
+
+export const toReportRow = (fileState: GifFileState): ReportRow => {
+    const variant = getChosenVariant(fileState);
+    return {
+        name: fileState.relativePath,
+        originalSize: fileState.originalSize,
+        optimizedSize: variant?.size ?? null,
+        reductionRate: variant ? round(variant.reductionRate, 2) : null,
+        format: variant?.format ?? null,
+        settings: variant?.settings ?? null,
+        error: fileState.error || null,
+        durationMs: variant && variant.durationMs !== null ? Math.round(variant.durationMs) : null,
+    };
+};
+
+const median = (sorted: number[]): number => {
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const summarizeRows = (rows: ReportRow[]): ReportSummary => {
+    const optimized = rows.filter(row => row.optimizedSize !== null);
+    const totalOriginalSize = optimized.reduce((acc, row) => acc + row.originalSize, 0);
+    const totalOptimizedSize = optimized.reduce((acc, row) => acc + (row.optimizedSize ?? 0), 0);
+    const rates = optimized.map(row => row.reductionRate ?? 0).sort((a, b) => a - b);
+    return {
+        fileCount: rows.length,
+        optimizedCount: optimized.length,
+        failedCount: rows.filter(row => row.error !== null).length,
+        totalOriginalSize,
+        totalOptimizedSize,
+        totalReductionRate: totalOriginalSize > 0
+            ? round(((totalOriginalSize - totalOptimizedSize) / totalOriginalSize) * 100, 2)
+            : 0,
+        reduction: rates.length > 0
+            ? { min: rates[0], median: round(median(rates), 2), max: rates[rates.length - 1] }
+            : null,
+    };
+};
+
+export const buildReport = (files: GifFileState[]): BatchReport => {
+    const rows = files.map(toReportRow);
+    return { createdAt: new Date().toISOString(), summary: summarizeRows(rows), files: rows };
+};
+
+export const reportToJson = (report: BatchReport): string => JSON.stringify(report, null, 2);
+
+// 쉼표/따옴표/줄바꿈은 따옴표로 감싸고, 스프레드시트가 수식으로 읽지 않도록 =,+,-,@로 시작하는 문자열 앞에 '를 붙임
+const toCsvField = (value: string | number | null): string => {
+    if (value === null) return '';
+    if (typeof value === 'number') return String(value);
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvLine = (fields: (string | number | null)[]): string => fields.map(toCsvField).join(',');
+
+const CSV_COLUMNS = ['name', 'original_bytes', 'optimized_bytes', 'reduction_percent', 'format', 'settings', 'error', 'duration_ms'];
+
+/**
+ * 파일별 표 아래에 빈 줄을 두고 요약 통계를 metric,value 형식으로 붙입니다.
+ * 설정은 JSON 문자열로 넣고, Excel이 UTF-8로 읽도록 BOM으로 시작합니다.
+ */
+export const reportToCsv = (report: BatchReport): string => {
+    const { summary } = report;
+    const lines = [
+        toCsvLine(CSV_COLUMNS),
+        ...report.files.map(row => toCsvLine([
+            row.name,
+            row.originalSize,
+            row.optimizedSize,
+            row.reductionRate,
+            row.format,
+            row.settings ? JSON.stringify(row.settings) : null,
+            row.error,
+            row.durationMs,
+        ])),
+        '',
+        toCsvLine(['metric', 'value']),
+        toCsvLine(['created_at', report.createdAt]),
+        toCsvLine(['files', summary.fileCount]),
+        toCsvLine(['optimized', summary.optimizedCount]),
+        toCsvLine(['failed', summary.failedCount]),
+        toCsvLine(['total_original_bytes', summary.totalOriginalSize]),
+        toCsvLine(['total_optimized_bytes', summary.totalOptimizedSize]),
+        toCsvLine(['total_reduction_percent', summary.totalReductionRate]),
+        toCsvLine(['min_reduction_percent', summary.reduction?.min ?? null]),
+        toCsvLine(['median_reduction_percent', summary.reduction?.median ?? null]),
+        toCsvLine(['max_reduction_percent', summary.reduction?.max ?? null]),
+    ];
+    return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { MalformedResponseError } from './apiErrors';
+import { createResultStreamParser } from './resultStream';
+import type { StreamRecord } from './resultStream';
+import { STREAM_PREAMBLE, concatBytes, encodeRecord, encodeResultStream } from '../test/resultStream';
+
+const FIRST = new Uint8Array([1, 2, 3, 4, 5]);
+const SECOND = new Uint8Array([9, 8, 7]);
+const STREAM = encodeResultStream([
+    { header: { filename: 'a.gif', mime_type: 'image/webp' }, data: FIRST },
+    { header: { filename: 'b.gif', error: 'failed' } },
+    { header: { filename: 'c.gif' }, data: SECOND },
+]);
+
+// 바이트를 주어진 위치들에서 잘라 차례로 넣고 레코드를 모음
+const parseInChunks = (bytes: Uint8Array<ArrayBuffer>, cuts: number[]): StreamRecord[] => {
+    const records: StreamRecord[] = [];
+    const parser = createResultStreamParser(record => records.push(record));
+    let start = 0;
+    [...cuts, bytes.length].forEach(end => {
+        parser.push(bytes.slice(start, end));
+        start = end;
+    });
+    parser.end();
+    return records;
+};
+
+const expectReason = (run: () => void, reason: string) => {
+    let error: unknown = null;
+    try {
+        run();
+    } catch (err) {
+        error = err;
+    }
+    expect(error).toBeInstanceOf(MalformedResponseError);
+    expect((error as MalformedResponseError).reason).toBe(reason);
+};
+
+const summarize = async (records: StreamRecord[]) => Promise.all(records.map(async ({ header, blob }) => ({
+    header,
+    type: blob?.type ?? null,
+    bytes: blob ? Array.from(new Uint8Array(await blob.arrayBuffer())) : null,
+})));
+
+describe('createResultStreamParser', () => {
+    it('레코드마다 헤더와 결과 Blob을 넘긴다', async () => {
+        const records = parseInChunks(STREAM, []);
+
+        expect(await summarize(records)).toEqual([
+            { header: { filename: 'a.gif', mime_type: 'image/webp' }, type: 'image/webp', bytes: [1, 2, 3, 4, 5] },
+            { header: { filename: 'b.gif', error: 'failed' }, type: null, bytes: null },
+            { header: { filename: 'c.gif' }, type: 'image/gif', bytes: [9, 8, 7] },
+        ]);
+    });
+
+    it('어느 위치에서 조각나도 같은 결과를 낸다', async () => {
+        const expected = await summarize(parseInChunks(STREAM, []));
+        for (let size = 1; size <= 7; size++) {
+            const cuts = Array.from({ length: Math.floor((STREAM.length - 1) / size) }, (_, i) => (i + 1) * size);
+            expect(await summarize(parseInChunks(STREAM, cuts))).toEqual(expected);
+        }
+        for (let cut = 1; cut < STREAM.length; cut++) {
+            expect(await summarize(parseInChunks(STREAM, [cut]))).toEqual(expected);
+        }
+    });
+
+    it('레코드가 완성되는 즉시 넘긴다', () => {
+        const records: StreamRecord[] = [];
+        const parser = createResultStreamParser(record => records.push(record));
+        const first = concatBytes([STREAM_PREAMBLE, encodeRecord({ header: { filename: 'a.gif' }, data: FIRST })]);
+
+        parser.push(first.slice(0, -1));
+        expect(records).toHaveLength(0);
+        parser.push(first.slice(-1));
+        expect(records).toHaveLength(1);
+    });
+
+    it('시작 부분이 잘린 스트림', () => {
+        expectReason(() => parseInChunks(STREAM.slice(0, 3), []), 'response.streamTruncated');
+        expectReason(() => parseInChunks(new Uint8Array(0), []), 'response.streamTruncated');
+    });
+
+    it('시작 바이트가 다른 스트림', () => {
+        const bytes = STREAM.slice();
+        bytes[0] = 0x00;
+        expectReason(() => parseInChunks(bytes, []), 'response.streamBadMagic');
+    });
+
+    it('지원하지 않는 버전', () => {
+        const bytes = STREAM.slice();
+        bytes[4] = 2;
+        expectReason(() => parseInChunks(bytes, []), 'response.streamVersion');
+    });
+
+    it('남은 바이트보다 긴 데이터 길이', () => {
+        const record = encodeRecord({ header: { filename: 'a.gif' }, data: FIRST });
+        // 데이터 길이 필드를 실제보다 크게 바꿈
+        const view = new DataView(record.buffer, record.byteOffset);
+        const dataLengthOffset = 4 + view.getUint32(0);
+        view.setUint32(dataLengthOffset, FIRST.length + 100);
+        const records: StreamRecord[] = [];
+        const parser = createResultStreamParser(item => records.push(item));
+
+        parser.push(concatBytes([STREAM_PREAMBLE, record]));
+        expect(records).toHaveLength(0);
+        expectReason(() => parser.end(), 'response.streamTruncated');
+    });
+
+    it('JSON이 아닌 헤더', () => {
+        const header = new TextEncoder().encode('{oops');
+        const length = new Uint8Array(4);
+        new DataView(length.buffer).setUint32(0, header.length);
+        const bytes = concatBytes([STREAM_PREAMBLE, length, header, new Uint8Array(4)]);
+        expectReason(() => parseInChunks(bytes, []), 'response.streamBadHeader');
+    });
+});
@@ -0,0 +1,117 @@
+// ------------------- 바이너리 결과 스트림 파서 -------------------
+// 서버가 Accept: application/x-gif-results 요청에 보내는 형식:
+// 매직 바이트 'GIFR' + 버전(1) 뒤에 파일마다 [헤더 길이(u32 BE)][JSON 헤더][데이터 길이(u32 BE)][결과 바이트]
+import { MalformedResponseError } from './apiErrors';
+
+export const BINARY_RESULTS_MIME = 'application/x-gif-results';
+
+const STREAM_MAGIC = [0x47, 0x49, 0x46, 0x52];
+const STREAM_VERSION = 1;
+const PREAMBLE_LENGTH = STREAM_MAGIC.length + 1;
+
+export interface StreamRecord {
+    // 결과 메타데이터 (optimized_data 필드는 없음)
+    header: unknown;
+    // 데이터가 없는 결과(오류)는 null
+    blob: Blob | null;
+}
+
+export interface ResultStreamParser {
+    push: (chunk: Uint8Array<ArrayBuffer>) => void;
+    // 스트림이 레코드 중간에서 끝났으면 오류
+    end: () => void;
+}
+
+export const isBinaryResultsType = (contentType: string): boolean => (
+    contentType.split(';')[0].trim().toLowerCase() === BINARY_RESULTS_MIME
+);
+
+// 헤더에 mime_type이 있으면 그 형식으로, 없으면(이전 서버) 기본 형식으로 Blob을 만듦
+const getRecordType = (header: unknown, fallback: string): string => {
+    const mimeType = (header as { mime_type?: unknown } | null)?.mime_type;
+    return typeof mimeType === 'string' && mimeType ? mimeType : fallback;
+};
+
+/**
+ * 조각난 바이트를 받아 레코드가 완성되는 즉시 onRecord로 넘깁니다.
+ * 다음 레코드를 읽을 만큼 바이트가 모일 때까지는 조각을 합치지 않아, 큰 결과도 복사가 반복되지 않습니다.
+ */
+export const createResultStreamParser = (
+    onRecord: (record: StreamRecord) => void,
+    contentType: string = 'image/gif',
+): ResultStreamParser => {
+    let buffer = new Uint8Array(0);
+    let pending: Uint8Array<ArrayBuffer>[] = [];
+    let pendingLength = 0;
+    // 다음 단계로 진행하는 데 필요한 최소 바이트 수
+    let needed = PREAMBLE_LENGTH;
+    let hasPreamble = false;
+    const decoder = new TextDecoder();
+
+    const readUint32 = (offset: number): number => (
+        new DataView(buffer.buffer, buffer.byteOffset + offset, 4).getUint32(0)
+    );
+
+    // 버퍼 앞부분에서 완성된 레코드를 모두 꺼내고, 남은 바이트 기준으로 필요한 길이를 계산
+    const drain = () => {
+        let offset = 0;
+        if (!hasPreamble) {
+            if (buffer.length < PREAMBLE_LENGTH) {
+                needed = PREAMBLE_LENGTH;
+                return;
+            }
+            if (STREAM_MAGIC.some((byte, i) => buffer[i] !== byte)) throw new MalformedResponseError('response.streamBadMagic');
+            if (buffer[STREAM_MAGIC.length] !== STREAM_VERSION) throw new MalformedResponseError('response.streamVersion', { version: String(buffer[STREAM_MAGIC.length]) });
+            hasPreamble = true;
+            offset = PREAMBLE_LENGTH;
+        }
+
+        for (;;) {
+            needed = offset + 4;
+            if (buffer.length < needed) break;
+            const headerLength = readUint32(offset);
+            const dataLengthOffset = offset + 4 + headerLength;
+            needed = dataLengthOffset + 4;
+            if (buffer.length < needed) break;
+            const dataLength = readUint32(dataLengthOffset);
+            const dataOffset = dataLengthOffset + 4;
+            needed = dataOffset + dataLength;
+            if (buffer.length < needed) break;
+
+            let header: unknown;
+            try {
+                header = JSON.parse(decoder.decode(buffer.subarray(offset + 4, dataLengthOffset)));
+            } catch {
+                throw new MalformedResponseError('response.streamBadHeader');
+            }
+            const blob = dataLength > 0 ? new Blob([buffer.slice(dataOffset, dataOffset + dataLength)], { type: getRecordType(header, contentType) }) : null;
+            onRecord({ header, blob });
+            offset = dataOffset + dataLength;
+        }
+        buffer = buffer.slice(offset);
+        needed -= offset;
+    };
+
+    return {
+        push: chunk => {
+            pending.push(chunk);
+            pendingLength += chunk.length;
+            if (buffer.length + pendingLength < needed) return;
+
+            const merged = new Uint8Array(buffer.length + pendingLength);
+            merged.set(buffer);
+            let position = buffer.length;
+            pending.forEach(part => {
+                merged.set(part, position);
+                position += part.length;
+            });
+            buffer = merged;
+            pending = [];
+            pendingLength = 0;
+            drain();
+        },
+        end: () => {
+            if (!hasPreamble || buffer.length + pendingLength > 0) throw new MalformedResponseError('response.streamTruncated');
+        },
+    };
+};
@@ -0,0 +1,253 @@
+// ------------------- 작업 세션 저장 (IndexedDB) -------------------
+import type {
+    ActiveJob,
+    FileEdits,
+    GifFileState,
+    OptimizationMode,
+    OptimizationSettings,
+    TargetSearchSummary,
+} from '../types';
+import type { QualityMetrics } from './qualityMetrics';
+import { DEFAULT_SETTINGS, NO_FILE_EDITS, getFileEdits, sanitizeFileEdits, sanitizeSettings, withoutFileEdits } from './settings';
+import { restoreVariant } from './variants';
+import { LocalizedError } from './localizedError';
+
+const DB_NAME = 'gif-optimizer-session';
+const DB_VERSION = 1;
+const FILE_STORE = 'files';
+const META_STORE = 'meta';
+const PREFERENCES_KEY = 'preferences';
+const ACTIVE_JOBS_KEY = 'activeJobs';
+
+// 새로고침 후에도 유지할 전역 설정
+export interface SessionPreferences {
+    settings: OptimizationSettings;
+    mode: OptimizationMode;
+    targetBytes: number;
+    qualityThreshold: number;
+    concurrency: number;
+    includeManifest: boolean;
+}
+
+// Blob URL은 페이지를 넘어 유지되지 않으므로 Blob 자체를 저장하고 복원 시 URL을 새로 만듦
+export interface StoredVariant {
+    id: number;
+    blob: Blob;
+    settings: OptimizationSettings | null;
+    createdAt: number;
+    quality: QualityMetrics | null;
+    // 이전 버전에서 저장한 변형에는 없음
+    durationMs?: number | null;
+}
+
+export interface StoredFile {
+    // 파일 id는 추가 시각 기반이라 목록 순서 복원에도 사용
+    id: number;
+    file: File;
+    // 이전 버전에서 저장한 파일에는 없음
+    relativePath?: string;
+    contentHash?: string | null;
+    variants: StoredVariant[];
+    chosenVariantId: number | null;
+    error: string;
+    settingsOverride: OptimizationSettings | null;
+    // 이전 버전에서 저장한 파일에는 없음 (편집이 settingsOverride 안에 있음)
+    edits?: FileEdits;
+    targetBytes: number | null;
+    targetSearch: TargetSearchSummary | null;
+}
+
+export interface StoredSession {
+    files: StoredFile[];
+    preferences: SessionPreferences | null;
+    // 새로고침 전에 서버에서 처리 중이던 작업
+    jobs: ActiveJob[];
+}
+
+export interface StorageUsage {
+    usage: number;
+    quota: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new LocalizedError('error.indexedDbUnsupported'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(FILE_STORE)) db.createObjectStore(FILE_STORE, { keyPath: 'id' });
+                if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // 실패한 연결은 다음 호출에서 다시 시도
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+};
+
+// 트랜잭션 하나에서 작업을 실행하고 커밋이 끝날 때까지 기다림 (저장 용량 초과 등은 여기서 reject)
+const runTransaction = async (
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => void,
+): Promise<void> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeNames, mode);
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new LocalizedError('error.sessionAborted'));
+        work(transaction);
+    });
+};
+
+export const toStoredFile = (fileState: GifFileState): StoredFile => ({
+    id: fileState.id,
+    file: fileState.file,
+    relativePath: fileState.relativePath,
+    contentHash: fileState.contentHash,
+    variants: fileState.variants.map(v => ({
+        id: v.id,
+        blob: v.blob,
+        settings: v.settings,
+        createdAt: v.createdAt,
+        quality: v.quality,
+        durationMs: v.durationMs,
+    })),
+    chosenVariantId: fileState.chosenVariantId,
+    error: fileState.error,
+    settingsOverride: fileState.settingsOverride,
+    edits: fileState.edits,
+    targetBytes: fileState.targetBytes,
+    targetSearch: fileState.targetSearch,
+});
+
+// 이전 버전은 편집을 화질 개별 설정과 함께 저장했으므로 거기서 꺼내고 개별 설정에서는 뺌
+const restoreOverrideAndEdits = (stored: StoredFile): Pick<GifFileState, 'settingsOverride' | 'edits'> => {
+    const override = sanitizeSettings(stored.settingsOverride);
+    const edits = sanitizeFileEdits(stored.edits) ?? (override ? getFileEdits(override) : NO_FILE_EDITS);
+    return { settingsOverride: override && withoutFileEdits(override), edits };
+};
+
+export const fromStoredFile = (stored: StoredFile): GifFileState => ({
+    id: stored.id,
+    file: stored.file,
+    relativePath: stored.relativePath ?? stored.file.name,
+    // 해시가 없으면 복원 후 다시 계산
+    contentHash: stored.contentHash ?? null,
+    originalUrl: URL.createObjectURL(stored.file),
+    originalSize: stored.file.size,
+    // 메타데이터는 저장하지 않고 복원 후 다시 분석
+    originalInfo: null,
+    videoInfo: null,
+    variants: stored.variants.map(v => (
+        restoreVariant(v.id, v.blob, stored.file.size, sanitizeSettings(v.settings), v.createdAt, v.quality, v.durationMs ?? null)
+    )),
+    chosenVariantId: stored.chosenVariantId,
+    viewedVariantId: null,
+    isProcessing: false,
+    progress: null,
+    error: stored.error,
+    // 이전 버전에서 저장한 설정은 새 항목을 기본값으로 채움
+    ...restoreOverrideAndEdits(stored),
+    targetBytes: stored.targetBytes,
+    // 진행 중이던 목표 용량 탐색은 이어서 할 수 없으므로 요약만 남김
+    targetSearch: stored.targetSearch?.status === 'searching' ? null : stored.targetSearch,
+});
+
+/**
+ * 저장소에 기록할 내용이 바뀌었는지 판단하는 키입니다. 진행률처럼 자주 바뀌는 상태는 제외해
+ * 업로드 중 매 이벤트마다 Blob을 다시 쓰지 않도록 합니다.
+ */
+export const getPersistKey = (fileState: GifFileState): string => JSON.stringify([
+    fileState.contentHash,
+    fileState.variants.map(v => [v.id, v.quality !== null]),
+    fileState.chosenVariantId,
+    fileState.error,
+    fileState.settingsOverride,
+    fileState.edits,
+    fileState.targetBytes,
+    fileState.targetSearch?.status ?? null,
+]);
+
+export const loadSession = async (): Promise<StoredSession> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([FILE_STORE, META_STORE], 'readonly');
+    const [files, preferences, jobs] = await Promise.all([
+        requestToPromise(transaction.objectStore(FILE_STORE).getAll() as IDBRequest<StoredFile[]>),
+        requestToPromise(transaction.objectStore(META_STORE).get(PREFERENCES_KEY) as IDBRequest<SessionPreferences | undefined>),
+        requestToPromise(transaction.objectStore(META_STORE).get(ACTIVE_JOBS_KEY) as IDBRequest<ActiveJob[] | undefined>),
+    ]);
+    return {
+        files: files.sort((a, b) => a.id - b.id),
+        preferences: preferences
+            ? { ...preferences, settings: sanitizeSettings(preferences.settings) ?? DEFAULT_SETTINGS }
+            : null,
+        jobs: (jobs ?? []).map(job => ({
+            ...job,
+            files: job.files.map(f => ({ ...f, settings: sanitizeSettings(f.settings) ?? DEFAULT_SETTINGS })),
+        })),
+    };
+};
+
+export const saveStoredFiles = (files: StoredFile[]): Promise<void> => (
+    runTransaction([FILE_STORE], 'readwrite', transaction => {
+        const store = transaction.objectStore(FILE_STORE);
+        files.forEach(file => store.put(file));
+    })
+);
+
+export const deleteStoredFiles = (ids: number[]): Promise<void> => (
+    runTransaction([FILE_STORE], 'readwrite', transaction => {
+        const store = transaction.objectStore(FILE_STORE);
+        ids.forEach(id => store.delete(id));
+    })
+);
+
+export const clearStoredFiles = (): Promise<void> => (
+    runTransaction([FILE_STORE], 'readwrite', transaction => {
+        transaction.objectStore(FILE_STORE).clear();
+    })
+);
+
+export const savePreferences = (preferences: SessionPreferences): Promise<void> => (
+    runTransaction([META_STORE], 'readwrite', transaction => {
+        transaction.objectStore(META_STORE).put(preferences, PREFERENCES_KEY);
+    })
+);
+
+export const saveActiveJobs = (jobs: ActiveJob[]): Promise<void> => (
+    runTransaction([META_STORE], 'readwrite', transaction => {
+        transaction.objectStore(META_STORE).put(jobs, ACTIVE_JOBS_KEY);
+    })
+);
+
+// 파일과 설정을 모두 지움
+export const clearSession = (): Promise<void> => (
+    runTransaction([FILE_STORE, META_STORE], 'readwrite', transaction => {
+        transaction.objectStore(FILE_STORE).clear();
+        transaction.objectStore(META_STORE).clear();
+    })
+);
+
+// 브라우저가 추정한 이 사이트의 저장소 사용량 (지원하지 않으면 null)
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return { usage, quota };
+};
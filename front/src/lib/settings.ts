@@ -0,0 +1,183 @@
+// ------------------- 최적화 설정 -------------------
+import type { CropRect, FileEdits, OptimizationSettings } from '../types';
+import type { GifInfo } from './gifParser';
+import { isOutputFormat } from './outputFormats';
+import { applyTimeline, sanitizeTimeline } from './timeline';
+import { DEFAULT_VIDEO_SETTINGS, sanitizeVideoSettings } from './video';
+
+// 이전 버전과 같은 결과가 나오도록 기본값은 2프레임마다 1프레임 유지
+export const DEFAULT_SETTINGS: OptimizationSettings = {
+    format: 'gif',
+    lossy: 200,
+    colors: 64,
+    webpQuality: 80,
+    webpLossless: false,
+    apngColors: null,
+    frameStep: 2,
+    width: null,
+    height: null,
+    crop: null,
+    speed: 1,
+    timeline: null,
+    video: DEFAULT_VIDEO_SETTINGS,
+};
+
+// 서버 허용 범위
+export const MAX_FRAME_STEP = 10;
+export const MAX_DIMENSION = 4096;
+export const MIN_SPEED = 0.25;
+export const MAX_SPEED = 4;
+// 브라우저는 20ms 미만 지연을 100ms로 재생하므로 서버도 출력 지연을 이 값 이상으로 맞춤
+const MIN_OUTPUT_DELAY_MS = 20;
+
+export const FRAME_STEP_OPTIONS = [1, 2, 3, 4, 5];
+export const SPEED_OPTIONS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+interface Size {
+    width: number;
+    height: number;
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+// 비어 있으면 fallback, 숫자가 아니면 NaN
+const toNumber = (value: unknown, fallback: number): number => (
+    value === undefined || value === null || value === '' ? fallback : Number(value)
+);
+
+const sanitizeColors = (value: unknown): number | null => {
+    const number = Number(value);
+    if (value === null || value === undefined || value === '' || !Number.isFinite(number)) return null;
+    return clamp(Math.round(number), 2, 256);
+};
+
+const sanitizeDimension = (value: unknown): number | null => {
+    const number = Number(value);
+    if (value === null || value === undefined || value === '' || !Number.isFinite(number) || number <= 0) return null;
+    return clamp(Math.round(number), 1, MAX_DIMENSION);
+};
+
+export const sanitizeCrop = (value: unknown): CropRect | null => {
+    if (typeof value !== 'object' || value === null) return null;
+    const { x, y, width, height } = value as Record<string, unknown>;
+    const numbers = [x, y, width, height].map(Number);
+    if (!numbers.every(Number.isFinite)) return null;
+    const [cropX, cropY, cropWidth, cropHeight] = numbers.map(Math.round);
+    if (cropX < 0 || cropY < 0 || cropWidth < 1 || cropHeight < 1) return null;
+    return { x: cropX, y: cropY, width: cropWidth, height: cropHeight };
+};
+
+/**
+ * 외부 입력(JSON, URL, 저장된 세션)에서 온 값을 검증하고 서버 허용 범위로 보정합니다.
+ * lossy/colors가 숫자가 아니면 null이고, 나중에 추가된 항목은 없거나 잘못되면 기본값을 씁니다.
+ */
+export const sanitizeSettings = (value: unknown): OptimizationSettings | null => {
+    if (typeof value !== 'object' || value === null) return null;
+    const {
+        format, lossy, colors, webpQuality, webpLossless, apngColors, frameStep, width, height, crop, speed, timeline, video,
+    } = value as Record<string, unknown>;
+    const lossyNumber = Number(lossy);
+    const colorsNumber = Number(colors);
+    if (!Number.isFinite(lossyNumber) || !Number.isFinite(colorsNumber)) return null;
+    const frameStepNumber = toNumber(frameStep, DEFAULT_SETTINGS.frameStep);
+    const speedNumber = toNumber(speed, DEFAULT_SETTINGS.speed);
+    const webpQualityNumber = toNumber(webpQuality, DEFAULT_SETTINGS.webpQuality);
+    return {
+        format: isOutputFormat(format) ? format : DEFAULT_SETTINGS.format,
+        lossy: clamp(Math.round(lossyNumber), 0, 300),
+        colors: clamp(Math.round(colorsNumber), 2, 256),
+        webpQuality: Number.isFinite(webpQualityNumber) ? clamp(Math.round(webpQualityNumber), 0, 100) : DEFAULT_SETTINGS.webpQuality,
+        // URL 쿼리에서는 문자열로 들어옴
+        webpLossless: webpLossless === true || webpLossless === 'true',
+        apngColors: sanitizeColors(apngColors),
+        frameStep: Number.isFinite(frameStepNumber) ? clamp(Math.round(frameStepNumber), 1, MAX_FRAME_STEP) : DEFAULT_SETTINGS.frameStep,
+        width: sanitizeDimension(width),
+        height: sanitizeDimension(height),
+        crop: sanitizeCrop(crop),
+        speed: Number.isFinite(speedNumber) && speedNumber > 0 ? clamp(speedNumber, MIN_SPEED, MAX_SPEED) : DEFAULT_SETTINGS.speed,
+        timeline: sanitizeTimeline(timeline),
+        video: sanitizeVideoSettings(video),
+    };
+};
+
+export const NO_FILE_EDITS: FileEdits = {
+    crop: null,
+    timeline: null,
+    clip: { start: 0, end: null },
+};
+
+// 설정에 파일별 편집(자르기 영역, 타임라인, 영상 구간)을 덮어씀
+export const applyFileEdits = (settings: OptimizationSettings, edits: FileEdits): OptimizationSettings => ({
+    ...settings,
+    crop: edits.crop,
+    timeline: edits.timeline,
+    video: { ...settings.video, ...edits.clip },
+});
+
+// 설정에 들어 있는 파일별 편집 (편집을 설정에 함께 저장하던 이전 세션의 복원에 사용)
+export const getFileEdits = (settings: OptimizationSettings): FileEdits => ({
+    crop: settings.crop,
+    timeline: settings.timeline,
+    clip: { start: settings.video.start, end: settings.video.end },
+});
+
+// 파일마다 다른 편집을 뺀 설정 (프리셋, 일괄 설정, 파일별 화질 설정에 사용)
+export const withoutFileEdits = (settings: OptimizationSettings): OptimizationSettings => (
+    applyFileEdits(settings, NO_FILE_EDITS)
+);
+
+export const sanitizeFileEdits = (value: unknown): FileEdits | null => {
+    if (typeof value !== 'object' || value === null) return null;
+    const { crop, timeline, clip } = value as Record<string, unknown>;
+    const { start, end } = sanitizeVideoSettings(clip);
+    return { crop: sanitizeCrop(crop), timeline: sanitizeTimeline(timeline), clip: { start, end } };
+};
+
+// 자르기 영역을 이미지 안쪽으로 제한 (겹치는 부분이 없으면 null)
+export const clampCrop = (crop: CropRect, source: Size): CropRect | null => {
+    const x = clamp(crop.x, 0, source.width);
+    const y = clamp(crop.y, 0, source.height);
+    const width = Math.min(crop.x + crop.width, source.width) - x;
+    const height = Math.min(crop.y + crop.height, source.height) - y;
+    return width >= 1 && height >= 1 ? { x, y, width, height } : null;
+};
+
+/**
+ * 자르기와 리사이즈를 적용한 출력 크기를 계산합니다. 서버의 compute_output_size와 같은 규칙입니다.
+ */
+export const getOutputSize = (source: Size, settings: OptimizationSettings): Size => {
+    const base = (settings.crop && clampCrop(settings.crop, source)) ?? source;
+    const { width, height } = settings;
+    if (width && height) return { width, height };
+    if (width) return { width, height: Math.max(1, Math.round((base.height * width) / base.width)) };
+    if (height) return { width: Math.max(1, Math.round((base.width * height) / base.height)), height };
+    return { width: base.width, height: base.height };
+};
+
+// 초당 프레임 수 (재생 시간이 0이면 0)
+export const getFrameRate = (frameCount: number, duration: number): number => (
+    duration > 0 ? (frameCount * 1000) / duration : 0
+);
+
+export interface OutputTiming {
+    frameCount: number;
+    duration: number;
+    frameRate: number;
+}
+
+/**
+ * 타임라인 편집, 프레임 솎아내기, 속도 배율을 적용했을 때의 프레임 수, 재생 시간, 프레임 속도를 추정합니다.
+ * 버린 프레임의 지연은 직전에 남긴 프레임에 더해지므로 솎아내기로는 전체 길이가 바뀌지 않습니다.
+ */
+export const getOutputTiming = (info: GifInfo, settings: OptimizationSettings): OutputTiming => {
+    const delays: number[] = [];
+    applyTimeline(info, settings.timeline).frames.forEach((frame, index) => {
+        if (index % settings.frameStep === 0) {
+            delays.push(frame.delay);
+        } else {
+            delays[delays.length - 1] += frame.delay;
+        }
+    });
+    const duration = delays.reduce((acc, delay) => acc + Math.max(MIN_OUTPUT_DELAY_MS, Math.round(delay / settings.speed)), 0);
+    return { frameCount: delays.length, duration, frameRate: getFrameRate(delays.length, duration) };
+};
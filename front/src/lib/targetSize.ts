@@ -0,0 +1,106 @@
+import type { OptimizationSettings, OutputFormat, TargetAttempt, TargetSearchSummary } from '../types';
+import { GifsicleUnavailableError } from './apiErrors';
+import { isAbortError } from './http';
+import { describeError } from './i18n';
+import type { Translate } from './i18n';
+
+// ------------------- 화질 단계표 -------------------
+// 출력 형식마다 화질이 높은 설정부터 낮은 설정 순으로 정렬된 단계표입니다.
+// GIF는 lossy와 colors를 번갈아 한 단계씩 낮춰서, 단계가 올라갈수록 파일 크기가 작아진다고 가정합니다.
+const LOSSY_STEPS = [0, 20, 40, 60, 80, 100, 130, 160, 200, 240, 280, 300];
+const COLORS_STEPS = [256, 192, 128, 96, 64, 48, 32, 24, 16, 8, 4, 2];
+const WEBP_QUALITY_STEPS = [100, 95, 90, 85, 80, 75, 70, 60, 50, 40, 30, 20, 10, 0];
+// APNG는 무손실 전체 색상에서 시작해 팔레트 색상 수를 줄임
+const APNG_COLORS_STEPS = [null, 256, 128, 64, 32, 16, 8, 4, 2];
+
+// 탐색은 형식별 화질 항목만 바꾸고 프레임/크기 설정은 파일 설정을 그대로 사용
+export type QualityLevel = Partial<Pick<OptimizationSettings, 'lossy' | 'colors' | 'webpQuality' | 'webpLossless' | 'apngColors'>>;
+
+const buildGifQualityLadder = (): QualityLevel[] => {
+    const ladder: QualityLevel[] = [];
+    const levels = LOSSY_STEPS.length + COLORS_STEPS.length - 1;
+    for (let level = 0; level < levels; level++) {
+        ladder.push({
+            lossy: LOSSY_STEPS[Math.ceil(level / 2)],
+            colors: COLORS_STEPS[Math.floor(level / 2)],
+        });
+    }
+    return ladder;
+};
+
+export const QUALITY_LADDERS: Record<OutputFormat, QualityLevel[]> = {
+    gif: buildGifQualityLadder(),
+    webp: WEBP_QUALITY_STEPS.map(webpQuality => ({ webpQuality, webpLossless: false })),
+    apng: APNG_COLORS_STEPS.map(apngColors => ({ apngColors })),
+};
+
+export interface TargetSearchResult extends TargetSearchSummary {
+    status: Exclude<TargetSearchSummary['status'], 'searching'>;
+    blob: Blob | null;
+    error: string;
+}
+
+/**
+ * 목표 용량 이하가 되는 가장 높은 화질의 설정을 이분 탐색으로 찾습니다.
+ * 각 단계는 baseSettings에 출력 형식의 화질 항목만 덮어쓰며,
+ * runAttempt는 주어진 설정으로 서버 최적화를 1회 수행하고 결과 Blob을 반환해야 합니다.
+ * 취소와 gifsicle 사용 불가 오류는 호출한 쪽이 일괄 작업을 멈출 수 있도록 그대로 던집니다.
+ */
+export const searchTargetSize = async (
+    targetBytes: number,
+    baseSettings: OptimizationSettings,
+    runAttempt: (settings: OptimizationSettings) => Promise<Blob>,
+    t: Translate,
+    onAttempt?: (attempt: TargetAttempt) => void,
+): Promise<TargetSearchResult> => {
+    const ladder = QUALITY_LADDERS[baseSettings.format];
+    const attempts: TargetAttempt[] = [];
+    let best: { index: number; blob: Blob } | null = null;
+
+    const tryLevel = async (index: number): Promise<boolean> => {
+        const settings = { ...baseSettings, ...ladder[index] };
+        const blob = await runAttempt(settings);
+        const attempt: TargetAttempt = { settings, size: blob.size, fits: blob.size <= targetBytes };
+        attempts.push(attempt);
+        onAttempt?.(attempt);
+        if (attempt.fits && (best === null || index < best.index)) {
+            best = { index, blob };
+        }
+        return attempt.fits;
+    };
+
+    const finish = (status: TargetSearchResult['status'], error: string = ''): TargetSearchResult => {
+        return {
+            status,
+            targetBytes,
+            settings: best ? { ...baseSettings, ...ladder[best.index] } : null,
+            attempts,
+            blob: best ? best.blob : null,
+            error,
+        };
+    };
+
+    try {
+        // 1. 최고 화질로 이미 목표를 만족하면 바로 종료
+        if (await tryLevel(0)) return finish('met');
+
+        // 2. 최저 화질로도 목표를 넘으면 달성 불가
+        let high = ladder.length - 1;
+        if (!(await tryLevel(high))) return finish('unreachable');
+
+        // 3. low는 목표 초과, high는 목표 충족 상태를 유지하며 범위를 좁힘
+        let low = 0;
+        while (high - low > 1) {
+            const mid = Math.floor((low + high) / 2);
+            if (await tryLevel(mid)) {
+                high = mid;
+            } else {
+                low = mid;
+            }
+        }
+        return finish('met');
+    } catch (err) {
+        if (isAbortError(err) || err instanceof GifsicleUnavailableError) throw err;
+        return finish('failed', describeError(err, t));
+    }
+};
@@ -0,0 +1,37 @@
+// ------------------- 프레임 썸네일 -------------------
+import type { DecodedGif } from './gifDecoder';
+
+export interface GifThumbnails {
+    width: number;
+    height: number;
+    // 프레임 순서대로 축소한 RGBA 픽셀
+    frames: Uint8ClampedArray<ArrayBuffer>[];
+}
+
+/**
+ * 디코딩된 프레임을 긴 변이 maxSize 이하가 되도록 최근접 이웃 방식으로 축소합니다.
+ * 타임라인에 프레임을 수백 개 띄워도 원본 크기 픽셀을 메인 스레드로 보내지 않기 위함입니다.
+ */
+export const createThumbnails = (gif: DecodedGif, maxSize: number): GifThumbnails => {
+    const scale = Math.min(1, maxSize / Math.max(gif.width, gif.height));
+    const width = Math.max(1, Math.round(gif.width * scale));
+    const height = Math.max(1, Math.round(gif.height * scale));
+
+    const frames = gif.frames.map(frame => {
+        const pixels = new Uint8ClampedArray(width * height * 4);
+        for (let y = 0; y < height; y++) {
+            const sy = Math.min(gif.height - 1, Math.floor((y * gif.height) / height));
+            for (let x = 0; x < width; x++) {
+                const sx = Math.min(gif.width - 1, Math.floor((x * gif.width) / width));
+                const src = (sy * gif.width + sx) * 4;
+                const dst = (y * width + x) * 4;
+                pixels[dst] = frame.pixels[src];
+                pixels[dst + 1] = frame.pixels[src + 1];
+                pixels[dst + 2] = frame.pixels[src + 2];
+                pixels[dst + 3] = frame.pixels[src + 3];
+            }
+        }
+        return pixels;
+    });
+    return { width, height, frames };
+};
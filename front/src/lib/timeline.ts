@@ -0,0 +1,86 @@
+// ------------------- 타임라인 편집 -------------------
+import type { TimelineEdit } from '../types';
+import type { GifInfo } from './gifParser';
+
+// 서버로 보내는 편집 목록의 항목. 서버는 목록 순서대로 적용합니다.
+export type TimelineOperation =
+    | { op: 'trim'; start: number; end: number }
+    | { op: 'reverse' }
+    | { op: 'pingpong' }
+    | { op: 'loop'; count: number };
+
+export const PLAY_COUNT_OPTIONS = [0, 1, 2, 3, 5];
+
+export const createTimelineEdit = (frameCount: number): TimelineEdit => ({
+    start: 0,
+    end: Math.max(0, frameCount - 1),
+    reverse: false,
+    pingPong: false,
+    playCount: null,
+});
+
+// 편집하지 않은 것과 같은 결과인지 (저장하지 않고 null로 되돌릴 때 사용)
+export const isIdentityTimeline = (timeline: TimelineEdit, frameCount: number): boolean => (
+    timeline.start === 0 && timeline.end >= frameCount - 1 && !timeline.reverse && !timeline.pingPong && timeline.playCount === null
+);
+
+export const sanitizeTimeline = (value: unknown): TimelineEdit | null => {
+    if (typeof value !== 'object' || value === null) return null;
+    const { start, end, reverse, pingPong, playCount } = value as Record<string, unknown>;
+    const startNumber = Number(start);
+    const endNumber = Number(end);
+    if (!Number.isInteger(startNumber) || !Number.isInteger(endNumber) || startNumber < 0 || endNumber < startNumber) return null;
+    const playCountNumber = Number(playCount);
+    return {
+        start: startNumber,
+        end: endNumber,
+        reverse: reverse === true,
+        pingPong: pingPong === true,
+        playCount: playCount !== null && playCount !== undefined && Number.isInteger(playCountNumber) && playCountNumber >= 0
+            ? playCountNumber
+            : null,
+    };
+};
+
+export const buildEditList = (timeline: TimelineEdit): TimelineOperation[] => {
+    const operations: TimelineOperation[] = [{ op: 'trim', start: timeline.start, end: timeline.end }];
+    if (timeline.reverse) operations.push({ op: 'reverse' });
+    if (timeline.pingPong) operations.push({ op: 'pingpong' });
+    if (timeline.playCount !== null) operations.push({ op: 'loop', count: timeline.playCount });
+    return operations;
+};
+
+/**
+ * 편집을 적용한 재생 순서를 원본 프레임 인덱스로 반환합니다. 서버의 apply_edit_list와 같은 규칙이며,
+ * 왕복 재생은 양 끝 프레임이 두 번 연속 나오지 않도록 끝 프레임을 한 번씩만 넣습니다.
+ */
+export const getFrameSequence = (frameCount: number, timeline: TimelineEdit | null): number[] => {
+    const all = Array.from({ length: frameCount }, (_, i) => i);
+    if (!timeline || frameCount === 0) return all;
+    const start = Math.min(timeline.start, frameCount - 1);
+    const end = Math.min(Math.max(timeline.end, start), frameCount - 1);
+    let sequence = all.slice(start, end + 1);
+    if (timeline.reverse) sequence = [...sequence].reverse();
+    if (timeline.pingPong && sequence.length > 2) sequence = [...sequence, ...sequence.slice(1, -1).reverse()];
+    return sequence;
+};
+
+// 재생 횟수를 NETSCAPE 반복 값으로 변환 (GifInfo.loopCount와 같은 의미)
+const toLoopCount = (playCount: number): number | null => {
+    if (playCount === 0) return 0;
+    return playCount === 1 ? null : playCount - 1;
+};
+
+/**
+ * 편집 결과의 메타데이터를 원본 정보로부터 계산합니다. 출력 예상치 표시에 사용합니다.
+ */
+export const applyTimeline = (info: GifInfo, timeline: TimelineEdit | null): GifInfo => {
+    if (!timeline) return info;
+    const frames = getFrameSequence(info.frames.length, timeline).map(index => info.frames[index]);
+    return {
+        ...info,
+        frames,
+        duration: frames.reduce((acc, frame) => acc + frame.delay, 0),
+        loopCount: timeline.playCount === null ? info.loopCount : toLoopCount(timeline.playCount),
+    };
+};
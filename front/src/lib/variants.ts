@@ -0,0 +1,91 @@
+// ------------------- 결과 변형 이력 -------------------
+import type { GifFileState, OptimizationSettings, ResultVariant } from '../types';
+import { getFormatByMimeType } from './outputFormats';
+import type { QualityMetrics } from './qualityMetrics';
+import { evictOriginalInWorker } from './workerClient';
+
+let nextVariantId = 1;
+
+export const createVariant = (
+    blob: Blob,
+    originalSize: number,
+    settings: OptimizationSettings | null,
+    quality: QualityMetrics | null = null,
+    durationMs: number | null = null,
+): ResultVariant => ({
+    id: nextVariantId++,
+    blob,
+    url: URL.createObjectURL(blob),
+    size: blob.size,
+    reductionRate: ((originalSize - blob.size) / originalSize) * 100,
+    // 형식을 알 수 없는 Blob(이전 버전 세션 등)은 GIF로 취급
+    format: getFormatByMimeType(blob.type) ?? settings?.format ?? 'gif',
+    settings,
+    createdAt: Date.now(),
+    durationMs,
+    quality,
+    isMeasuringQuality: false,
+    info: null,
+});
+
+// 저장된 세션의 변형을 새 Blob URL로 되살림 (이후 새 변형 id가 겹치지 않게 카운터를 올림)
+export const restoreVariant = (
+    id: number,
+    blob: Blob,
+    originalSize: number,
+    settings: OptimizationSettings | null,
+    createdAt: number,
+    quality: QualityMetrics | null,
+    durationMs: number | null,
+): ResultVariant => {
+    nextVariantId = Math.max(nextVariantId, id + 1);
+    return {
+        ...createVariant(blob, originalSize, settings, quality, durationMs),
+        id,
+        createdAt,
+    };
+};
+
+export const getLatestVariant = (fileState: GifFileState): ResultVariant | null => (
+    fileState.variants[fileState.variants.length - 1] ?? null
+);
+
+// 고정한 변형이 없으면 가장 최근 변형을 다운로드에 사용
+export const getChosenVariant = (fileState: GifFileState): ResultVariant | null => (
+    fileState.variants.find(v => v.id === fileState.chosenVariantId) ?? getLatestVariant(fileState)
+);
+
+export const getViewedVariant = (fileState: GifFileState): ResultVariant | null => (
+    fileState.variants.find(v => v.id === fileState.viewedVariantId) ?? getChosenVariant(fileState)
+);
+
+// 새 변형을 이력에 추가하고 카드에 바로 표시
+export const appendVariant = (fileState: GifFileState, variant: ResultVariant): Partial<GifFileState> => ({
+    variants: [...fileState.variants, variant],
+    viewedVariantId: variant.id,
+});
+
+export const updateVariant = (
+    fileState: GifFileState,
+    variantId: number,
+    patch: Partial<ResultVariant>,
+): Partial<GifFileState> => ({
+    variants: fileState.variants.map(v => (v.id === variantId ? { ...v, ...patch } : v)),
+});
+
+// 변형을 삭제하고 Blob URL을 해제 (고정/표시 중이던 변형이면 기본값으로 되돌림)
+export const removeVariant = (fileState: GifFileState, variantId: number): Partial<GifFileState> => {
+    const target = fileState.variants.find(v => v.id === variantId);
+    if (target) URL.revokeObjectURL(target.url);
+    return {
+        variants: fileState.variants.filter(v => v.id !== variantId),
+        chosenVariantId: fileState.chosenVariantId === variantId ? null : fileState.chosenVariantId,
+        viewedVariantId: fileState.viewedVariantId === variantId ? null : fileState.viewedVariantId,
+    };
+};
+
+export const revokeFileUrls = (fileState: GifFileState) => {
+    evictOriginalInWorker(fileState.originalUrl);
+    URL.revokeObjectURL(fileState.originalUrl);
+    fileState.variants.forEach(v => URL.revokeObjectURL(v.url));
+};
@@ -0,0 +1,111 @@
+// ------------------- 영상 입력 -------------------
+import type { PaletteMode, VideoConversionSettings } from '../types';
+import { LocalizedError } from './localizedError';
+
+export interface VideoInfo {
+    // 재생 시간 (초, MediaRecorder로 녹화한 WebM처럼 알 수 없으면 null)
+    duration: number | null;
+    width: number;
+    height: number;
+}
+
+// 확장자별 MIME 타입 (브라우저가 타입을 비워 두는 경우 확장자로 판별)
+const VIDEO_MIME_TYPES: Record<string, string> = {
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+};
+
+// 서버 허용 범위
+export const MAX_VIDEO_FPS = 30;
+// 서버의 MAX_DIMENSION과 같음
+const MAX_VIDEO_WIDTH = 4096;
+export const VIDEO_FPS_OPTIONS = [5, 8, 10, 12, 15, 20, 24, 30];
+export const PALETTE_MODES: PaletteMode[] = ['full', 'diff', 'single'];
+
+export const DEFAULT_VIDEO_SETTINGS: VideoConversionSettings = {
+    fps: 12,
+    start: 0,
+    end: null,
+    width: 480,
+    paletteMode: 'diff',
+};
+
+// 파일 선택 창에 표시할 형식
+export const VIDEO_ACCEPT = '.mp4,.webm,video/mp4,video/webm';
+
+// 지원하는 영상이면 서버로 보낼 MIME 타입, 아니면 null
+export const getVideoMimeType = (file: File): string | null => {
+    const type = file.type.split(';')[0].trim().toLowerCase();
+    if (Object.values(VIDEO_MIME_TYPES).includes(type)) return type;
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    return VIDEO_MIME_TYPES[extension] ?? null;
+};
+
+export const isVideoFile = (file: File): boolean => getVideoMimeType(file) !== null;
+
+/**
+ * 브라우저의 video 요소로 메타데이터만 읽습니다. 재생할 수 없는 파일이면 오류를 던집니다.
+ */
+export const readVideoInfo = (file: Blob): Promise<VideoInfo> => new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    const cleanup = () => {
+        video.removeAttribute('src');
+        video.load();
+        URL.revokeObjectURL(url);
+    };
+    video.preload = 'metadata';
+    video.muted = true;
+    video.onloadedmetadata = () => {
+        const info: VideoInfo = {
+            duration: Number.isFinite(video.duration) ? video.duration : null,
+            width: video.videoWidth,
+            height: video.videoHeight,
+        };
+        cleanup();
+        if (info.width === 0 || info.height === 0) {
+            reject(new LocalizedError('error.videoNoTrack'));
+        } else {
+            resolve(info);
+        }
+    };
+    video.onerror = () => {
+        cleanup();
+        reject(new LocalizedError('error.videoUnplayable'));
+    };
+    video.src = url;
+});
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+// null은 원본 너비, 없거나 잘못된 값은 기본값
+const sanitizeWidth = (value: unknown): number | null => {
+    if (value === null) return null;
+    const number = Number(value);
+    return Number.isFinite(number) && number > 0 ? clamp(Math.round(number), 1, MAX_VIDEO_WIDTH) : DEFAULT_VIDEO_SETTINGS.width;
+};
+
+/**
+ * 저장된 값을 검증해 영상 변환 설정으로 보정합니다. 없거나 잘못된 항목은 기본값을 씁니다.
+ */
+export const sanitizeVideoSettings = (value: unknown): VideoConversionSettings => {
+    if (typeof value !== 'object' || value === null) return DEFAULT_VIDEO_SETTINGS;
+    const { fps, start, end, width, paletteMode } = value as Record<string, unknown>;
+    const fpsNumber = Number(fps);
+    const startNumber = Number(start);
+    const endNumber = Number(end);
+    const safeStart = Number.isFinite(startNumber) && startNumber >= 0 ? startNumber : 0;
+    return {
+        fps: fps !== null && fps !== undefined && Number.isFinite(fpsNumber) ? clamp(Math.round(fpsNumber), 1, MAX_VIDEO_FPS) : DEFAULT_VIDEO_SETTINGS.fps,
+        start: safeStart,
+        end: end !== null && end !== undefined && Number.isFinite(endNumber) && endNumber > safeStart ? endNumber : null,
+        width: sanitizeWidth(width),
+        paletteMode: PALETTE_MODES.includes(paletteMode as PaletteMode) ? paletteMode as PaletteMode : DEFAULT_VIDEO_SETTINGS.paletteMode,
+    };
+};
+
+// 변환할 구간 길이 (초, 영상 길이를 모르고 끝 시각도 없으면 null)
+export const getClipDuration = (info: VideoInfo | null, settings: VideoConversionSettings): number | null => {
+    const end = settings.end ?? info?.duration ?? null;
+    return end === null ? null : Math.max(0, end - settings.start);
+};
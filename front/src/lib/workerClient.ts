@@ -0,0 +1,135 @@
+// ------------------- 처리 워커 클라이언트 -------------------
+// 디코딩/화질 측정처럼 무거운 작업을 워커에 보내고 결과를 Promise로 받습니다.
+import type { DecodedGif } from './gifDecoder';
+import type { QualityMetrics, QualityTransform } from './qualityMetrics';
+import type { GifThumbnails } from './thumbnails';
+import { evictOriginal, runProcessingTask } from './processingTasks';
+import { createAbortError } from './http';
+import { LocalizedError } from './localizedError';
+import type {
+    GifSource,
+    WorkerRequest,
+    WorkerResponse,
+    WorkerTaskMap,
+    WorkerTaskRequest,
+    WorkerTaskType,
+} from './workerProtocol';
+
+interface PendingTask {
+    resolve: (result: WorkerTaskMap[WorkerTaskType]['result']) => void;
+    reject: (err: unknown) => void;
+}
+
+let worker: Worker | null = null;
+let nextTaskId = 1;
+const pendingTasks = new Map<number, PendingTask>();
+
+// 워커가 비정상 종료되면 대기 중인 작업을 모두 실패시키고 다음 요청에서 새로 만듦
+const resetWorker = (reason: Error) => {
+    worker?.terminate();
+    worker = null;
+    pendingTasks.forEach(task => task.reject(reason));
+    pendingTasks.clear();
+};
+
+const getWorker = (): Worker => {
+    if (!worker) {
+        worker = new Worker(new URL('./processing.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+            const response = event.data;
+            const task = pendingTasks.get(response.id);
+            if (!task) return;
+            pendingTasks.delete(response.id);
+            if (response.ok) {
+                task.resolve(response.result);
+            } else {
+                task.reject(response.aborted
+                    ? createAbortError()
+                    : response.messageKey
+                        ? new LocalizedError(response.messageKey, response.messageParams)
+                        : new Error(response.error));
+            }
+        };
+        worker.onerror = event => {
+            event.preventDefault();
+            resetWorker(event.message ? new LocalizedError('error.worker', { detail: event.message }) : new LocalizedError('error.workerUnknown'));
+        };
+    }
+    return worker;
+};
+
+interface TaskOptions {
+    signal?: AbortSignal;
+    // 워커로 소유권을 넘길 버퍼 (보낸 뒤에는 호출한 쪽에서 사용할 수 없음)
+    transfer?: Transferable[];
+}
+
+const runTask = <K extends WorkerTaskType>(
+    type: K,
+    params: WorkerTaskMap[K]['params'],
+    options: TaskOptions = {},
+): Promise<WorkerTaskMap[K]['result']> => {
+    const { signal, transfer = [] } = options;
+    if (signal?.aborted) return Promise.reject(createAbortError());
+    const request = { id: nextTaskId++, type, params } as WorkerTaskRequest;
+
+    // 워커를 지원하지 않는 환경(테스트 등)에서는 같은 구현을 메인 스레드에서 실행
+    if (typeof Worker === 'undefined') {
+        return runProcessingTask(request, signal ?? new AbortController().signal)
+            .then(output => output.result as WorkerTaskMap[K]['result']);
+    }
+
+    return new Promise((resolve, reject) => {
+        const target = getWorker();
+        const handleAbort = () => {
+            pendingTasks.delete(request.id);
+            target.postMessage({ id: request.id, type: 'cancel' } satisfies WorkerRequest);
+            reject(createAbortError());
+        };
+        pendingTasks.set(request.id, {
+            resolve: result => {
+                signal?.removeEventListener('abort', handleAbort);
+                resolve(result as WorkerTaskMap[K]['result']);
+            },
+            reject: err => {
+                signal?.removeEventListener('abort', handleAbort);
+                reject(err);
+            },
+        });
+        signal?.addEventListener('abort', handleAbort, { once: true });
+        target.postMessage(request satisfies WorkerRequest, { transfer });
+    });
+};
+
+export const decodeBase64InWorker = (data: string, contentType: string = 'image/gif'): Promise<Blob> => (
+    runTask('decodeBase64', { data, contentType })
+);
+
+export const decodeGifInWorker = (source: GifSource, signal?: AbortSignal): Promise<DecodedGif> => (
+    runTask('decodeGif', { source }, { signal, transfer: source instanceof ArrayBuffer ? [source] : [] })
+);
+
+export const measureQualityInWorker = (
+    original: GifSource,
+    optimized: GifSource,
+    signal?: AbortSignal,
+    transform?: QualityTransform,
+): Promise<QualityMetrics> => (
+    runTask('measureQuality', { original, optimized, transform }, {
+        signal,
+        transfer: [original, optimized].filter((source): source is ArrayBuffer => source instanceof ArrayBuffer),
+    })
+);
+
+export const createThumbnailsInWorker = (source: GifSource, maxSize: number, signal?: AbortSignal): Promise<GifThumbnails> => (
+    runTask('frameThumbnails', { source, maxSize }, { signal })
+);
+
+// 원본 object URL을 해제하기 전에 워커의 원본 디코딩 캐시에서도 제거 (워커가 없으면 캐시도 없음)
+export const evictOriginalInWorker = (source: string) => {
+    if (typeof Worker === 'undefined') {
+        evictOriginal(source);
+        return;
+    }
+    worker?.postMessage({ type: 'evictOriginal', source } satisfies WorkerRequest);
+};
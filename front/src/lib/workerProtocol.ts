@@ -0,0 +1,57 @@
+// ------------------- 처리 워커 메시지 프로토콜 -------------------
+import type { DecodedGif } from './gifDecoder';
+import type { MessageKey, MessageParams } from './i18n';
+import type { QualityMetrics, QualityTransform } from './qualityMetrics';
+import type { GifThumbnails } from './thumbnails';
+
+// 워커에 넘길 GIF: object URL, Blob, 또는 소유권을 넘길 ArrayBuffer
+export type GifSource = string | Blob | ArrayBuffer;
+
+// 작업 종류별 입력/출력
+export interface WorkerTaskMap {
+    // JSON 응답의 Base64 결과를 Blob으로 변환
+    decodeBase64: {
+        params: { data: string; contentType: string };
+        result: Blob;
+    };
+    // 프레임 단위 디코딩 (프레임 픽셀 버퍼는 transfer로 돌려받음)
+    decodeGif: {
+        params: { source: GifSource };
+        result: DecodedGif;
+    };
+    // 원본이 object URL이면 워커가 디코딩 결과를 캐시해 같은 원본의 반복 측정을 줄임
+    measureQuality: {
+        params: { original: GifSource; optimized: GifSource; transform?: QualityTransform };
+        result: QualityMetrics;
+    };
+    // 타임라인 편집기용 축소 프레임 (원본 디코딩 캐시를 화질 측정과 함께 사용)
+    frameThumbnails: {
+        params: { source: GifSource; maxSize: number };
+        result: GifThumbnails;
+    };
+}
+
+export type WorkerTaskType = keyof WorkerTaskMap;
+
+export type WorkerTaskRequest = {
+    [K in WorkerTaskType]: { id: number; type: K; params: WorkerTaskMap[K]['params'] };
+}[WorkerTaskType];
+
+// 진행 중인 작업 취소 (id는 취소할 작업의 id)
+export interface WorkerCancelRequest {
+    id: number;
+    type: 'cancel';
+}
+
+// 원본 디코딩 캐시에서 항목 제거 (응답 없음)
+export interface WorkerEvictRequest {
+    type: 'evictOriginal';
+    source: string;
+}
+
+export type WorkerRequest = WorkerTaskRequest | WorkerCancelRequest | WorkerEvictRequest;
+
+export type WorkerResponse =
+    | { id: number; ok: true; result: WorkerTaskMap[WorkerTaskType]['result'] }
+    // 번역할 오류(LocalizedError)는 메시지 대신 카탈로그 키와 값을 함께 보냄
+    | { id: number; ok: false; error: string; aborted: boolean; messageKey?: MessageKey; messageParams?: MessageParams };
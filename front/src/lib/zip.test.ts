@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, makeUniqueName } from './zip';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+interface ParsedEntry {
+    name: string;
+    crc: number;
+    flags: number;
+    method: number;
+    time: number;
+    date: number;
+    data: Uint8Array;
+}
+
+// 끝 레코드 → 중앙 디렉터리 → 로컬 헤더 순으로 따라가며 두 헤더의 값이 서로 맞는지 확인
+const parseZip = (bytes: Uint8Array): ParsedEntry[] => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    const count = view.getUint16(end + 10, true);
+    expect(view.getUint16(end + 8, true)).toBe(count);
+    const centralSize = view.getUint32(end + 12, true);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(centralOffset + centralSize).toBe(end);
+
+    const entries: ParsedEntry[] = [];
+    let position = centralOffset;
+    for (let i = 0; i < count; i++) {
+        expect(view.getUint32(position, true)).toBe(0x02014b50);
+        const nameLength = view.getUint16(position + 28, true);
+        const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+        const size = view.getUint32(position + 20, true);
+        const localOffset = view.getUint32(position + 42, true);
+
+        expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+        // 로컬 헤더의 플래그부터 파일명 길이까지(26바이트)는 중앙 디렉터리와 같아야 함
+        expect(bytes.subarray(localOffset + 6, localOffset + 28)).toEqual(bytes.subarray(position + 8, position + 30));
+        expect(view.getUint16(localOffset + 28, true)).toBe(0);
+        expect(decoder.decode(bytes.subarray(localOffset + 30, localOffset + 30 + nameLength))).toBe(name);
+        expect(view.getUint32(position + 24, true)).toBe(size);
+
+        const dataStart = localOffset + 30 + nameLength;
+        entries.push({
+            name,
+            crc: view.getUint32(position + 16, true),
+            flags: view.getUint16(position + 8, true),
+            method: view.getUint16(position + 10, true),
+            time: view.getUint16(position + 12, true),
+            date: view.getUint16(position + 14, true),
+            data: bytes.slice(dataStart, dataStart + size),
+        });
+        position += 46 + nameLength;
+    }
+    expect(position).toBe(end);
+    return entries;
+};
+
+const zipBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+describe('crc32', () => {
+    it('알려진 값과 일치한다', () => {
+        expect(crc32(new Uint8Array(0))).toBe(0);
+        expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+        expect(crc32(encoder.encode('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+        expect(crc32(new Uint8Array(32))).toBe(0x190a55ad);
+    });
+});
+
+describe('createZip', () => {
+    it('항목마다 헤더, 오프셋, CRC가 맞는 STORE 아카이브를 만든다', async () => {
+        const first = encoder.encode('GIF89a first');
+        const second = new Uint8Array(1000).map((_, i) => (i * 31) & 0xff);
+        const blob = await createZip([
+            { name: 'a.gif', data: new Blob([first]) },
+            { name: '한글 이름.gif', data: new Blob([second]) },
+            { name: 'empty.gif', data: new Blob([]) },
+        ]);
+
+        expect(blob.type).toBe('application/zip');
+        const entries = parseZip(await zipBytes(blob));
+        expect(entries.map(({ name }) => name)).toEqual(['a.gif', '한글 이름.gif', 'empty.gif']);
+        entries.forEach(entry => {
+            expect(entry.method).toBe(0);
+            expect(entry.flags).toBe(0x0800);
+            expect(entry.crc).toBe(crc32(entry.data));
+        });
+        expect(entries[0].data).toEqual(first);
+        expect(entries[1].data).toEqual(second);
+        expect(entries[2].data).toHaveLength(0);
+    });
+
+    it('수정 시각을 DOS 날짜와 시간으로 기록한다', async () => {
+        const blob = await createZip([{ name: 'a.gif', data: new Blob(['x']), lastModified: new Date(2024, 4, 17, 13, 45, 31) }]);
+        const [entry] = parseZip(await zipBytes(blob));
+
+        expect(entry.time).toBe((13 << 11) | (45 << 5) | 15);
+        expect(entry.date).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);
+    });
+
+    it('빈 목록은 끝 레코드만 남는다', async () => {
+        const bytes = await zipBytes(await createZip([]));
+
+        expect(bytes).toHaveLength(22);
+        expect(parseZip(bytes)).toEqual([]);
+    });
+
+    it('처리한 바이트 수를 알린다', async () => {
+        const progress: [number, number][] = [];
+        await createZip(
+            [{ name: 'a.gif', data: new Blob([new Uint8Array(3)]) }, { name: 'b.gif', data: new Blob([new Uint8Array(5)]) }],
+            (processed, total) => progress.push([processed, total]),
+        );
+
+        expect(progress).toEqual([[3, 8], [8, 8]]);
+    });
+});
+
+describe('makeUniqueName', () => {
+    it('대소문자를 무시하고 겹치는 이름에 번호를 붙인다', () => {
+        const used = new Set<string>();
+
+        expect(['a.gif', 'A.GIF', 'a.gif', 'noext', 'noext', '.gif', '.gif'].map(name => makeUniqueName(name, used)))
+            .toEqual(['a.gif', 'A (1).GIF', 'a (2).gif', 'noext', 'noext (1)', '.gif', '.gif (1)']);
+    });
+});
@@ -0,0 +1,126 @@
+// ------------------- ZIP 작성기 -------------------
+// GIF는 이미 압축된 포맷이므로 무압축(STORE) 방식으로 묶어 빠르게 아카이브를 만듭니다.
+// ZIP64는 지원하지 않으므로 전체 크기는 4GB 미만이어야 합니다.
+
+export interface ZipEntry {
+    name: string;
+    data: Blob;
+    lastModified?: Date;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * 같은 이름이 이미 쓰였다면 "name (1).gif"처럼 번호를 붙여 고유한 이름을 만듭니다.
+ */
+export const makeUniqueName = (name: string, usedNames: Set<string>): string => {
+    let candidate = name;
+    const dot = name.lastIndexOf('.');
+    const base = dot > 0 ? name.slice(0, dot) : name;
+    const ext = dot > 0 ? name.slice(dot) : '';
+    for (let i = 1; usedNames.has(candidate.toLowerCase()); i++) {
+        candidate = `${base} (${i})${ext}`;
+    }
+    usedNames.add(candidate.toLowerCase());
+    return candidate;
+};
+
+/**
+ * 항목들을 하나의 ZIP Blob으로 묶습니다. onProgress에는 처리한 바이트 수와 전체 바이트 수가 전달됩니다.
+ */
+export const createZip = async (
+    entries: ZipEntry[],
+    onProgress?: (processedBytes: number, totalBytes: number) => void,
+): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const totalBytes = entries.reduce((acc, entry) => acc + entry.data.size, 0);
+    const parts: BlobPart[] = [];
+    const centralDirectory: Uint8Array<ArrayBuffer>[] = [];
+    let offset = 0;
+    let processedBytes = 0;
+
+    for (const entry of entries) {
+        const nameBytes = encoder.encode(entry.name);
+        const data = new Uint8Array(await entry.data.arrayBuffer());
+        const crc = crc32(data);
+        const { time, date } = toDosDateTime(entry.lastModified ?? new Date());
+
+        // Local file header (30 bytes + 파일명)
+        const local = new Uint8Array(30 + nameBytes.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034b50, true);
+        lv.setUint16(4, 20, true);            // 필요한 버전
+        lv.setUint16(6, 0x0800, true);        // UTF-8 파일명 플래그
+        lv.setUint16(8, 0, true);             // STORE
+        lv.setUint16(10, time, true);
+        lv.setUint16(12, date, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, data.length, true);
+        lv.setUint32(22, data.length, true);
+        lv.setUint16(26, nameBytes.length, true);
+        lv.setUint16(28, 0, true);
+        local.set(nameBytes, 30);
+
+        // Central directory header (46 bytes + 파일명)
+        const central = new Uint8Array(46 + nameBytes.length);
+        const cv = new DataView(central.buffer);
+        cv.setUint32(0, 0x02014b50, true);
+        cv.setUint16(4, 20, true);            // 작성 버전
+        cv.setUint16(6, 20, true);
+        cv.setUint16(8, 0x0800, true);
+        cv.setUint16(10, 0, true);
+        cv.setUint16(12, time, true);
+        cv.setUint16(14, date, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, data.length, true);
+        cv.setUint32(24, data.length, true);
+        cv.setUint16(28, nameBytes.length, true);
+        cv.setUint32(42, offset, true);       // local header 위치
+        central.set(nameBytes, 46);
+
+        parts.push(local, data);
+        centralDirectory.push(central);
+        offset += local.length + data.length;
+
+        processedBytes += data.length;
+        onProgress?.(processedBytes, totalBytes);
+        // 큰 배치에서 UI가 멈추지 않도록 항목마다 이벤트 루프에 양보
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    const centralSize = centralDirectory.reduce((acc, c) => acc + c.length, 0);
+
+    // End of central directory record (22 bytes)
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054b50, true);
+    ev.setUint16(8, entries.length, true);
+    ev.setUint16(10, entries.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+};
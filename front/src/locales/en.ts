@@ -0,0 +1,432 @@
+// ------------------- 영어 메시지 -------------------
+import type { MessageCatalog } from '../lib/i18n';
+
+export const en: MessageCatalog = {
+    // 공통
+    'common.close': 'Close',
+    'common.none': 'None',
+    'common.original': 'Original',
+    'common.result': 'Optimized',
+    'common.seconds': '{value}s',
+    'common.andMore': ' and {count} more',
+    'common.reduction': '{percent} saved',
+    'locale.label': 'Language',
+    'theme.toggle': 'Toggle light/dark theme',
+
+    // 오류
+    'error.network': 'Connection failed: the server is unreachable.',
+    'error.timeout': 'Connection failed: no response within {seconds} seconds.',
+    'error.http': 'Server error: {detail}',
+    'error.httpStatus': 'status code {status}',
+    'error.malformedResponse': 'Invalid server response: {detail}',
+    'error.gifsicleUnavailable': 'gifsicle is not installed on the server, so nothing can be optimized.',
+    'error.uploadBlockedOffline': 'Uploads are disabled because the server is unreachable.',
+    'error.uploadBlockedNoFormats': 'Uploads are disabled because the server has no output formats available.',
+    'error.worker': 'Processing worker error: {detail}',
+    'error.workerUnknown': 'Processing worker error: unknown error',
+    'error.invalidBase64': 'The Base64 data is invalid.',
+    'error.indexedDbUnsupported': 'This browser does not support IndexedDB.',
+    'error.sessionAborted': 'Saving the session was interrupted.',
+    'error.noValidPresets': 'No valid presets were found.',
+    'error.gifTruncated': 'The GIF file is truncated.',
+    'error.notGif': 'Not a GIF file.',
+    'error.gifBadBlock': 'The GIF contains a corrupted block.',
+    'error.gifNoColorTable': 'The GIF has no color table.',
+    'error.gifBadImageData': 'The GIF image data is corrupted.',
+    'error.gifNoFrames': 'No frames were found in the GIF.',
+    'error.videoNoTrack': 'The file has no video track.',
+    'error.videoUnplayable': 'This video cannot be played.',
+
+    // 잘못된 서버 응답의 세부 내용 ({field}는 응답의 필드 이름)
+    'response.notObject': '{field} is not an object.',
+    'response.notString': '{field} is not a string.',
+    'response.notNumber': '{field} is not a number.',
+    'response.notBoolean': '{field} is not a boolean.',
+    'response.missingArray': 'the {field} array is missing.',
+    'response.invalidValue': '{field} has an invalid value.',
+    'response.invalidBase64': '{field} is not valid Base64.',
+    'response.emptyResults': 'the result list is empty.',
+    'response.missingData': 'a result has neither data nor an error.',
+    'response.missingJobResult': 'a finished file has no result.',
+    'response.streamBadMagic': 'the result stream has an invalid signature.',
+    'response.streamVersion': 'unsupported result stream version: {version}',
+    'response.streamBadHeader': 'a result stream header is not JSON.',
+    'response.streamTruncated': 'the result stream ended unexpectedly.',
+    'response.unreadable': 'the response could not be read: {detail}',
+
+    // 진행 상태
+    'progress.default': 'Converting...',
+    'progress.attempt': ' (attempt {attempt})',
+    'progress.queued': 'Waiting in the queue...',
+    'progress.uploading': 'Uploading... {percent}{retry}',
+    'progress.converting': 'Converting the video to GIF on the server...',
+    'progress.processing': 'Converting on the server...{retry}',
+    'progress.retrying': 'Something went wrong, retrying shortly...{retry}',
+
+    // 세션 저장
+    'session.saveFailed': '🚨 Failed to save the session: {error}',
+    'session.restored': {
+        one: '💾 Restored {count} file from your previous session.',
+        other: '💾 Restored {count} files from your previous session.',
+    },
+    'session.loadFailed': '🚨 Could not load the saved session: {error}',
+    'session.cleared': '🧹 Deleted the saved session. Auto-save is now off.',
+    'session.persist': '💾 Keep my work after reloading',
+    'session.usage': 'Storage used: {usage}',
+    'session.clear': '🧹 Delete saved session',
+
+    // 1. 업로드
+    'app.title': 'GIF Extreme Compressor (multi-file)',
+    'upload.title': '1. Upload GIF / video files',
+    'upload.selected': {
+        one: '{count} file selected ({size})',
+        other: '{count} files selected ({size})',
+    },
+    'upload.dropHere': 'Drop files here or click to browse',
+    'upload.hint': 'You can upload GIFs and short videos (MP4, WebM). Videos are converted to GIF on the server and then optimized the same way. You can also drop a whole folder or paste copied files (Ctrl+V).',
+    'upload.tooLarge': 'larger than the {size} upload limit',
+    'upload.videoUnsupported': 'the server cannot process videos',
+    'upload.videoNotAllowed': 'video files are not allowed here',
+    'upload.fileLimit': 'over the {max}-file limit',
+    'upload.excludedInvalid': {
+        one: '🚨 {count} file was skipped. Unsupported or damaged: {files}',
+        other: '🚨 {count} files were skipped. Unsupported or damaged: {files}',
+    },
+    'upload.excludedDuplicate': {
+        one: '🚨 {count} file was skipped. (duplicate)',
+        other: '🚨 {count} files were skipped. (duplicates)',
+    },
+    'upload.duplicates': 'Already added: {files}',
+    'upload.tooManyFiles': {
+        one: '🚨 {count} file was skipped. (up to {max} files)',
+        other: '🚨 {count} files were skipped. (up to {max} files)',
+    },
+    'upload.folderFailed': '🚨 Could not read the folder: {error}',
+
+    // 2. 최적화 설정
+    'settings.title': '2. Settings and optimization',
+    'mode.manual': '🎚️ Manual',
+    'mode.targetSize': '🎯 Target size',
+    'target.label': 'Target size (MB): **{size}**',
+    'target.hint': 'For each file, the quality settings of the output format (lossy/colors for GIF, quality for WebP, colors for APNG) are adjusted automatically to find the best quality under the target. You can set a per-file target on each file card.',
+    'settings.lossy': 'Lossy ({min}-{max}): **{value}**',
+    'settings.colors': 'Colors ({min}-{max}): **{value}**',
+    'settings.overridden': {
+        one: '✏️ {count} file uses its own settings.',
+        other: '✏️ {count} files use their own settings.',
+    },
+    'settings.resetAllOverrides': 'Reset all per-file settings',
+    'settings.qualityThreshold': 'Quality warning threshold (worst-frame SSIM)',
+    'settings.concurrency': 'Files processed at once',
+    'settings.concurrencyJobHint': 'In manual mode, files are uploaded in batches as server jobs, and at most this many jobs run at once.',
+    'optimize.noFiles': 'Please upload a GIF file first.',
+    'optimize.running': 'Converting... ({done}/{total} done)',
+    'optimize.start': {
+        one: '🔥 Optimize {count} file',
+        other: '🔥 Optimize {count} files',
+    },
+    'optimize.cancelAll': '⏹️ Cancel all',
+    'optimize.cancelled': 'Cancelled by the user.',
+    'optimize.failed': 'Optimization failed',
+    'optimize.targetUnreachable': 'The target size ({size}) cannot be reached even at the lowest quality.',
+    'optimize.formatConvertFailed': '🚨 Format conversion failed for {name}: {error}',
+    'job.notFound': 'The job was not found on the server. (It expired or the server restarted.)',
+    'job.resumed': {
+        one: '🔄 Reconnected to {count} server job that was running before the reload.',
+        other: '🔄 Reconnected to {count} server jobs that were running before the reload.',
+    },
+
+    // 안내
+    'guidance.title': '★ Important ★',
+    'guidance.lossy': 'A higher `Lossy` value compresses harder, making the file smaller at the cost of visible quality loss.',
+    'guidance.colors': 'Fewer `Colors` make the file smaller but can lose gradients and color detail.',
+    'guidance.transform': 'Reducing `Frame skipping` and `Output size` cuts the size a lot. The time of dropped frames is added to the remaining ones, so the total length stays the same.',
+    'guidance.experiment': 'For the best result, try several combinations of `Lossy` and `Colors`.',
+    'guidance.webp': 'For the web, `WebP` is often much smaller than GIF. Use `Convert to all formats` on a file card to compare sizes per format.',
+
+    // 3. 결과
+    'results.title': '3. Results and previews',
+    'results.totalFiles': 'Files:',
+    'results.totalReduction': 'Total saved:',
+    'results.includeManifest': 'Include manifest.json',
+    'results.zipProgress': '📦 Creating ZIP... {percent}',
+    'results.downloadZip': {
+        one: '⬇️ Download all as ZIP ({count} file)',
+        other: '⬇️ Download all as ZIP ({count} files)',
+    },
+    'results.zipFailed': '🚨 Failed to create the ZIP: {error}',
+    'results.clearAll': '🗑️ Remove all',
+    'results.reductionStats': 'Reduction min {min} · median {median} · max {max}',
+    'results.failedCount': '{count} failed',
+    'results.exportCsv': '📄 Report CSV',
+    'results.exportJson': '📄 Report JSON',
+    'results.exportHint': 'Downloads per-file sizes, reduction, settings, errors and durations with summary statistics.',
+    'results.showDistribution': '📊 Show size distribution',
+    'results.hideDistribution': '📊 Hide size distribution',
+
+    // 크기 분포 차트
+    'chart.title': 'Size per file (largest original first)',
+    'chart.original': 'Original',
+    'chart.optimized': 'Result',
+    'chart.max': 'max {size}',
+    'chart.bar': '{name}: {original} → {optimized}',
+    'chart.notOptimized': '{name}: {original} (no result)',
+
+    // 파일 목록 정렬/필터/선택
+    'list.sort': 'Sort',
+    'list.sortAdded': 'Order added',
+    'list.sortName': 'Name',
+    'list.sortSize': 'Original size',
+    'list.sortReduction': 'Reduction',
+    'list.sortAscending': 'Sorted ascending (click for descending)',
+    'list.sortDescending': 'Sorted descending (click for ascending)',
+    'list.filter': 'Status',
+    'list.filterAll': 'All ({count})',
+    'list.statusPending': 'Pending ({count})',
+    'list.statusOptimized': 'Optimized ({count})',
+    'list.statusError': 'Error ({count})',
+    'list.selectVisible': 'Select all shown files',
+    'list.selected': '{count} selected',
+    'list.optimizeSelected': '🔄 Re-optimize selected',
+    'list.removeSelected': '🗑️ Remove selected',
+    'list.clearSelection': 'Clear selection',
+    'list.empty': 'No files match the current filter.',
+
+    // 파일 카드
+    'file.select': 'Select {name}',
+    'file.overrideBadge': 'Custom settings',
+    'file.overrideBadgeTitle': 'This file uses its own settings instead of the shared ones.',
+    'file.format': 'Format',
+    'file.applyToAll': 'Apply to all files',
+    'file.resetSettings': 'Reset to defaults',
+    'file.targetSize': 'Target size for this file (MB)',
+    'file.originalSize': 'Original ({size})',
+    'file.originalAlt': 'Original GIF',
+    'file.optimizedAlt': 'Optimized GIF',
+    'file.cropHint': 'Drag over the image to choose the area to keep.',
+    'file.cropDone': '✅ Done cropping',
+    'file.cropStart': '✂️ Crop',
+    'file.cropClear': 'Remove crop',
+    'file.psnr': 'PSNR {value} dB (worst {worst})',
+    'file.ssim': 'SSIM {value} (worst {worst})',
+    'file.belowThreshold': '⚠️ Below the quality threshold (frame at {time})',
+    'file.measuringQuality': 'Measuring quality...',
+    'file.download': '⬇️ Download',
+    'file.downloadPinned': '⬇️ Download (📌 pinned variant)',
+    'file.compare': '🔍 Compare frames',
+    'file.compareUnsupported': 'Frame comparison only supports a GIF original with a GIF result.',
+    'file.waiting': 'Waiting to be optimized',
+    'file.outputFrames': {
+        one: '({count} frame, {duration})',
+        other: '({count} frames, {duration})',
+    },
+    'file.target': '🎯 Target {size}',
+    'file.appliedSettings': 'settings used',
+    'file.targetUnreachable': 'target not reachable',
+    'file.sweep': '📊 Settings sweep',
+    'file.timelineOpen': '🎞️ Edit timeline',
+    'file.timelineClose': '🎞️ Close timeline',
+    'file.cancel': '⏹️ Cancel',
+    'file.remove': '🗑️ Remove',
+
+    // 서버 연결 상태
+    'connection.checking': 'Checking server...',
+    'connection.online': 'Server connected',
+    'connection.degraded': 'Server has limited features',
+    'connection.offline': 'Server unreachable',
+    'connection.legacy': 'This older server does not report its capabilities. Default ranges are used.',
+    'connection.version': 'Version {version}',
+    'connection.formats': 'Output formats: {formats}',
+    'connection.noGifsicle': 'gifsicle is missing, so GIF output is unavailable.',
+    'connection.noFfmpeg': 'ffmpeg is missing, so videos (MP4/WebM) cannot be processed.',
+    'connection.limits': {
+        one: 'Max upload {size} · up to {count} file per request',
+        other: 'Max upload {size} · up to {count} files per request',
+    },
+    'connection.retry': '🔄 Check again',
+
+    // 출력 형식
+    'format.label': 'Output format',
+    'format.unavailable': 'The server does not support this format.',
+    'format.unavailableHint': '⚠️ The server cannot produce {format} output. Please choose another format.',
+    'format.hint.gif': 'Plays everywhere. Adjust quality with the Lossy and Colors settings below.',
+    'format.hint.webp': 'For modern browsers. Often much smaller than GIF at the same quality.',
+    'format.hint.apng': 'Supports full color and partial transparency. Limiting the colors reduces the size.',
+    'format.webpQuality': 'Quality ({min}-{max}): **{value}**',
+    'format.webpEffort': 'Compression effort ({min}-{max}): **{value}**',
+    'format.lossless': 'Lossless',
+    'format.limitPalette': 'Limit palette colors',
+    'format.losslessSummary': 'lossless (effort {effort})',
+    'format.allColors': 'all colors',
+    'formatSizes.title': 'Size by format',
+    'formatSizes.choose': 'Pin the {format} result for download',
+    'formatSizes.notConverted': 'Not converted yet.',
+    'formatSizes.converting': 'Converting...',
+    'formatSizes.convertAll': '🔀 Convert to all formats',
+
+    // 변환 옵션
+    'transform.frameStep': 'Frame skipping',
+    'transform.allFrames': 'Keep all frames',
+    'transform.everyNthFrame': '1 of every {step} frames (1/{step})',
+    'transform.speed': 'Playback speed',
+    'transform.originalSpeed': '1× (original speed)',
+    'transform.speedValue': '{speed}×',
+    'transform.size': 'Output size (px)',
+    'transform.auto': 'Auto',
+    'transform.width': 'Output width',
+    'transform.height': 'Output height',
+    'transform.lockAspect': 'Lock aspect ratio',
+    'transform.unlockAspect': 'Unlock aspect ratio',
+
+    // 영상 변환
+    'video.title': '🎬 Video conversion (MP4/WebM)',
+    'video.fps': 'Frame rate',
+    'video.width': 'Width (px)',
+    'video.palette': 'Palette',
+    'video.palette.full': 'Whole clip (static scenes)',
+    'video.palette.diff': 'Moving areas first (screen recordings)',
+    'video.palette.single': 'New palette per frame (colorful footage)',
+    'video.clipStart': 'Start (s)',
+    'video.clipEnd': 'End (s)',
+    'video.clipEndPlaceholder': '{seconds} (end)',
+    'video.clipToEnd': 'To the end',
+    'video.analyzing': 'Analyzing',
+    'video.clipSummary': {
+        one: ' ({duration}, about {count} frame)',
+        other: ' ({duration}, about {count} frames)',
+    },
+
+    // 프리셋
+    'preset.label': 'Preset',
+    'preset.custom': 'Custom ({settings})',
+    'preset.builtIn': 'Built-in presets',
+    'preset.slackEmoji': 'Slack emoji',
+    'preset.readmeDemo': 'README demo',
+    'preset.jiraAttachment': 'Jira attachment',
+    'preset.bestQuality': 'Best quality',
+    'preset.webWebp': 'WebP for the web',
+    'preset.user': 'My presets',
+    'preset.delete': 'Delete',
+    'preset.namePlaceholder': 'Save current settings as a new preset',
+    'preset.save': '💾 Save',
+    'preset.export': '📤 Export',
+    'preset.import': '📥 Import',
+    'preset.copyLink': '🔗 Copy link',
+    'preset.reservedName': '🚨 Built-in preset names cannot be used: {name}',
+    'preset.saved': '💾 Preset saved: {name}',
+    'preset.deleted': '🗑️ Preset deleted: {name}',
+    'preset.imported': {
+        one: '📥 Imported {count} preset.',
+        other: '📥 Imported {count} presets.',
+    },
+    'preset.importFailed': '🚨 Failed to import presets: {error}',
+    'preset.linkCopied': '🔗 Copied a link with the current settings.',
+    'preset.link': '🔗 Link: {url}',
+
+    // 결과 변형
+    'variant.title': {
+        one: '{count} result variant · Download: {target}',
+        other: '{count} result variants · Download: {target}',
+    },
+    'variant.pinned': '📌 pinned variant',
+    'variant.latest': 'latest variant',
+    'variant.time': 'Time',
+    'variant.format': 'Format',
+    'variant.settings': 'Settings',
+    'variant.size': 'Size',
+    'variant.reduction': 'Saved',
+    'variant.actions': 'Actions',
+    'variant.pin': 'Pin for download',
+    'variant.unpin': 'Unpin',
+    'variant.delete': 'Delete variant',
+
+    // GIF 정보
+    'info.title': 'GIF details',
+    'info.screenSize': 'Canvas size',
+    'info.frameCount': 'Frames',
+    'info.duration': 'Duration',
+    'info.frameRate': 'Frame rate',
+    'info.frameDelay': 'Frame delay',
+    'info.loop': 'Looping',
+    'info.globalPalette': 'Global palette',
+    'info.localPalette': 'Local palettes',
+    'info.disposal': 'Disposal',
+    'info.playOnce': 'Plays once',
+    'info.loopForever': 'Loops forever',
+    'info.loopCount': {
+        one: 'Loops {count} time',
+        other: 'Loops {count} times',
+    },
+    'info.paletteColors': {
+        one: '{count} color',
+        other: '{count} colors',
+    },
+    'info.localPaletteFrames': {
+        one: '{count} frame (up to {colors} colors)',
+        other: '{count} frames (up to {colors} colors)',
+    },
+    'info.disposal.none': 'unspecified',
+    'info.disposal.keep': 'keep',
+    'info.disposal.background': 'background',
+    'info.disposal.previous': 'previous',
+
+    // 설정 스윕
+    'sweep.label': 'Settings sweep for {title}',
+    'sweep.title': '📊 Settings sweep: {title}',
+    'sweep.lossyRange': 'Lossy ({min}-{max})',
+    'sweep.colorsRange': 'Colors ({min}-{max})',
+    'sweep.min': 'Min',
+    'sweep.max': 'Max',
+    'sweep.step': 'Step',
+    'sweep.stop': '⏹️ Stop ({done}/{total})',
+    'sweep.tooMany': 'Too many combinations ({count}, max {max})',
+    'sweep.run': {
+        one: '▶️ Run {count} combination',
+        other: '▶️ Run {count} combinations',
+    },
+    'sweep.failed': {
+        one: '⚠️ {count} combination failed.',
+        other: '⚠️ {count} combinations failed.',
+    },
+    'sweep.chartLabel': 'Scatter plot of quality versus size',
+    'sweep.sizeAxis': 'File size (max {size})',
+    'sweep.ssimAxis': 'Average SSIM ({min} ~ 1.00)',
+    'sweep.legend': 'Dot color: blue (low lossy) → red (high lossy) · Dashed line: original size',
+    'sweep.selectedAlt': 'Selected variant',
+    'sweep.keep': '✅ Use this result',
+
+    // 타임라인 편집
+    'timeline.thumbnailError': 'Failed to create thumbnails: {error}',
+    'timeline.loading': 'Loading frames...',
+    'timeline.frames': 'Frames',
+    'timeline.frameTitle': 'Frame {index} ({time})',
+    'timeline.start': 'Start {frame} ({time})',
+    'timeline.end': 'End {frame} ({time})',
+    'timeline.reverse': '⏪ Reverse',
+    'timeline.pingPong': '🔁 Ping-pong',
+    'timeline.playCount': 'Play count',
+    'timeline.keepPlayCount': 'Keep original',
+    'timeline.plays': {
+        one: 'Plays {count} time',
+        other: 'Plays {count} times',
+    },
+    'timeline.reset': 'Reset edits',
+    'timeline.hint': {
+        one: 'Click a thumbnail: start frame · Shift+click: end frame — result {count} frame, {duration}',
+        other: 'Click a thumbnail: start frame · Shift+click: end frame — result {count} frames, {duration}',
+    },
+
+    // 프레임 비교
+    'compare.label': 'Frame comparison for {title}',
+    'compare.decodeError': 'Decoding error: {error}',
+    'compare.decoding': 'Decoding frames...',
+    'compare.previous': 'Previous frame',
+    'compare.next': 'Next frame',
+    'compare.play': 'Play',
+    'compare.pause': 'Pause',
+    'compare.split': 'Overlay',
+    'compare.sideBySide': 'Side by side',
+    'compare.timeline': 'Timeline',
+    'compare.position': '{time} / {duration} ms · original frame {original}/{originalCount} · result frame {optimized}/{optimizedCount}',
+    'compare.splitPosition': 'Original ◀ split position ▶ Optimized',
+};
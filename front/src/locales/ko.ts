@@ -0,0 +1,370 @@
+// ------------------- 한국어 메시지 -------------------
+// 이 카탈로그의 키가 MessageKey 타입이 되므로 새 메시지는 여기에 먼저 추가합니다.
+import type { Message } from '../lib/i18n';
+
+export const ko = {
+    // 공통
+    'common.close': '닫기',
+    'common.none': '없음',
+    'common.original': '원본',
+    'common.result': '최적화 결과',
+    'common.seconds': '{value}초',
+    'common.andMore': ' 외 {count}개',
+    'common.reduction': '{percent} 절감',
+    'locale.label': '언어',
+    'theme.toggle': '밝은/어두운 테마 전환',
+
+    // 오류
+    'error.network': '통신 실패: 서버에 연결할 수 없습니다.',
+    'error.timeout': '통신 실패: {seconds}초 안에 응답이 없습니다.',
+    'error.http': '서버 오류: {detail}',
+    'error.httpStatus': '상태 코드 {status}',
+    'error.malformedResponse': '잘못된 서버 응답: {detail}',
+    'error.gifsicleUnavailable': '서버에 gifsicle이 설치되어 있지 않아 최적화할 수 없습니다.',
+    'error.uploadBlockedOffline': '서버에 연결할 수 없어 업로드를 막았습니다.',
+    'error.uploadBlockedNoFormats': '서버에서 사용할 수 있는 출력 형식이 없어 업로드를 막았습니다.',
+    'error.worker': '처리 워커 오류: {detail}',
+    'error.workerUnknown': '처리 워커 오류: 알 수 없는 오류',
+    'error.invalidBase64': 'Base64 형식이 올바르지 않습니다.',
+    'error.indexedDbUnsupported': '이 브라우저는 IndexedDB를 지원하지 않습니다.',
+    'error.sessionAborted': '세션 저장이 중단되었습니다.',
+    'error.noValidPresets': '유효한 프리셋이 없습니다.',
+    'error.gifTruncated': 'GIF 파일이 중간에 잘렸습니다.',
+    'error.notGif': 'GIF 파일이 아닙니다.',
+    'error.gifBadBlock': '손상된 GIF 블록입니다.',
+    'error.gifNoColorTable': '색상 테이블이 없는 GIF입니다.',
+    'error.gifBadImageData': '손상된 GIF 이미지 데이터입니다.',
+    'error.gifNoFrames': 'GIF에서 프레임을 찾을 수 없습니다.',
+    'error.videoNoTrack': '영상 트랙이 없습니다.',
+    'error.videoUnplayable': '재생할 수 없는 영상입니다.',
+
+    // 잘못된 서버 응답의 세부 내용 ({field}는 응답의 필드 이름)
+    'response.notObject': '{field} 값이 객체가 아닙니다.',
+    'response.notString': '{field} 값이 문자열이 아닙니다.',
+    'response.notNumber': '{field} 값이 숫자가 아닙니다.',
+    'response.notBoolean': '{field} 값이 boolean이 아닙니다.',
+    'response.missingArray': '{field} 배열이 없습니다.',
+    'response.invalidValue': '{field} 값이 올바르지 않습니다.',
+    'response.invalidBase64': '{field} 값이 올바른 Base64가 아닙니다.',
+    'response.emptyResults': '결과가 비어 있습니다.',
+    'response.missingData': '결과 데이터와 오류가 모두 없습니다.',
+    'response.missingJobResult': '끝난 파일에 결과 정보가 없습니다.',
+    'response.streamBadMagic': '결과 스트림의 시작 바이트가 올바르지 않습니다.',
+    'response.streamVersion': '지원하지 않는 결과 스트림 버전입니다: {version}',
+    'response.streamBadHeader': '결과 스트림의 헤더가 JSON이 아닙니다.',
+    'response.streamTruncated': '결과 스트림이 중간에 끊겼습니다.',
+    'response.unreadable': '응답을 읽을 수 없습니다: {detail}',
+
+    // 진행 상태
+    'progress.default': '변환 중...',
+    'progress.attempt': ' ({attempt}번째 시도)',
+    'progress.queued': '대기열에서 순서를 기다리는 중...',
+    'progress.uploading': '업로드 중... {percent}{retry}',
+    'progress.converting': '서버에서 영상을 GIF로 변환 중...',
+    'progress.processing': '서버에서 변환 중...{retry}',
+    'progress.retrying': '오류 발생, 잠시 후 재시도합니다...{retry}',
+
+    // 세션 저장
+    'session.saveFailed': '🚨 세션 저장 실패: {error}',
+    'session.restored': '💾 이전 작업에서 {count}개 파일을 복원했습니다.',
+    'session.loadFailed': '🚨 저장된 세션을 불러오지 못했습니다: {error}',
+    'session.cleared': '🧹 저장된 세션을 삭제했습니다. 자동 저장이 꺼졌습니다.',
+    'session.persist': '💾 새로고침 후에도 작업 유지',
+    'session.usage': '저장소 사용량: {usage}',
+    'session.clear': '🧹 저장된 세션 삭제',
+
+    // 1. 업로드
+    'app.title': 'GIF 익스트림 압축기 (멀티 파일 지원)',
+    'upload.title': '1. GIF / 영상 파일 업로드',
+    'upload.selected': '{count}개의 파일 선택됨 ({size})',
+    'upload.dropHere': '여기에 파일을 끌어다 놓거나',
+    'upload.hint': 'GIF와 짧은 영상(MP4, WebM)을 올릴 수 있습니다. 영상은 서버에서 GIF로 변환한 뒤 같은 방식으로 최적화합니다. 폴더를 통째로 끌어다 놓거나 복사한 파일을 붙여넣어도(Ctrl+V) 됩니다.',
+    'upload.tooLarge': '최대 업로드 크기 {size} 초과',
+    'upload.videoUnsupported': '서버에서 영상을 처리할 수 없음',
+    'upload.videoNotAllowed': '영상 파일은 올릴 수 없음',
+    'upload.fileLimit': '최대 파일 수 {max}개 초과',
+    'upload.excludedInvalid': '🚨 {count}개의 파일이 제외되었습니다. 지원하지 않거나 손상된 파일: {files}',
+    'upload.excludedDuplicate': '🚨 {count}개의 파일이 제외되었습니다. (중복 파일)',
+    'upload.duplicates': '이미 등록된 파일: {files}',
+    'upload.tooManyFiles': '🚨 {count}개의 파일이 제외되었습니다. (최대 {max}개)',
+    'upload.folderFailed': '🚨 폴더를 읽지 못했습니다: {error}',
+
+    // 2. 최적화 설정
+    'settings.title': '2. 최적화 설정 및 실행',
+    'mode.manual': '🎚️ 직접 설정',
+    'mode.targetSize': '🎯 목표 용량',
+    'target.label': '목표 용량 (MB): **{size}**',
+    'target.hint': '파일마다 출력 형식의 화질 설정(GIF는 lossy/colors, WebP는 품질, APNG는 색상수)을 자동으로 바꿔가며 목표 이하의 가장 높은 화질을 찾습니다. 파일 카드에서 개별 목표 용량을 지정할 수 있습니다.',
+    'settings.lossy': '손실압축 값 ({min}-{max}): **{value}**',
+    'settings.colors': '색상수 ({min}-{max}): **{value}**',
+    'settings.overridden': '✏️ {count}개 파일이 개별 설정을 사용합니다.',
+    'settings.resetAllOverrides': '개별 설정 모두 초기화',
+    'settings.qualityThreshold': '품질 경고 기준 (최저 프레임 SSIM)',
+    'settings.concurrency': '동시 처리 파일 수',
+    'settings.concurrencyJobHint': '직접 설정 모드는 파일을 서버 작업으로 묶어 올리며, 이 값만큼의 작업만 동시에 진행합니다.',
+    'optimize.noFiles': '먼저 GIF 파일을 업로드해주세요.',
+    'optimize.running': '변환 중... ({done}/{total}개 완료)',
+    'optimize.start': '🔥 {count}개 파일 최적화 시작',
+    'optimize.cancelAll': '⏹️ 전체 취소',
+    'optimize.cancelled': '사용자가 취소했습니다.',
+    'optimize.failed': '최적화 실패',
+    'optimize.targetUnreachable': '최저 화질로도 목표 용량({size})을 맞출 수 없습니다.',
+    'optimize.formatConvertFailed': '🚨 {name} 형식 변환 실패: {error}',
+    'job.notFound': '서버에서 작업을 찾을 수 없습니다. (만료되었거나 서버가 다시 시작됨)',
+    'job.resumed': '🔄 새로고침 전에 서버에서 처리 중이던 작업 {count}개에 다시 연결했습니다.',
+
+    // 안내 (`로 감싼 부분은 코드 서식으로 표시)
+    'guidance.title': '★ 중요 ★',
+    'guidance.lossy': '`손실압축 값`이 클수록 압축이 강해져 파일 크기는 더 작아지지만 화질 저하가 발생합니다.',
+    'guidance.colors': '`색상수`가 줄어들수록 파일 크기가 작아지지만 색상 계조나 표현이 손실될 수 있습니다.',
+    'guidance.transform': '`프레임 솎아내기`와 `출력 크기`를 줄이면 용량이 크게 줄고, 버린 프레임의 시간은 남은 프레임에 더해져 전체 길이는 유지됩니다.',
+    'guidance.experiment': '최적의 결과를 얻으려면 다양한 `손실압축 값`과 `색상수` 조합을 시험해 보세요.',
+    'guidance.webp': '웹에 올릴 때는 `WebP`가 GIF보다 훨씬 작은 경우가 많습니다. 파일 카드의 `모든 형식으로 변환`으로 형식별 크기를 비교할 수 있습니다.',
+
+    // 3. 결과
+    'results.title': '3. 파일별 결과 및 미리보기',
+    'results.totalFiles': '총 파일 수:',
+    'results.totalReduction': '총 절감률:',
+    'results.includeManifest': 'manifest.json 포함',
+    'results.zipProgress': '📦 ZIP 생성 중... {percent}',
+    'results.downloadZip': '⬇️ 전체 다운로드 ZIP ({count}개)',
+    'results.zipFailed': '🚨 ZIP 생성 실패: {error}',
+    'results.clearAll': '🗑️ 모두 삭제',
+    'results.reductionStats': '절감률 최소 {min} · 중앙값 {median} · 최대 {max}',
+    'results.failedCount': '실패 {count}개',
+    'results.exportCsv': '📄 보고서 CSV',
+    'results.exportJson': '📄 보고서 JSON',
+    'results.exportHint': '파일별 크기, 절감률, 설정, 오류, 처리 시간과 요약 통계를 내려받습니다.',
+    'results.showDistribution': '📊 크기 분포 보기',
+    'results.hideDistribution': '📊 크기 분포 숨기기',
+
+    // 크기 분포 차트
+    'chart.title': '파일별 크기 분포 (원본 크기순)',
+    'chart.original': '원본',
+    'chart.optimized': '결과',
+    'chart.max': '최대 {size}',
+    'chart.bar': '{name}: {original} → {optimized}',
+    'chart.notOptimized': '{name}: {original} (결과 없음)',
+
+    // 파일 목록 정렬/필터/선택
+    'list.sort': '정렬',
+    'list.sortAdded': '추가한 순서',
+    'list.sortName': '이름',
+    'list.sortSize': '원본 크기',
+    'list.sortReduction': '절감률',
+    'list.sortAscending': '오름차순으로 정렬 중 (눌러서 내림차순)',
+    'list.sortDescending': '내림차순으로 정렬 중 (눌러서 오름차순)',
+    'list.filter': '상태',
+    'list.filterAll': '전체 ({count})',
+    'list.statusPending': '대기 ({count})',
+    'list.statusOptimized': '완료 ({count})',
+    'list.statusError': '오류 ({count})',
+    'list.selectVisible': '보이는 파일 모두 선택',
+    'list.selected': '{count}개 선택됨',
+    'list.optimizeSelected': '🔄 선택한 파일 다시 최적화',
+    'list.removeSelected': '🗑️ 선택한 파일 삭제',
+    'list.clearSelection': '선택 해제',
+    'list.empty': '조건에 맞는 파일이 없습니다.',
+
+    // 파일 카드
+    'file.select': '{name} 선택',
+    'file.overrideBadge': '개별 설정',
+    'file.overrideBadgeTitle': '일괄 설정 대신 이 파일만의 설정을 사용합니다.',
+    'file.format': '형식',
+    'file.applyToAll': '모든 파일에 적용',
+    'file.resetSettings': '기본값으로 초기화',
+    'file.targetSize': '개별 목표 용량 (MB)',
+    'file.originalSize': '원본 ({size})',
+    'file.originalAlt': '원본 GIF',
+    'file.optimizedAlt': '최적화된 GIF',
+    'file.cropHint': '이미지 위에서 드래그해 남길 영역을 고르세요.',
+    'file.cropDone': '✅ 자르기 완료',
+    'file.cropStart': '✂️ 영역 자르기',
+    'file.cropClear': '자르기 해제',
+    'file.psnr': 'PSNR {value} dB (최저 {worst})',
+    'file.ssim': 'SSIM {value} (최저 {worst})',
+    'file.belowThreshold': '⚠️ 품질 기준 미달 ({time} 프레임)',
+    'file.measuringQuality': '화질 측정 중...',
+    'file.download': '⬇️ 다운로드',
+    'file.downloadPinned': '⬇️ 다운로드 (📌 고정 변형)',
+    'file.compare': '🔍 프레임 비교',
+    'file.compareUnsupported': '프레임 비교는 GIF 원본과 GIF 결과만 지원합니다.',
+    'file.waiting': '최적화 대기 중',
+    'file.outputFrames': '({count}프레임, {duration})',
+    'file.target': '🎯 목표 {size}',
+    'file.appliedSettings': '적용 설정',
+    'file.targetUnreachable': '목표 달성 불가',
+    'file.sweep': '📊 설정 스윕',
+    'file.timelineOpen': '🎞️ 타임라인 편집',
+    'file.timelineClose': '🎞️ 타임라인 닫기',
+    'file.cancel': '⏹️ 취소',
+    'file.remove': '🗑️ 삭제',
+
+    // 서버 연결 상태
+    'connection.checking': '서버 확인 중...',
+    'connection.online': '서버 연결됨',
+    'connection.degraded': '서버 일부 기능 제한',
+    'connection.offline': '서버에 연결할 수 없음',
+    'connection.legacy': '기능 정보를 제공하지 않는 이전 버전 서버입니다. 기본 범위를 사용합니다.',
+    'connection.version': '버전 {version}',
+    'connection.formats': '출력 형식: {formats}',
+    'connection.noGifsicle': 'gifsicle이 없어 GIF로 출력할 수 없습니다.',
+    'connection.noFfmpeg': 'ffmpeg가 없어 영상(MP4/WebM)을 처리할 수 없습니다.',
+    'connection.limits': '최대 업로드 {size} · 요청당 최대 {count}개',
+    'connection.retry': '🔄 다시 확인',
+
+    // 출력 형식
+    'format.label': '출력 형식',
+    'format.unavailable': '서버에서 지원하지 않는 형식입니다.',
+    'format.unavailableHint': '⚠️ 서버에서 {format} 출력을 지원하지 않습니다. 다른 형식을 선택하세요.',
+    'format.hint.gif': '모든 환경에서 재생됩니다. 아래 손실압축 값과 색상수로 화질을 조절합니다.',
+    'format.hint.webp': '최신 브라우저용으로, 같은 화질에서 GIF보다 훨씬 작은 경우가 많습니다.',
+    'format.hint.apng': '전체 색상과 반투명을 지원합니다. 색상 수를 제한하면 용량이 줄어듭니다.',
+    'format.webpQuality': '품질 ({min}-{max}): **{value}**',
+    'format.webpEffort': '압축 노력 ({min}-{max}): **{value}**',
+    'format.lossless': '무손실 압축',
+    'format.limitPalette': '팔레트 색상 수 제한',
+    'format.losslessSummary': '무손실 (effort {effort})',
+    'format.allColors': '전체 색상',
+    'formatSizes.title': '형식별 크기',
+    'formatSizes.choose': '{format} 결과를 다운로드용으로 고정',
+    'formatSizes.notConverted': '아직 변환하지 않았습니다.',
+    'formatSizes.converting': '변환 중...',
+    'formatSizes.convertAll': '🔀 모든 형식으로 변환',
+
+    // 변환 옵션
+    'transform.frameStep': '프레임 솎아내기',
+    'transform.allFrames': '모든 프레임 유지',
+    'transform.everyNthFrame': '{step}프레임마다 1개 (1/{step})',
+    'transform.speed': '재생 속도',
+    'transform.originalSpeed': '1배 (원본 속도)',
+    'transform.speedValue': '{speed}배',
+    'transform.size': '출력 크기 (px)',
+    'transform.auto': '자동',
+    'transform.width': '출력 너비',
+    'transform.height': '출력 높이',
+    'transform.lockAspect': '비율 고정',
+    'transform.unlockAspect': '비율 고정 해제',
+
+    // 영상 변환
+    'video.title': '🎬 영상 변환 설정 (MP4/WebM)',
+    'video.fps': '프레임 속도',
+    'video.width': '변환 너비 (px)',
+    'video.palette': '팔레트 생성',
+    'video.palette.full': '전체 프레임 기준 (정적인 화면)',
+    'video.palette.diff': '움직이는 부분 우선 (화면 녹화)',
+    'video.palette.single': '프레임마다 새 팔레트 (색 변화가 큰 영상)',
+    'video.clipStart': '시작 (초)',
+    'video.clipEnd': '끝 (초)',
+    'video.clipEndPlaceholder': '{seconds} (끝)',
+    'video.clipToEnd': '끝까지',
+    'video.analyzing': '분석 중',
+    'video.clipSummary': ' ({duration}, 약 {count}프레임)',
+
+    // 프리셋
+    'preset.label': '프리셋',
+    'preset.custom': '사용자 지정 ({settings})',
+    'preset.builtIn': '기본 프리셋',
+    'preset.slackEmoji': 'Slack 이모지',
+    'preset.readmeDemo': 'README 데모',
+    'preset.jiraAttachment': 'Jira 첨부',
+    'preset.bestQuality': '최고 화질',
+    'preset.webWebp': '웹용 WebP',
+    'preset.user': '내 프리셋',
+    'preset.delete': '삭제',
+    'preset.namePlaceholder': '현재 설정을 새 프리셋으로 저장',
+    'preset.save': '💾 저장',
+    'preset.export': '📤 내보내기',
+    'preset.import': '📥 가져오기',
+    'preset.copyLink': '🔗 링크 복사',
+    'preset.reservedName': '🚨 기본 프리셋 이름은 사용할 수 없습니다: {name}',
+    'preset.saved': '💾 프리셋 저장됨: {name}',
+    'preset.deleted': '🗑️ 프리셋 삭제됨: {name}',
+    'preset.imported': '📥 프리셋 {count}개를 가져왔습니다.',
+    'preset.importFailed': '🚨 프리셋 가져오기 실패: {error}',
+    'preset.linkCopied': '🔗 현재 설정이 담긴 링크를 복사했습니다.',
+    'preset.link': '🔗 링크: {url}',
+
+    // 결과 변형
+    'variant.title': '결과 변형 {count}개 · 다운로드: {target}',
+    'variant.pinned': '📌 고정한 변형',
+    'variant.latest': '가장 최근 변형',
+    'variant.time': '시각',
+    'variant.format': '형식',
+    'variant.settings': '설정',
+    'variant.size': '크기',
+    'variant.reduction': '절감률',
+    'variant.actions': '작업',
+    'variant.pin': '다운로드용으로 고정',
+    'variant.unpin': '고정 해제',
+    'variant.delete': '변형 삭제',
+
+    // GIF 정보
+    'info.title': 'GIF 정보',
+    'info.screenSize': '화면 크기',
+    'info.frameCount': '프레임 수',
+    'info.duration': '재생 시간',
+    'info.frameRate': '프레임 속도',
+    'info.frameDelay': '프레임 지연',
+    'info.loop': '반복',
+    'info.globalPalette': '전역 팔레트',
+    'info.localPalette': '로컬 팔레트',
+    'info.disposal': 'disposal',
+    'info.playOnce': '1회 재생',
+    'info.loopForever': '무한 반복',
+    'info.loopCount': '{count}회 반복',
+    'info.paletteColors': '{count}색',
+    'info.localPaletteFrames': '{count}개 프레임 (최대 {colors}색)',
+    'info.disposal.none': '미지정',
+    'info.disposal.keep': '유지',
+    'info.disposal.background': '배경',
+    'info.disposal.previous': '복원',
+
+    // 설정 스윕
+    'sweep.label': '{title} 설정 스윕',
+    'sweep.title': '📊 설정 스윕: {title}',
+    'sweep.lossyRange': '손실압축 값 ({min}-{max})',
+    'sweep.colorsRange': '색상수 ({min}-{max})',
+    'sweep.min': '최소',
+    'sweep.max': '최대',
+    'sweep.step': '간격',
+    'sweep.stop': '⏹️ 중지 ({done}/{total})',
+    'sweep.tooMany': '조합이 너무 많습니다 ({count}개, 최대 {max}개)',
+    'sweep.run': '▶️ {count}개 조합 실행',
+    'sweep.failed': '⚠️ {count}개 조합이 실패했습니다.',
+    'sweep.chartLabel': '용량 대비 화질 산점도',
+    'sweep.sizeAxis': '파일 크기 (최대 {size})',
+    'sweep.ssimAxis': '평균 SSIM ({min} ~ 1.00)',
+    'sweep.legend': '점 색상: 파랑(lossy 낮음) → 빨강(lossy 높음) · 점선: 원본 크기',
+    'sweep.selectedAlt': '선택한 변형',
+    'sweep.keep': '✅ 이 결과 사용',
+
+    // 타임라인 편집
+    'timeline.thumbnailError': '썸네일 생성 오류: {error}',
+    'timeline.loading': '프레임 불러오는 중...',
+    'timeline.frames': '프레임 목록',
+    'timeline.frameTitle': '{index}번 프레임 ({time})',
+    'timeline.start': '시작 {frame} ({time})',
+    'timeline.end': '끝 {frame} ({time})',
+    'timeline.reverse': '⏪ 역재생',
+    'timeline.pingPong': '🔁 왕복 재생',
+    'timeline.playCount': '재생 횟수',
+    'timeline.keepPlayCount': '원본 유지',
+    'timeline.plays': '{count}회 재생',
+    'timeline.reset': '편집 초기화',
+    'timeline.hint': '썸네일 클릭: 시작 프레임 · Shift+클릭: 끝 프레임 — 편집 결과 {count}프레임, {duration}',
+
+    // 프레임 비교
+    'compare.label': '{title} 프레임 비교',
+    'compare.decodeError': '디코딩 오류: {error}',
+    'compare.decoding': '프레임 디코딩 중...',
+    'compare.previous': '이전 프레임',
+    'compare.next': '다음 프레임',
+    'compare.play': '재생',
+    'compare.pause': '일시정지',
+    'compare.split': '겹쳐 보기',
+    'compare.sideBySide': '나란히 보기',
+    'compare.timeline': '타임라인',
+    'compare.position': '{time} / {duration} ms · 원본 프레임 {original}/{originalCount} · 결과 프레임 {optimized}/{optimizedCount}',
+    'compare.splitPosition': '원본 ◀ 분할 위치 ▶ 결과',
+} satisfies Record<string, Message>;
@@ -0,0 +1,140 @@
+// ------------------- 테스트용 GIF 픽스처 -------------------
+// 프레임별 색상 인덱스로 GIF 바이트를 만듭니다. 이미지 데이터는 실제 LZW로 압축합니다.
+
+export type Rgb = [number, number, number];
+
+export interface FixtureFrame {
+    left?: number;
+    top?: number;
+    width: number;
+    height: number;
+    // 행 순서대로의 색상 인덱스 (인터레이스 프레임도 실제 행 순서로 주면 기록할 때 순서를 바꿈)
+    indices: number[];
+    delayCs?: number;
+    disposal?: number;
+    transparentIndex?: number;
+    localPalette?: Rgb[];
+    interlaced?: boolean;
+}
+
+export interface FixtureGif {
+    width: number;
+    height: number;
+    globalPalette?: Rgb[];
+    // NETSCAPE2.0 반복 횟수 (생략하면 확장을 넣지 않음)
+    loopCount?: number;
+    frames: FixtureFrame[];
+}
+
+// 팔레트 크기는 2의 거듭제곱이어야 하므로 검은색으로 채우고 크기 필드(log2 - 1)를 함께 반환
+const paletteBytes = (palette: Rgb[]): { bytes: number[]; sizeField: number } => {
+    let sizeField = 0;
+    while ((1 << (sizeField + 1)) < palette.length) sizeField++;
+    const padded = [...palette, ...Array.from({ length: (1 << (sizeField + 1)) - palette.length }, (): Rgb => [0, 0, 0])];
+    return { bytes: padded.flat(), sizeField };
+};
+
+const uint16 = (value: number): number[] => [value & 0xff, value >> 8];
+
+/**
+ * GIF LZW 인코더입니다. 사전이 가득 차면 clear 코드를 보내고 다시 시작합니다.
+ */
+export const encodeLzw = (indices: number[], minCodeSize: number): number[] => {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const output: number[] = [];
+    let bitBuffer = 0;
+    let bitCount = 0;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    const dictionary = new Map<number, number>();
+
+    const write = (code: number) => {
+        bitBuffer |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            output.push(bitBuffer & 0xff);
+            bitBuffer >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    write(clearCode);
+    let current = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const next = indices[i];
+        const key = current * 256 + next;
+        const known = dictionary.get(key);
+        if (known !== undefined) {
+            current = known;
+            continue;
+        }
+        write(current);
+        if (nextCode < 4096) {
+            dictionary.set(key, nextCode);
+            if (nextCode === 1 << codeSize) codeSize++;
+            nextCode++;
+        } else {
+            write(clearCode);
+            dictionary.clear();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        }
+        current = next;
+    }
+    write(current);
+    write(endCode);
+    if (bitCount > 0) output.push(bitBuffer & 0xff);
+    return output;
+};
+
+const toSubBlocks = (data: number[]): number[] => {
+    const blocks: number[] = [];
+    for (let i = 0; i < data.length; i += 255) {
+        const chunk = data.slice(i, i + 255);
+        blocks.push(chunk.length, ...chunk);
+    }
+    return [...blocks, 0];
+};
+
+// 실제 행 순서의 인덱스를 인터레이스 기록 순서(8행 간격 → 4 → 2 → 1)로 바꿈
+const interlaceRows = (indices: number[], width: number, height: number): number[] => {
+    const rows: number[] = [];
+    [[0, 8], [4, 8], [2, 4], [1, 2]].forEach(([start, step]) => {
+        for (let row = start; row < height; row += step) rows.push(row);
+    });
+    return rows.flatMap(row => indices.slice(row * width, (row + 1) * width));
+};
+
+export const buildGif = ({ width, height, globalPalette, loopCount, frames }: FixtureGif): Uint8Array<ArrayBuffer> => {
+    const bytes: number[] = [...'GIF89a'].map(c => c.charCodeAt(0));
+    const global = globalPalette ? paletteBytes(globalPalette) : null;
+    bytes.push(...uint16(width), ...uint16(height), global ? 0x80 | global.sizeField : 0, 0, 0);
+    if (global) bytes.push(...global.bytes);
+
+    if (loopCount !== undefined) {
+        bytes.push(0x21, 0xff, 11, ...[...'NETSCAPE2.0'].map(c => c.charCodeAt(0)), 3, 1, ...uint16(loopCount), 0);
+    }
+
+    frames.forEach(frame => {
+        const { left = 0, top = 0, width: frameWidth, height: frameHeight, delayCs = 0, disposal = 0, transparentIndex } = frame;
+        const transparentFlag = transparentIndex === undefined ? 0 : 1;
+        bytes.push(0x21, 0xf9, 4, (disposal << 2) | transparentFlag, ...uint16(delayCs), transparentIndex ?? 0, 0);
+
+        const local = frame.localPalette ? paletteBytes(frame.localPalette) : null;
+        const packed = (local ? 0x80 | local.sizeField : 0) | (frame.interlaced ? 0x40 : 0);
+        bytes.push(0x2c, ...uint16(left), ...uint16(top), ...uint16(frameWidth), ...uint16(frameHeight), packed);
+        if (local) bytes.push(...local.bytes);
+
+        const paletteSize = (local ?? global)!.bytes.length / 3;
+        const minCodeSize = Math.max(2, Math.log2(paletteSize));
+        const indices = frame.interlaced ? interlaceRows(frame.indices, frameWidth, frameHeight) : frame.indices;
+        bytes.push(minCodeSize, ...toSubBlocks(encodeLzw(indices, minCodeSize)));
+    });
+
+    bytes.push(0x3b);
+    return new Uint8Array(bytes);
+};
+
+// 단색 프레임용 인덱스
+export const fill = (width: number, height: number, index: number): number[] => new Array<number>(width * height).fill(index);
@@ -0,0 +1,34 @@
+// ------------------- 테스트용 결과 스트림 -------------------
+// 서버가 보내는 바이너리 결과 스트림('GIFR' + 버전 + 길이가 붙은 레코드)을 만듭니다.
+
+export interface StreamRecordInput {
+    header: unknown;
+    data?: Uint8Array;
+}
+
+const uint32 = (value: number): Uint8Array => {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value);
+    return bytes;
+};
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+        result.set(part, offset);
+        offset += part.length;
+    });
+    return result;
+};
+
+export const STREAM_PREAMBLE = new Uint8Array([0x47, 0x49, 0x46, 0x52, 1]);
+
+export const encodeRecord = ({ header, data = new Uint8Array(0) }: StreamRecordInput): Uint8Array => {
+    const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+    return concatBytes([uint32(headerBytes.length), headerBytes, uint32(data.length), data]);
+};
+
+export const encodeResultStream = (records: StreamRecordInput[]): Uint8Array<ArrayBuffer> => (
+    concatBytes([STREAM_PREAMBLE, ...records.map(encodeRecord)])
+);
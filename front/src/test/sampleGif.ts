@@ -0,0 +1,28 @@
+// ------------------- 알려진 예제 GIF -------------------
+// 널리 쓰이는 GIF 형식 설명("What's in a GIF")의 10x10 예제입니다.
+// 테스트용 인코더와 무관하게 만들어진 바이트이므로 디코더를 독립적으로 검증합니다.
+
+export const SAMPLE_GIF = new Uint8Array([
+    0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x0a, 0x00, 0x0a, 0x00, 0x91, 0x00, 0x00,
+    0xff, 0xff, 0xff, 0xff, 0x00, 0x00, 0x00, 0x00, 0xff, 0x00, 0x00, 0x00,
+    0x21, 0xf9, 0x04, 0x00, 0x00, 0x00, 0x00, 0x00,
+    0x2c, 0x00, 0x00, 0x00, 0x00, 0x0a, 0x00, 0x0a, 0x00, 0x00,
+    0x02, 0x16, 0x8c, 0x2d, 0x99, 0x87, 0x2a, 0x1c, 0xdc, 0x33, 0xa0, 0x02, 0x75, 0xec, 0x95, 0xfa, 0xa8, 0xde, 0x60, 0x8c, 0x04, 0x91, 0x4c, 0x01, 0x00,
+    0x3b,
+]);
+
+// 예제의 색상 인덱스 (0: 흰색, 1: 빨간색, 2: 파란색)
+export const SAMPLE_INDICES = [
+    1, 1, 1, 1, 1, 2, 2, 2, 2, 2,
+    1, 1, 1, 1, 1, 2, 2, 2, 2, 2,
+    1, 1, 1, 1, 1, 2, 2, 2, 2, 2,
+    1, 1, 1, 0, 0, 0, 0, 2, 2, 2,
+    1, 1, 1, 0, 0, 0, 0, 2, 2, 2,
+    2, 2, 2, 0, 0, 0, 0, 1, 1, 1,
+    2, 2, 2, 0, 0, 0, 0, 1, 1, 1,
+    2, 2, 2, 2, 2, 1, 1, 1, 1, 1,
+    2, 2, 2, 2, 2, 1, 1, 1, 1, 1,
+    2, 2, 2, 2, 2, 1, 1, 1, 1, 1,
+];
+
+export const SAMPLE_PALETTE: [number, number, number][] = [[255, 255, 255], [255, 0, 0], [0, 0, 255], [0, 0, 0]];
@@ -0,0 +1,48 @@
+// ------------------- 테스트용 스텁 서버 -------------------
+// 요청마다 handler가 응답을 정하는 로컬 HTTP 서버입니다. 받은 요청은 순서대로 기록합니다.
+import { createServer } from 'node:http';
+import type { IncomingHttpHeaders, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface StubRequest {
+    method: string;
+    url: string;
+    headers: IncomingHttpHeaders;
+    body: Buffer;
+}
+
+export type StubHandler = (request: StubRequest, response: ServerResponse, index: number) => void;
+
+export interface StubServer {
+    baseUrl: string;
+    requests: StubRequest[];
+    close: () => Promise<void>;
+}
+
+export const startStubServer = async (handler: StubHandler): Promise<StubServer> => {
+    const requests: StubRequest[] = [];
+    const server = createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+            const request = { method: req.method ?? '', url: req.url ?? '', headers: req.headers, body: Buffer.concat(chunks) };
+            requests.push(request);
+            handler(request, res, requests.length - 1);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return {
+        baseUrl: `http://127.0.0.1:${port}`,
+        requests,
+        close: () => new Promise<void>(resolve => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        }),
+    };
+};
+
+export const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+};
@@ -0,0 +1,224 @@
+import type { QualityMetrics } from './lib/qualityMetrics';
+import type { GifInfo } from './lib/gifParser';
+import type { VideoInfo } from './lib/video';
+
+// ------------------- 타입 정의 -------------------
+// 원본 GIF 픽셀 좌표 기준의 자르기 영역
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// 파일별 타임라인 편집 (원본 프레임 인덱스 기준)
+export interface TimelineEdit {
+    // 남길 구간의 첫/마지막 프레임 (둘 다 포함)
+    start: number;
+    end: number;
+    reverse: boolean;
+    // 끝까지 재생한 뒤 거꾸로 되돌아오는 왕복 재생
+    pingPong: boolean;
+    // 전체 재생 횟수 (0: 무한 반복, null: 원본 설정 유지)
+    playCount: number | null;
+}
+
+// ffmpeg palettegen 통계 방식 (full: 전체 프레임, diff: 움직이는 부분 위주, single: 프레임마다 새 팔레트)
+export type PaletteMode = 'full' | 'diff' | 'single';
+
+// 영상(MP4/WebM) 입력을 GIF로 바꿀 때의 설정. 시간은 초 단위
+export interface VideoConversionSettings {
+    fps: number;
+    start: number;
+    // null: 영상 끝까지
+    end: number | null;
+    // 변환 너비 (null: 원본 너비). 높이는 비율 유지
+    width: number | null;
+    paletteMode: PaletteMode;
+}
+
+// 출력 형식 (apng: 애니메이션 PNG)
+export type OutputFormat = 'gif' | 'webp' | 'apng';
+
+export interface OptimizationSettings {
+    format: OutputFormat;
+    // GIF 화질 (gifsicle --lossy / --colors)
+    lossy: number;
+    colors: number;
+    // 애니메이션 WebP 화질 (0-100, 무손실이면 압축 노력 정도로 사용)
+    webpQuality: number;
+    webpLossless: boolean;
+    // APNG 팔레트 색상 수 (null: 전체 색상 무손실)
+    apngColors: number | null;
+    // N프레임마다 1프레임만 남김 (1: 모든 프레임 유지). 버린 프레임의 표시 시간은 남은 프레임에 합침
+    frameStep: number;
+    // 출력 크기 (null: 원본/자른 크기 유지, 한쪽만 지정하면 비율 유지)
+    width: number | null;
+    height: number | null;
+    // 자르기 영역 (null: 자르지 않음). 리사이즈 전에 적용
+    crop: CropRect | null;
+    // 재생 속도 배율 (2: 두 배 빠르게)
+    speed: number;
+    // 구간 자르기/역재생/반복 편집 (null: 편집 없음). 프레임 솎아내기 전에 적용
+    timeline: TimelineEdit | null;
+    // 영상 입력 변환 설정 (GIF 입력에는 쓰지 않음). 영상에는 프레임 솎아내기/타임라인 대신 이 설정을 적용
+    // 자르기와 출력 크기는 변환한 GIF에 이어서 적용
+    video: VideoConversionSettings;
+}
+
+// 영상에서 GIF로 변환할 구간 (초)
+export type VideoClip = Pick<VideoConversionSettings, 'start' | 'end'>;
+
+// 파일마다 다른 편집. 화질 개별 설정과 따로 보관해 일괄 설정 적용이나 개별 설정 해제와 관계없이 유지
+export interface FileEdits {
+    crop: CropRect | null;
+    timeline: TimelineEdit | null;
+    clip: VideoClip;
+}
+
+// manual: 고정 설정으로 한 번 최적화 / targetSize: 목표 용량에 맞춰 설정을 자동 탐색
+export type OptimizationMode = 'manual' | 'targetSize';
+
+export interface TargetAttempt {
+    settings: OptimizationSettings;
+    size: number;
+    fits: boolean;
+}
+
+export interface TargetSearchSummary {
+    // searching: 탐색 중 / met: 목표 충족 / unreachable: 최저 화질로도 목표 초과 / failed: 탐색 중 서버 오류
+    status: 'searching' | 'met' | 'unreachable' | 'failed';
+    targetBytes: number;
+    settings: OptimizationSettings | null;
+    attempts: TargetAttempt[];
+}
+
+// 한 번의 최적화로 만들어진 결과 변형
+export interface ResultVariant {
+    id: number;
+    blob: Blob;
+    url: string;
+    size: number;
+    reductionRate: number;
+    // 결과 Blob의 MIME 타입으로 판별한 출력 형식
+    format: OutputFormat;
+    // 결과를 만든 설정 (알 수 없으면 null)
+    settings: OptimizationSettings | null;
+    createdAt: number;
+    // 결과를 만드는 데 걸린 시간 (비동기 작업은 서버 처리 시간, 알 수 없으면 null)
+    durationMs: number | null;
+    // 원본 대비 화질 지표 (측정 전이거나 실패하면 null)
+    quality: QualityMetrics | null;
+    isMeasuringQuality: boolean;
+    // 결과 GIF의 컨테이너 메타데이터 (분석 전이면 null)
+    info: GifInfo | null;
+}
+
+// 큐에서 처리 중인 파일의 진행 상태
+export interface FileProgress {
+    // converting: 서버에서 영상을 GIF로 변환 중 (비동기 작업에서만 알 수 있음)
+    phase: 'queued' | 'uploading' | 'converting' | 'processing' | 'retrying';
+    // 현재 요청의 업로드 진행률 (0~1)
+    uploaded: number;
+    // 현재 요청의 시도 횟수 (재시도 시 증가)
+    attempt: number;
+}
+
+export interface GifFileState {
+    id: number;
+    file: File;
+    // 폴더로 추가한 파일의 상대 경로 (ZIP 안의 폴더 구조에 사용, 직접 고른 파일은 파일 이름)
+    relativePath: string;
+    // 중복 검사용 파일 내용 해시 (이전 버전 세션에서 복원해 아직 계산 전이면 null)
+    contentHash: string | null;
+    originalUrl: string;
+    originalSize: number;
+    // 원본 GIF의 컨테이너 메타데이터 (분석 전이거나 영상이면 null)
+    originalInfo: GifInfo | null;
+    // 원본 영상의 메타데이터 (분석 전이거나 GIF면 null)
+    videoInfo: VideoInfo | null;
+
+    // 최적화 결과 이력 (오래된 순)
+    variants: ResultVariant[];
+    // 다운로드에 사용할 변형 (null이면 가장 최근 변형)
+    chosenVariantId: number | null;
+    // 카드에 표시 중인 변형 (null이면 다운로드용 변형)
+    viewedVariantId: number | null;
+
+    isProcessing: boolean;
+    progress: FileProgress | null;
+    error: string;
+
+    // 파일별 최적화 설정 (null이면 일괄 기본 설정 사용). 자르기/타임라인/영상 구간은 edits에만 있음
+    settingsOverride: OptimizationSettings | null;
+    edits: FileEdits;
+
+    // 파일별 목표 용량 (null이면 일괄 목표 용량 사용)
+    targetBytes: number | null;
+    targetSearch: TargetSearchSummary | null;
+}
+
+// ZIP에 함께 담기는 manifest.json의 파일별 항목
+export interface ManifestEntry {
+    name: string;
+    originalName: string;
+    originalSize: number;
+    optimizedSize: number;
+    reductionRate: number;
+    format: OutputFormat;
+    settings: OptimizationSettings | null;
+}
+
+export interface OptimizationResult {
+    filename: string;
+    original_size: number;
+    optimized_data: string | null;
+    optimized_size: number | null;
+    // 서버가 실제로 적용한 설정 (오류 결과에는 없을 수 있음)
+    lossy?: number;
+    colors?: number;
+    // 결과 데이터의 출력 형식과 MIME 타입 (이전 서버는 보내지 않으며 GIF로 취급)
+    format?: string;
+    mime_type?: string;
+    error: string | null;
+    // 오류 종류 (예: 'gifsicle_unavailable', 'not_gif', 'invalid_settings', 'processing_failed')
+    error_code?: string | null;
+}
+
+export interface ServerResponse {
+    results: OptimizationResult[];
+}
+
+// ------------------- 비동기 작업 (/api/jobs) -------------------
+export type JobFileState = 'queued' | 'processing' | 'done' | 'error';
+
+export interface JobFileStatus {
+    // 작업에 올린 순서 (결과 조회 경로에 사용)
+    index: number;
+    filename: string;
+    originalSize: number;
+    status: JobFileState;
+    // 처리 중인 단계 (converting: 영상 변환 / optimizing: 최적화)
+    stage: 'converting' | 'optimizing' | null;
+    durationMs: number | null;
+    // 끝난 파일의 결과 메타데이터 (optimized_data는 항상 null)
+    result: OptimizationResult | null;
+}
+
+export interface JobStatus {
+    jobId: string;
+    // running: 처리 중인 파일이 남음 / done: 모든 파일이 끝남
+    status: 'running' | 'done';
+    total: number;
+    completed: number;
+    pollIntervalMs: number;
+    files: JobFileStatus[];
+}
+
+// 새로고침 후 다시 연결할 수 있도록 저장하는 진행 중 작업
+export interface ActiveJob {
+    jobId: string;
+    createdAt: number;
+    // 작업 파일 순서대로 화면의 파일 id와 요청한 설정
+    files: { fileId: number; settings: OptimizationSettings }[];
+}
@@ -1,7 +1,13 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  test: {
+    // lib의 순수 로직만 테스트하므로 브라우저 환경 없이 Node에서 실행
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
 })
@@ -0,0 +1,25 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+// 다른 도구에 넣을 라이브러리 빌드 (npm run build:embed)
+// - 기본: <gif-optimizer> 커스텀 엘리먼트, React까지 포함한 단일 번들
+// - --mode component: React 컴포넌트, react/react-dom은 호스트 앱의 것을 사용
+export default defineConfig(({ mode }) => {
+  const isComponent = mode === 'component'
+  return {
+    plugins: [react()],
+    // 라이브러리 빌드는 process.env.NODE_ENV를 치환하지 않으므로 React를 포함하는 번들에서만 직접 지정
+    define: isComponent ? {} : { 'process.env.NODE_ENV': JSON.stringify('production') },
+    build: {
+      // 두 번들이 서로의 결과를 지우지 않도록 폴더를 나누고, 각 폴더는 빌드마다 비워 이전 결과가 남지 않게 함
+      outDir: isComponent ? 'dist-embed/react' : 'dist-embed/element',
+      emptyOutDir: true,
+      lib: isComponent
+        ? { entry: 'src/embed/index.ts', formats: ['es'], fileName: () => 'gif-optimizer-react.js' }
+        : { entry: 'src/embed/register.ts', formats: ['es'], fileName: () => 'gif-optimizer-element.js' },
+      rollupOptions: {
+        external: isComponent ? ['react', 'react-dom', 'react-dom/client', 'react/jsx-runtime'] : [],
+      },
+    },
+  }
+})